@@ -1,6 +1,15 @@
+import {
+  getApiAccess,
+  hasMachineToken,
+  MACHINE_USER,
+  ROLE_HEADER,
+  USER_HEADER,
+} from '@/lib/services/auth/permissions';
+import { getRequestSession } from '@/lib/services/auth/sessions';
 import createMiddleware from 'next-intl/middleware';
+import { NextRequest, NextResponse } from 'next/server';
 
-export default createMiddleware({
+const intlMiddleware = createMiddleware({
   // A list of all locales that are supported
   locales: ['hr', 'de'],
 
@@ -11,7 +20,55 @@ export default createMiddleware({
   localePrefix: 'as-needed',
 });
 
+/**
+ * API requests need a session with a role allowed by the route's access rule
+ * (see permissions.ts); webhooks check their signature themselves.
+ * Authorized requests reach the route with the user and role in headers.
+ */
+async function authorizeApiRequest(request: NextRequest): Promise<NextResponse> {
+  const { pathname } = request.nextUrl;
+  const access = getApiAccess(pathname, request.method);
+
+  const headers = new Headers(request.headers);
+  headers.delete(USER_HEADER);
+  headers.delete(ROLE_HEADER);
+
+  if (access.type !== 'roles') {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  if (access.machine && hasMachineToken(request)) {
+    headers.set(USER_HEADER, MACHINE_USER);
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 });
+  }
+
+  if (!access.roles.includes(session.role)) {
+    console.warn(`${session.username} (${session.role}) denied ${request.method} ${pathname}`);
+    return NextResponse.json(
+      { success: false, error: `Not allowed for role ${session.role}` },
+      { status: 403 }
+    );
+  }
+
+  headers.set(USER_HEADER, session.username);
+  headers.set(ROLE_HEADER, session.role);
+  return NextResponse.next({ request: { headers } });
+}
+
+export default function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return authorizeApiRequest(request);
+  }
+
+  return intlMiddleware(request);
+}
+
 export const config = {
-  // Match all routes except static files, Next.js internals, and Vercel
-  matcher: ['/((?!_next|_vercel|.*\\..*).*)'],
+  // Match all routes except static files, Next.js internals, and Vercel - plus every API route
+  matcher: ['/((?!api|_next|_vercel|.*\\..*).*)', '/api/:path*'],
 };
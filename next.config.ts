@@ -12,6 +12,12 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/wp-content/uploads/**',
       },
+      {
+        protocol: 'https',
+        hostname: 'welmora.hr',
+        port: '',
+        pathname: '/wp-content/uploads/**',
+      },
     ],
   },
 
@@ -0,0 +1,60 @@
+import { isStoreId } from '@/lib/api/woocommerce/stores';
+import { listAuditLog } from '@/lib/services/auditLog';
+import { AuditEntry, StoreId } from '@/types/woocommerce-api';
+import { NextRequest, NextResponse } from 'next/server';
+
+const ENTITY_TYPES: AuditEntry['entityType'][] = ['product', 'order'];
+
+/**
+ * GET /api/audit?entityType=product&entityId=4006000000000&actor=ana&action=inventory&limit=100
+ *
+ * Search the audit log - also `store`, `since`/`until` (ISO dates) and `search`
+ * (a SKU, an order ID or part of a product name)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const entityType = searchParams.get('entityType');
+    const store = searchParams.get('store');
+
+    if (entityType && !ENTITY_TYPES.includes(entityType as AuditEntry['entityType'])) {
+      return NextResponse.json(
+        { success: false, error: `Invalid entityType. Use ${ENTITY_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (store && !isStoreId(store)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch or hr' },
+        { status: 400 }
+      );
+    }
+
+    const result = await listAuditLog({
+      entityType: (entityType as AuditEntry['entityType']) || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      store: (store as StoreId) || undefined,
+      actor: searchParams.get('actor') || undefined,
+      action: (searchParams.get('action') as AuditEntry['action']) || undefined,
+      search: searchParams.get('search') || undefined,
+      since: searchParams.get('since') || undefined,
+      until: searchParams.get('until') || undefined,
+      limit: parseInt(searchParams.get('limit') || '100') || 100,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in audit API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
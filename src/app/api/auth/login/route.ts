@@ -0,0 +1,54 @@
+import { createSession, setSessionCookie } from '@/lib/services/auth/sessions';
+import { authenticateUser } from '@/lib/services/auth/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/auth/login - check the credentials and start a session (HTTP-only cookie)
+ *
+ * Body: { username: string, password: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticateUser(username, password);
+    if (!user.success || !user.data) {
+      console.warn(`Failed login for ${username}`);
+      return NextResponse.json({ success: false, error: user.error }, { status: 401 });
+    }
+
+    const session = await createSession(user.data.id, request.headers.get('user-agent'));
+    if (!session.success || !session.data) {
+      return NextResponse.json({ success: false, error: session.error }, { status: 500 });
+    }
+
+    console.log(`User ${user.data.username} signed in`);
+
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        username: user.data.username,
+        role: user.data.role,
+        expiresAt: session.data.expiresAt.toISOString(),
+      },
+    });
+    setSessionCookie(response, session.data.token, session.data.expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
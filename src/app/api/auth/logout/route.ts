@@ -0,0 +1,27 @@
+import { clearSessionCookie, revokeSession, SESSION_COOKIE } from '@/lib/services/auth/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/auth/logout - revoke the session and clear its cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await revokeSession(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  clearSessionCookie,
+  getRequestSession,
+  refreshSession,
+  SESSION_COOKIE,
+  setSessionCookie,
+} from '@/lib/services/auth/sessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/auth/session
+ *
+ * Signed-in user of the session cookie; an active session gets a new expiry (sliding refresh)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+
+    if (!session) {
+      const response = NextResponse.json(
+        { success: false, error: 'Not signed in' },
+        { status: 401 }
+      );
+      clearSessionCookie(response);
+      return response;
+    }
+
+    const refreshedUntil = await refreshSession(session);
+    const response = NextResponse.json({
+      success: true,
+      data: {
+        username: session.username,
+        role: session.role,
+        expiresAt: (refreshedUntil || new Date(session.expiresAt)).toISOString(),
+      },
+    });
+
+    if (refreshedUntil) {
+      setSessionCookie(response, request.cookies.get(SESSION_COOKIE)!.value, refreshedUntil);
+    }
+    return response;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { exportBarcodeMappingsCsv } from '@/lib/services/barcodeMappings';
+import { NextResponse } from 'next/server';
+
+// GET /api/barcodes/export - download all mappings as CSV (same format as the import)
+export async function GET() {
+  try {
+    const result = await exportBarcodeMappingsCsv();
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    const date = new Date().toISOString().split('T')[0];
+
+    return new NextResponse(result.data, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="barcode-mappings-${date}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in barcodes export API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { importBarcodeMappingsCsv } from '@/lib/services/barcodeMappings';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/barcodes/import
+ *
+ * Import mappings from a CSV file (multipart field `file`) or a raw text/csv body.
+ * Columns: barcode, sku, product_name (optional), variant (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let csv: string;
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ success: false, error: 'Missing file' }, { status: 400 });
+      }
+
+      csv = await file.text();
+    } else {
+      csv = await request.text();
+    }
+
+    const result = await importBarcodeMappingsCsv(csv);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in barcodes import API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
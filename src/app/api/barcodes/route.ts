@@ -0,0 +1,117 @@
+import {
+  deleteBarcodeMapping,
+  findSkuByBarcode,
+  listBarcodeMappings,
+  saveBarcodeMapping,
+} from '@/lib/services/barcodeMappings';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/barcodes?search=... - list mappings
+ * GET /api/barcodes?barcode=... - resolve one scanned barcode to its SKU
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const barcode = searchParams.get('barcode');
+
+    if (barcode) {
+      const sku = await findSkuByBarcode(barcode);
+      return NextResponse.json({ success: true, data: { barcode, sku } });
+    }
+
+    const result = await listBarcodeMappings(searchParams.get('search') || undefined);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in barcodes API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/barcodes
+ *
+ * Create or re-point a mapping.
+ * Body: { barcode, sku, productName?, variant?, source?: 'manual' | 'learned' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { barcode, sku, productName, variant, source = 'manual' } = await request.json();
+
+    if (!barcode || !sku) {
+      return NextResponse.json(
+        { success: false, error: 'Missing barcode or sku' },
+        { status: 400 }
+      );
+    }
+
+    if (source !== 'manual' && source !== 'learned') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid source. Must be one of: manual, learned' },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveBarcodeMapping({
+      barcode: String(barcode),
+      sku: String(sku),
+      productName,
+      variant,
+      source,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in barcodes API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/barcodes?barcode=... - remove one mapping
+export async function DELETE(request: NextRequest) {
+  try {
+    const barcode = request.nextUrl.searchParams.get('barcode');
+
+    if (!barcode) {
+      return NextResponse.json({ success: false, error: 'Missing barcode' }, { status: 400 });
+    }
+
+    const result = await deleteBarcodeMapping(barcode);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in barcodes API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { getPackagesForDate } from '@/lib/api/woocommerce/client';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { generatePackingSlipsPdf, resolveDocumentLocale } from '@/lib/services/printDocuments';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/documents/[date]/packing-slips
+ *
+ * Packing slips (PDF), one page per order with line items and customer notes.
+ * Query: ?store=ch|hr|all, ?packageId= for a single order, ?locale=hr|de|en
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  try {
+    const { date } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const store = parseStoreSelection(searchParams.get('store'));
+    const packageId = searchParams.get('packageId');
+    const locale = resolveDocumentLocale(
+      searchParams.get('locale'),
+      request.cookies.get('NEXT_LOCALE')?.value
+    );
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Use YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch, hr or all' },
+        { status: 400 }
+      );
+    }
+
+    const results = await Promise.all(
+      resolveStores(store).map(storeId => getPackagesForDate(date, storeId))
+    );
+    const failed = results.find(result => !result.success);
+
+    if (failed) {
+      return NextResponse.json({ success: false, error: failed.error }, { status: 500 });
+    }
+
+    const packages = results
+      .flatMap(result => result.data || [])
+      .filter(pkg => !packageId || pkg.id === packageId);
+
+    if (packages.length === 0) {
+      return NextResponse.json(
+        { success: false, error: packageId ? 'Package not found' : 'No packages for this date' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await generatePackingSlipsPdf(packages, locale);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="packing-slips-${date}-${store}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in packing slips API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { generateDailySnapshot, mergeDailySnapshots } from '@/lib/api/woocommerce/client';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { generatePickListPdf, resolveDocumentLocale } from '@/lib/services/printDocuments';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/documents/[date]/pick-list
+ *
+ * Consolidated pick list (PDF) grouped by category in store aisle order.
+ * Query: ?store=ch|hr|all, ?locale=hr|de|en (defaults to the NEXT_LOCALE cookie)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  try {
+    const { date } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const store = parseStoreSelection(searchParams.get('store'));
+    const locale = resolveDocumentLocale(
+      searchParams.get('locale'),
+      request.cookies.get('NEXT_LOCALE')?.value
+    );
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Use YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch, hr or all' },
+        { status: 400 }
+      );
+    }
+
+    const results = await Promise.all(
+      resolveStores(store).map(storeId => generateDailySnapshot(date, storeId))
+    );
+    const failed = results.find(result => !result.success || !result.data);
+
+    if (failed) {
+      return NextResponse.json({ success: false, error: failed.error }, { status: 500 });
+    }
+
+    const snapshot =
+      results.length === 1
+        ? results[0].data!
+        : mergeDailySnapshots(
+            date,
+            results.map(result => result.data!)
+          );
+
+    const pdf = await generatePickListPdf(snapshot, locale);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="pick-list-${date}-${store}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in pick list API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { resendEmail } from '@/lib/services/mail/resendEmail';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Rebuilding a sticker ZIP downloads every PDF again
+export const maxDuration = 300;
+
+/**
+ * POST /api/emails/[id]/resend - send a logged email again to its original recipients
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = await resendEmail(id);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error resending email:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { listEmailLog } from '@/lib/services/mail/log';
+import { EmailLogEntry } from '@/types/woocommerce-api';
+import { NextRequest, NextResponse } from 'next/server';
+
+const EMAIL_STATUSES: EmailLogEntry['status'][] = ['sending', 'sent', 'failed'];
+
+/**
+ * GET /api/emails?search=12345&status=failed&event=declarations&limit=100
+ *
+ * Search the email log - `search` is an order number, a recipient or part of the subject
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const status = searchParams.get('status');
+
+    if (status && !EMAIL_STATUSES.includes(status as EmailLogEntry['status'])) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Use ${EMAIL_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await listEmailLog({
+      search: searchParams.get('search') || undefined,
+      status: (status as EmailLogEntry['status']) || undefined,
+      event: searchParams.get('event') || undefined,
+      limit: parseInt(searchParams.get('limit') || '100') || 100,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in emails API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,14 @@
-import WooCommerce from '@/lib/api/woocommerce/client';
+import { getWooCommerceClient } from '@/lib/api/woocommerce/client';
+import { isStoreId } from '@/lib/api/woocommerce/stores';
+import { AuditChange, getAuditActor, pickFields, recordAudit } from '@/lib/services/auditLog';
+import {
+  getCatalogProductBySku,
+  listCatalogProducts,
+  upsertCatalogProduct,
+} from '@/lib/services/productCatalog';
+import { CatalogProduct, StoreId } from '@/types/woocommerce-api';
 import { NextRequest, NextResponse } from 'next/server';
 
-interface WooCommerceProduct {
-  id: number;
-  sku: string;
-  name: string;
-  stock_quantity: string;
-  stock_status: string;
-  price: string;
-  date_modified: string;
-  date_created: string;
-}
-
 interface InventoryItem {
   id: number;
   sku: string;
@@ -22,11 +19,14 @@ interface InventoryItem {
   last_updated: string;
 }
 
+const AUDITED_FIELDS: (keyof CatalogProduct)[] = ['stock_quantity', 'stock_status', 'price'];
+
 interface InventoryUpdate {
   sku: string;
   stock_quantity: number;
   stock_status: string;
   price?: string;
+  store?: StoreId;
 }
 
 export async function GET(request: NextRequest) {
@@ -36,40 +36,37 @@ export async function GET(request: NextRequest) {
     const per_page = parseInt(searchParams.get('per_page') || '20');
     const search = searchParams.get('search') || '';
     const status = searchParams.get('status') || 'publish';
+    const store = searchParams.get('store') || 'ch';
 
-    const response = await WooCommerce.get('products', {
-      page,
-      per_page,
-      search,
-      status,
-    });
+    if (!isStoreId(store)) {
+      return NextResponse.json({ error: 'Invalid store. Use ch or hr' }, { status: 400 });
+    }
 
-    if (!response.data || !Array.isArray(response.data)) {
+    const result = await listCatalogProducts(store, { page, perPage: per_page, search, status });
+
+    if (!result.success || !result.data) {
       return NextResponse.json({ error: 'Failed to fetch inventory' }, { status: 500 });
     }
 
-    const inventory: InventoryItem[] = response.data.map((product: WooCommerceProduct) => ({
+    const inventory: InventoryItem[] = result.data.products.map(product => ({
       id: product.id,
       sku: product.sku || '',
       name: product.name,
-      stock_quantity: parseInt(product.stock_quantity || '0'),
+      stock_quantity: product.stock_quantity || 0,
       stock_status: product.stock_status || 'instock',
       price: product.price || '0',
-      last_updated: product.date_modified || product.date_created,
+      last_updated: product.date_modified || product.date_created || '',
     }));
 
     return NextResponse.json({
       success: true,
       data: inventory,
+      store,
       pagination: {
         page,
         per_page,
-        total: response.headers['x-wp-total']
-          ? parseInt(response.headers['x-wp-total'] as string)
-          : 0,
-        totalPages: response.headers['x-wp-totalpages']
-          ? parseInt(response.headers['x-wp-totalpages'] as string)
-          : 0,
+        total: result.data.total,
+        totalPages: Math.ceil(result.data.total / per_page),
       },
     });
   } catch (error) {
@@ -81,24 +78,26 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body: InventoryUpdate = await request.json();
-    const { sku, stock_quantity, stock_status, price } = body;
+    const { sku, stock_quantity, stock_status, price, store = 'ch' } = body;
 
     if (!sku) {
       return NextResponse.json({ error: 'SKU is required' }, { status: 400 });
     }
 
+    if (!isStoreId(store)) {
+      return NextResponse.json({ error: 'Invalid store. Use ch or hr' }, { status: 400 });
+    }
+
+    const WooCommerce = getWooCommerceClient(store);
+
     // Find product by SKU
-    const searchResponse = await WooCommerce.get(`products?sku=${sku}`);
+    const searchResult = await getCatalogProductBySku(store, sku);
 
-    if (
-      !searchResponse.data ||
-      !Array.isArray(searchResponse.data) ||
-      searchResponse.data.length === 0
-    ) {
+    if (!searchResult.data) {
       return NextResponse.json({ error: 'Product not found' }, { status: 404 });
     }
 
-    const product = searchResponse.data[0] as WooCommerceProduct;
+    const product = searchResult.data;
     const updateData: Record<string, unknown> = {
       stock_quantity,
       stock_status,
@@ -109,6 +108,18 @@ export async function POST(request: NextRequest) {
     }
 
     const response = await WooCommerce.put(`products/${product.id}`, updateData);
+    await upsertCatalogProduct(store, response.data);
+    await recordAudit(getAuditActor(request), [
+      {
+        action: 'inventory',
+        entityType: 'product',
+        entityId: product.sku,
+        entityName: product.name,
+        store,
+        before: pickFields(product, AUDITED_FIELDS),
+        after: pickFields(response.data as CatalogProduct, AUDITED_FIELDS),
+      },
+    ]);
 
     return NextResponse.json({
       success: true,
@@ -124,32 +135,35 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { updates } = body;
+    const { updates, store = 'ch' } = body;
 
     if (!Array.isArray(updates) || updates.length === 0) {
       return NextResponse.json({ error: 'Updates array is required' }, { status: 400 });
     }
 
+    if (!isStoreId(store)) {
+      return NextResponse.json({ error: 'Invalid store. Use ch or hr' }, { status: 400 });
+    }
+
+    const WooCommerce = getWooCommerceClient(store);
+
     const results = [];
     const errors = [];
+    const changes: AuditChange[] = [];
 
     for (const update of updates) {
       try {
         const { sku, stock_quantity, stock_status, price } = update;
 
         // Find product by SKU
-        const searchResponse = await WooCommerce.get(`products?sku=${sku}`);
+        const searchResult = await getCatalogProductBySku(store, sku);
 
-        if (
-          !searchResponse.data ||
-          !Array.isArray(searchResponse.data) ||
-          searchResponse.data.length === 0
-        ) {
+        if (!searchResult.data) {
           errors.push({ sku, error: 'Product not found' });
           continue;
         }
 
-        const product = searchResponse.data[0] as WooCommerceProduct;
+        const product = searchResult.data;
         const updateData: Record<string, unknown> = {
           stock_quantity,
           stock_status,
@@ -160,7 +174,17 @@ export async function PUT(request: NextRequest) {
         }
 
         const response = await WooCommerce.put(`products/${product.id}`, updateData);
+        await upsertCatalogProduct(store, response.data);
         results.push({ sku, success: true, data: response.data });
+        changes.push({
+          action: 'inventory',
+          entityType: 'product',
+          entityId: product.sku,
+          entityName: product.name,
+          store,
+          before: pickFields(product, AUDITED_FIELDS),
+          after: pickFields(response.data as CatalogProduct, AUDITED_FIELDS),
+        });
       } catch (error) {
         errors.push({
           sku: update.sku,
@@ -169,6 +193,8 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    await recordAudit(getAuditActor(request), changes);
+
     return NextResponse.json({
       success: true,
       message: `Updated ${results.length} products, ${errors.length} errors`,
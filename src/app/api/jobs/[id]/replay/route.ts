@@ -0,0 +1,30 @@
+import { replayJob } from '@/lib/services/jobs/queue';
+import { runDueJobs } from '@/lib/services/jobs/runner';
+import { after, NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/jobs/[id]/replay - queue a dead job again with fresh attempts
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = await replayJob(id);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 409 });
+    }
+
+    after(() => runDueJobs());
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error replaying job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
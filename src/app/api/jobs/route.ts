@@ -0,0 +1,43 @@
+import { listJobs } from '@/lib/services/jobs/queue';
+import { BackgroundJob } from '@/types/woocommerce-api';
+import { NextRequest, NextResponse } from 'next/server';
+
+const JOB_STATUSES: BackgroundJob['status'][] = ['queued', 'running', 'succeeded', 'dead'];
+
+/**
+ * GET /api/jobs?status=dead&type=declaration-email&limit=100 - jobs for the admin view
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const status = searchParams.get('status');
+
+    if (status && !JOB_STATUSES.includes(status as BackgroundJob['status'])) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Use ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await listJobs({
+      status: (status as BackgroundJob['status']) || undefined,
+      type: searchParams.get('type') || undefined,
+      limit: parseInt(searchParams.get('limit') || '100') || 100,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in jobs API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { runDueJobs } from '@/lib/services/jobs/runner';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Sticker downloads, SMTP and price scraping can take a while
+export const maxDuration = 300;
+
+// No new job is started after this, leaving time for the last one (a price batch takes 1-2 minutes)
+const RUN_BUDGET_MS = 150 * 1000;
+
+/**
+ * POST /api/jobs/run?limit=10
+ *
+ * Run due background jobs until the limit or the time budget is reached - called by the scheduled
+ * job-runner workflow
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '10') || 10;
+    const result = await runDueJobs(limit, { budgetMs: RUN_BUDGET_MS });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error running jobs:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
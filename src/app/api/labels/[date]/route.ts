@@ -0,0 +1,74 @@
+import { getPackagesForDate } from '@/lib/api/woocommerce/client';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { generateShippingLabelsPdf } from '@/lib/services/shippingLabels';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/labels/[date]
+ *
+ * Printable shipping labels (PDF) for the packages of a day.
+ * Query: ?store=ch|hr|all, ?packageId= for a single package (otherwise the whole day)
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  try {
+    const { date } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const store = parseStoreSelection(searchParams.get('store'));
+    const packageId = searchParams.get('packageId');
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Use YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch, hr or all' },
+        { status: 400 }
+      );
+    }
+
+    const results = await Promise.all(
+      resolveStores(store).map(storeId => getPackagesForDate(date, storeId))
+    );
+    const failed = results.find(result => !result.success);
+
+    if (failed) {
+      return NextResponse.json({ success: false, error: failed.error }, { status: 500 });
+    }
+
+    const packages = results
+      .flatMap(result => result.data || [])
+      .filter(pkg => !packageId || pkg.id === packageId);
+
+    if (packages.length === 0) {
+      return NextResponse.json(
+        { success: false, error: packageId ? 'Package not found' : 'No packages for this date' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await generateShippingLabelsPdf(packages);
+    const filename = packageId
+      ? `label-${packages[0].orderNumber}.pdf`
+      : `labels-${date}-${store}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in labels API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
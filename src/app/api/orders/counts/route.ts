@@ -1,42 +1,59 @@
 import { getOrdersByDateRange } from '@/lib/api/woocommerce/client';
-import { NextResponse } from 'next/server';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import {
+  addDays,
+  getOrderWorkday,
+  getWorkdayConfig,
+  getWorkdayForInstant,
+} from '@/lib/api/woocommerce/workday';
+import { NextRequest, NextResponse } from 'next/server';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Get orders for the last 30 days to show counts on calendar
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - 30);
+    const { searchParams } = new URL(request.url);
+    const store = parseStoreSelection(searchParams.get('store'));
 
-    const startDateStr = startDate.toISOString().split('T')[0];
-    const endDateStr = endDate.toISOString().split('T')[0];
+    if (!store) {
+      return NextResponse.json({ error: 'Invalid store. Use ch, hr or all' }, { status: 400 });
+    }
+
+    // Get orders for the last 30 days to show counts on calendar.
+    // The current day follows the cutoff, so late orders already show on tomorrow.
+    const workday = getWorkdayConfig();
+    const endDateStr = getWorkdayForInstant(new Date(), workday);
+    const startDateStr = addDays(endDateStr, -30);
 
     console.log('ORDER COUNTS DEBUG - Date range:', {
+      store,
       startDateStr,
       endDateStr,
       currentTime: new Date().toISOString(),
-      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      note: 'Fetching PROCESSING orders only for calendar',
+      statuses: workday.statuses,
+      cutoffTime: workday.cutoffTime,
+      timeZone: workday.timeZone,
     });
 
-    const response = await getOrdersByDateRange(startDateStr, endDateStr);
+    const responses = await Promise.all(
+      resolveStores(store).map(storeId => getOrdersByDateRange(startDateStr, endDateStr, storeId))
+    );
 
-    if (!response.success || !response.data) {
+    if (responses.some(response => !response.success || !response.data)) {
       return NextResponse.json({ error: 'Failed to fetch orders' }, { status: 500 });
     }
 
+    const orders = responses.flatMap(response => response.data || []);
+
     // Count orders per day - use ALL orders from the date range, not filtered ones
     const counts: Record<string, number> = {};
 
-    response.data.forEach((order: { date_created: string; id?: number }) => {
-      // Parse the UTC date from WooCommerce and extract just the date part
-      const dateOnly = order.date_created.split('T')[0];
+    orders.forEach(order => {
+      // Same day assignment as the shopping and packing lists (cutoff and time zone applied)
+      const dateOnly = getOrderWorkday(order, workday);
 
       console.log('ORDER COUNTS DEBUG - Processing order:', {
         orderId: order.id,
-        date_created_full: order.date_created,
-        date_only: dateOnly,
-        time_part: order.date_created.split('T')[1],
+        date_created_gmt: order.date_created_gmt,
+        workday: dateOnly,
       });
 
       counts[dateOnly] = (counts[dateOnly] || 0) + 1;
@@ -45,10 +62,10 @@ export async function GET() {
     console.log('ORDER COUNTS DEBUG - Final counts:', counts);
     console.log(
       'ORDER COUNTS DEBUG - Sample order dates:',
-      response.data.slice(0, 3).map(o => ({
+      orders.slice(0, 3).map(o => ({
         id: o.id,
-        date_created: o.date_created,
-        extracted_date: o.date_created.split('T')[0],
+        date_created_gmt: o.date_created_gmt,
+        workday: getOrderWorkday(o, workday),
       }))
     );
 
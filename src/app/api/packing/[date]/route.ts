@@ -1,48 +1,67 @@
 import { getPackagesForDate } from '@/lib/api/woocommerce/client';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
 import { NextResponse } from 'next/server';
 
-// TODO: Add HR integration
-// - Create /api/packing-hr/[date] endpoint using getPackagesForDateHr()
-// - Add webshop selector dropdown in frontend
-// - Update scanner to work with both .ch and .hr orders
-// - Use updateOrderStatusHr() for HR order completion
-
+/**
+ * GET /api/packing/[date]?store=ch|hr|all
+ *
+ * Packages (one per order) for one webshop or the merged view of all webshops
+ */
 export async function GET(request: Request, { params }: { params: Promise<{ date: string }> }) {
   try {
     const { date } = await params;
+    const { searchParams } = new URL(request.url);
+    const store = parseStoreSelection(searchParams.get('store'));
 
-    console.log('Packing API called for date:', date);
+    console.log('Packing API called for date:', date, 'store:', store);
 
     // Validate date format
     if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       return NextResponse.json({ error: 'Invalid date format. Use YYYY-MM-DD' }, { status: 400 });
     }
 
+    if (!store) {
+      return NextResponse.json({ error: 'Invalid store. Use ch, hr or all' }, { status: 400 });
+    }
+
     // Debug environment variables
     const envDebug = {
       woocommerceUrl: process.env.WOOCOMMERCE_URL,
       hasWooCommerceKey: !!process.env.WOOCOMMERCE_CONSUMER_KEY,
       hasWooCommerceSecret: !!process.env.WOOCOMMERCE_CONSUMER_SECRET,
+      woocommerceHrUrl: process.env.WOOCOMMERCE_HR_URL,
+      hasWooCommerceHrKey: !!process.env.WOOCOMMERCE_HR_CONSUMER_KEY,
+      hasWooCommerceHrSecret: !!process.env.WOOCOMMERCE_HR_CONSUMER_SECRET,
     };
 
     console.log('Environment debug:', envDebug);
 
-    const result = await getPackagesForDate(date);
+    const stores = resolveStores(store);
+    const results = await Promise.all(stores.map(storeId => getPackagesForDate(date, storeId)));
+    const failed = results.find(result => !result.success);
 
-    console.log('Packing packages result:', { success: result.success, error: result.error });
+    console.log(
+      'Packing packages results:',
+      results.map((result, index) => ({
+        store: stores[index],
+        success: result.success,
+        error: result.error,
+      }))
+    );
 
-    if (!result.success) {
+    if (failed) {
       return NextResponse.json(
         {
-          error: result.error,
+          error: failed.error,
           debug: envDebug,
           date,
+          store,
         },
         { status: 500 }
       );
     }
 
-    return NextResponse.json(result.data || []);
+    return NextResponse.json(results.flatMap(result => result.data || []));
   } catch (error) {
     console.error('Packing API error:', error);
     return NextResponse.json(
@@ -0,0 +1,32 @@
+import { getPackingHistory } from '@/lib/services/packingSessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/packing/sessions/[date]/history
+ *
+ * Scan log of a packing day, newest first.
+ * Query: ?packageId= to get the timeline of a single package
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  try {
+    const { date } = await params;
+    const packageId = request.nextUrl.searchParams.get('packageId') || undefined;
+
+    const result = await getPackingHistory(date, packageId);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in packing history API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { resetPackingPackage, getPackingActor } from '@/lib/services/packingSessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/packing/sessions/[date]/reset
+ *
+ * Reset all scan counts of a package and set its order back to processing.
+ * Body: { packageId: string, actor?, deviceId?, deviceLabel? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await params;
+    const body = await request.json();
+    const { packageId } = body;
+
+    if (!packageId) {
+      return NextResponse.json({ success: false, error: 'Missing packageId' }, { status: 400 });
+    }
+
+    const result = await resetPackingPackage(date, packageId, getPackingActor(request, body));
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in packing reset API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { recordPackingScan, getPackingActor } from '@/lib/services/packingSessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/packing/sessions/[date]/scan
+ *
+ * Record one scanned unit of a SKU in a package.
+ * Body: { packageId: string, sku: string, actor?, deviceId?, deviceLabel? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await params;
+    const body = await request.json();
+    const { packageId, sku } = body;
+
+    if (!packageId || !sku) {
+      return NextResponse.json(
+        { success: false, error: 'Missing packageId or sku' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordPackingScan(date, packageId, sku, getPackingActor(request, body));
+
+    if (!result.success) {
+      // Conflicts carry the current package state so the device can catch up
+      return NextResponse.json(
+        { success: false, error: result.error, conflict: !!result.conflict, data: result.data },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in packing scan API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { getPackingActor, undoLastPackingScan } from '@/lib/services/packingSessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/packing/sessions/[date]/undo-last
+ *
+ * Undo the most recent scan of the day that is not undone yet.
+ * Body: { packageId?: string, onlyThisDevice?: boolean, actor?, deviceId?, deviceLabel? }
+ * With onlyThisDevice the last scan made from deviceId is undone.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await params;
+    const body = await request.json();
+    const actor = getPackingActor(request, body);
+
+    if (body.onlyThisDevice && !actor.deviceId) {
+      return NextResponse.json({ success: false, error: 'Missing deviceId' }, { status: 400 });
+    }
+
+    const result = await undoLastPackingScan(
+      date,
+      {
+        packageId: typeof body.packageId === 'string' ? body.packageId : undefined,
+        deviceId: body.onlyThisDevice ? actor.deviceId : undefined,
+      },
+      actor
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in packing undo-last API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { getPackagesForDate } from '@/lib/api/woocommerce/client';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { startPackingSession } from '@/lib/services/packingSessions';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/packing/sessions
+ *
+ * Start (or resume) the shared packing session for a date.
+ * Body: { date: 'YYYY-MM-DD', store?: 'ch' | 'hr' | 'all' }
+ * Returns the packages of the selected store(s) with persisted scan counts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { date } = body;
+    const store = parseStoreSelection(body.store);
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Use YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch, hr or all' },
+        { status: 400 }
+      );
+    }
+
+    const stores = resolveStores(store);
+    const results = await Promise.all(stores.map(storeId => getPackagesForDate(date, storeId)));
+    const failed = results.find(result => !result.success);
+
+    if (failed) {
+      return NextResponse.json({ success: false, error: failed.error }, { status: 500 });
+    }
+
+    const session = await startPackingSession(
+      date,
+      results.flatMap(result => result.data || [])
+    );
+
+    if (!session.success) {
+      return NextResponse.json({ success: false, error: session.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: session.data });
+  } catch (error) {
+    console.error('Error in packing sessions API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
-import { updateOrderStatus } from '@/lib/api/woocommerce/client';
+import { isStoreId } from '@/lib/api/woocommerce/stores';
+import { getAuditActor } from '@/lib/services/auditLog';
+import { changeOrderStatus, completeOrderWithShipment } from '@/lib/services/shipments';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { orderId, status } = body;
+    const { orderId, status, store = 'ch' } = body;
 
     // Validate input
     if (!orderId || !status) {
@@ -29,8 +31,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate store
+    if (!isStoreId(store)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid store. Must be one of: ch, hr',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Both paths record the change in the audit log
+    const auditActor = getAuditActor(request);
+
+    // Completing creates the carrier shipment and stores the tracking number on the order
+    if (status === 'completed') {
+      const completed = await completeOrderWithShipment(orderId, store, auditActor);
+
+      if (!completed.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: completed.error || 'Failed to update order status',
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          orderId,
+          store,
+          newStatus: status,
+          shipment: completed.shipment,
+          shipmentError: completed.shipmentError,
+        },
+      });
+    }
+
     // Update order status in WooCommerce
-    const result = await updateOrderStatus(orderId, status);
+    const result = await changeOrderStatus(orderId, status, store, auditActor);
 
     if (!result.success) {
       return NextResponse.json(
@@ -46,6 +88,7 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         orderId,
+        store,
         newStatus: status,
         order: result.data,
       },
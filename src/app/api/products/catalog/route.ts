@@ -0,0 +1,111 @@
+import { isStoreId } from '@/lib/api/woocommerce/stores';
+import {
+  getCatalogProductBySku,
+  getCatalogSyncState,
+  listCatalogProducts,
+  syncProductCatalog,
+} from '@/lib/services/productCatalog';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/products/catalog?store=ch&search=...&status=publish&page=1&per_page=50
+ * GET /api/products/catalog?store=ch&sku=... - one product
+ *
+ * Reads the local product mirror (synced first when it is stale)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const store = searchParams.get('store') || 'ch';
+    const sku = searchParams.get('sku');
+
+    if (!isStoreId(store)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch or hr' },
+        { status: 400 }
+      );
+    }
+
+    if (sku) {
+      const result = await getCatalogProductBySku(store, sku);
+
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+      }
+      if (!result.data) {
+        return NextResponse.json({ success: false, error: 'Product not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    }
+
+    const perPage = parseInt(searchParams.get('per_page') || '0') || undefined;
+    const page = parseInt(searchParams.get('page') || '1') || 1;
+
+    const [result, state] = await Promise.all([
+      listCatalogProducts(store, {
+        search: searchParams.get('search') || undefined,
+        status: searchParams.get('status') || 'any',
+        page,
+        perPage,
+      }),
+      getCatalogSyncState(store),
+    ]);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data.products,
+      total: result.data.total,
+      sync: state.data,
+    });
+  } catch (error) {
+    console.error('Error in product catalogue API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/products/catalog
+ *
+ * Sync the mirror from WooCommerce.
+ * Body: { store?: 'ch' | 'hr', full?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { store = 'ch', full = false } = await request.json().catch(() => ({}));
+
+    if (!isStoreId(store)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch or hr' },
+        { status: 400 }
+      );
+    }
+
+    const result = await syncProductCatalog(store, { full: full === true });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error syncing product catalogue:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,37 @@
-import { createDMScraper } from '@/lib/services/scrapers/dm-scraper';
-import WooCommerce from '@/lib/api/woocommerce/client';
+import { getAuditActor } from '@/lib/services/auditLog';
+import {
+  cleanCompetitorData,
+  CompetitorUpdateStats,
+  enqueueCompetitorPriceJobs,
+} from '@/lib/services/competitorPrices';
+import { getLastPriceChanges } from '@/lib/services/priceHistory';
+import { listCatalogProducts } from '@/lib/services/productCatalog';
+import {
+  COMPETITOR_IDS,
+  getCompetitorMetaKeys,
+  getCompetitorScraper,
+  getEnabledCompetitors,
+  getEnabledScrapers,
+  isCompetitorId,
+} from '@/lib/services/scrapers/registry';
+import { CompetitorId } from '@/lib/services/scrapers/types';
 import { NextRequest, NextResponse } from 'next/server';
 
-interface WooCommerceProduct {
-  id: number;
-  name: string;
-  sku: string;
-  price: string;
-  stock_quantity: number | null;
-  stock_status: string;
-  backorders: string;
-  manage_stock: boolean;
-  images: Array<{ src: string }>;
-  meta_data?: Array<{ key: string; value: string }>;
+// Older single-competitor actions, still accepted
+const LEGACY_UPDATE_ACTIONS: Record<string, CompetitorId> = { update_dm_prices: 'dm' };
+const LEGACY_CLEAN_ACTIONS: Record<string, CompetitorId> = {
+  clean_dm_data: 'dm',
+  clean_mueller_data: 'mueller',
+};
+
+// Competitor of a legacy action; own keys only, so e.g. 'constructor' is not an action
+function getLegacySource(
+  actions: Record<string, CompetitorId>,
+  action: unknown
+): CompetitorId | undefined {
+  return typeof action === 'string' && Object.prototype.hasOwnProperty.call(actions, action)
+    ? actions[action]
+    : undefined;
 }
 
 export async function GET(request: NextRequest) {
@@ -21,8 +40,6 @@ export async function GET(request: NextRequest) {
     const action = searchParams.get('action');
     const search = searchParams.get('search');
 
-    const api = WooCommerce;
-
     console.log('WooCommerce Config:', {
       url: process.env.WOOCOMMERCE_URL,
       hasKey: !!process.env.WOOCOMMERCE_CONSUMER_KEY,
@@ -33,12 +50,9 @@ export async function GET(request: NextRequest) {
     if (action === 'clear_cache') {
       try {
         // Clear caches for all scrapers
-        const dmScraper = createDMScraper();
-
-        if (typeof dmScraper.clearCache === 'function') {
-          await dmScraper.clearCache();
-        }
-        console.log('Cache cleared for DM scraper');
+        const scrapers = getEnabledScrapers();
+        scrapers.forEach(scraper => scraper.clearCache());
+        console.log(`Cache cleared for ${scrapers.map(scraper => scraper.name).join(', ')}`);
 
         return NextResponse.json({
           success: true,
@@ -57,123 +71,38 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Prepare query parameters for WooCommerce
-    const queryParams: Record<string, unknown> = {
-      per_page: 100,
-      status: 'publish',
-      orderby: 'title',
-      order: 'asc',
-    };
-
-    // Add search parameter if provided
-    if (search) {
-      queryParams.search = search;
-    }
-
-    console.log('Fetching products with params:', queryParams);
+    console.log('Fetching products from catalogue:', { search });
 
-    // Fetch products using pagination
-    let allProducts: WooCommerceProduct[] = [];
-    let page = 1;
-    let hasMorePages = true;
-
-    while (hasMorePages) {
-      console.log(`Fetching page ${page}...`);
-      const response = await api.get('products', {
-        ...queryParams,
-        page: page,
-      });
-      const pageProducts = response.data as WooCommerceProduct[];
-
-      if (pageProducts.length === 0) {
-        hasMorePages = false;
-      } else {
-        allProducts = [...allProducts, ...pageProducts];
-        page++;
+    // Name and SKU search run against the local product mirror
+    const catalogResult = await listCatalogProducts('ch', {
+      status: 'publish',
+      search: search || undefined,
+    });
 
-        // Stop if we got less than per_page (last page)
-        if (pageProducts.length < 100) {
-          hasMorePages = false;
-        }
-      }
+    if (!catalogResult.success || !catalogResult.data) {
+      throw new Error(catalogResult.error || 'Failed to load product catalogue');
     }
 
-    console.log(
-      `WooCommerce API call successful - fetched ${allProducts.length} products from ${page - 1} pages`
-    );
-    console.log(`Total fetched: ${allProducts.length} products from WooCommerce`);
-
-    // If search term is provided and WooCommerce search didn't find anything,
-    // try to filter all products on backend side for exact SKU matches
-    if (search && allProducts.length === 0) {
-      console.log(`No results from WooCommerce search, trying backend filtering for: ${search}`);
-
-      // Fetch all products without search filter
-      let allProductsForFiltering: WooCommerceProduct[] = [];
-      let filterPage = 1;
-      let hasMoreFilterPages = true;
-
-      while (hasMoreFilterPages) {
-        console.log(`Fetching page ${filterPage} for backend filtering...`);
-        const response = await api.get('products', {
-          per_page: 100,
-          status: 'publish',
-          orderby: 'title',
-          order: 'asc',
-          page: filterPage,
-        });
-        const pageProducts = response.data as WooCommerceProduct[];
-
-        if (pageProducts.length === 0) {
-          hasMoreFilterPages = false;
-        } else {
-          allProductsForFiltering = [...allProductsForFiltering, ...pageProducts];
-          filterPage++;
-
-          if (pageProducts.length < 100) {
-            hasMoreFilterPages = false;
-          }
-        }
-      }
-
-      // Filter products by name or SKU containing search term
-      const searchLower = search.toLowerCase();
-      console.log(`Searching for: "${searchLower}" in ${allProductsForFiltering.length} products`);
-
-      // Debug: log first few products to see their structure
-      console.log(
-        'Sample products:',
-        allProductsForFiltering.slice(0, 3).map(p => ({
-          name: p.name,
-          sku: p.sku,
-          nameMatch: p.name.toLowerCase().includes(searchLower),
-          skuMatch: p.sku.toLowerCase().includes(searchLower),
-        }))
-      );
-
-      allProducts = allProductsForFiltering.filter(product => {
-        const nameMatch = product.name.toLowerCase().includes(searchLower);
-        const skuMatch = product.sku.toLowerCase().includes(searchLower);
-        const matches = nameMatch || skuMatch;
-
-        if (matches) {
-          console.log(
-            `✓ Match found: ${product.name} (${product.sku}) - nameMatch: ${nameMatch}, skuMatch: ${skuMatch}`
-          );
-        }
-
-        return matches;
-      });
+    const allProducts = catalogResult.data.products;
+    console.log(`Total fetched: ${allProducts.length} products from catalogue`);
 
-      console.log(`Backend filtering found ${allProducts.length} products matching: ${search}`);
-    }
+    // Without the price history the comparison still works, just without last changes
+    const lastChanges = await Promise.all(COMPETITOR_IDS.map(id => getLastPriceChanges(id)));
 
     // Transform products for comparison
     const comparisonProducts = allProducts.map(product => {
-      // Extract metadata
-      const dmPrice = product.meta_data?.find(meta => meta.key === '_dm_price')?.value;
-      const dmUrl = product.meta_data?.find(meta => meta.key === '_dm_url')?.value;
-      const dmLastUpdated = product.meta_data?.find(meta => meta.key === '_dm_last_updated')?.value;
+      // Competitor data from the product meta: dmPrice, dmProductUrl, muellerPrice, ...
+      const competitorData: Record<string, unknown> = {};
+      COMPETITOR_IDS.forEach((id, index) => {
+        const keys = getCompetitorMetaKeys(id);
+        const meta = (key: string) => product.meta_data?.find(entry => entry.key === key)?.value;
+        const price = meta(keys.price);
+
+        competitorData[`${id}Price`] = price ? parseFloat(price) : undefined;
+        competitorData[`${id}ProductUrl`] = meta(keys.url) || undefined;
+        competitorData[`${id}LastUpdated`] = meta(keys.lastUpdated) || undefined;
+        competitorData[`${id}LastChange`] = lastChanges[index].data?.get(product.sku);
+      });
 
       return {
         id: product.id,
@@ -185,11 +114,7 @@ export async function GET(request: NextRequest) {
         welmoraStockStatus: product.stock_status,
         welmoraManageStock: product.manage_stock,
         welmoraImage: product.images?.[0]?.src || null,
-
-        // DM data
-        dmPrice: dmPrice ? parseFloat(dmPrice) : undefined,
-        dmProductUrl: dmUrl || undefined,
-        dmLastUpdated: dmLastUpdated || undefined,
+        ...competitorData,
       };
     });
 
@@ -212,280 +137,95 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * POST /api/products/compare
+ *
+ * Body: { action: 'update_prices', sources?: ['dm', 'mueller', 'metro'] } - enqueue the scrape of
+ * competitor prices (enabled sources by default) as background jobs; responds 202 with the job count
+ * Body: { action: 'clean_competitor_data', source: 'mueller' } - remove a competitor's prices
+ * update_dm_prices, clean_dm_data and clean_mueller_data are kept for existing callers.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { action } = body;
+    const auditActor = getAuditActor(request);
 
-    const api = WooCommerce;
-
-    if (action === 'update_dm_prices') {
-      console.log('Starting DM price update for all products...');
-
-      // Fetch ALL products using pagination
-      let allProducts: WooCommerceProduct[] = [];
-      let page = 1;
-      let hasMorePages = true;
-
-      while (hasMorePages) {
-        console.log(`Fetching page ${page} of products...`);
-        const response = await api.get('products', {
-          per_page: 100,
-          status: 'publish',
-          page: page,
-        });
-        const pageProducts = response.data as WooCommerceProduct[];
-
-        if (pageProducts.length === 0) {
-          hasMorePages = false;
-        } else {
-          allProducts = [...allProducts, ...pageProducts];
-          page++;
+    const legacyUpdateSource = getLegacySource(LEGACY_UPDATE_ACTIONS, action);
+    const legacyCleanSource = getLegacySource(LEGACY_CLEAN_ACTIONS, action);
+    const isUpdate = action === 'update_prices' || !!legacyUpdateSource;
+    const isClean = action === 'clean_competitor_data' || !!legacyCleanSource;
 
-          // Stop if we got less than per_page (last page)
-          if (pageProducts.length < 100) {
-            hasMorePages = false;
-          }
-        }
-      }
-
-      console.log(`Found ${allProducts.length} total products for DM price update`);
-
-      // Extract GTINs from products (use SKU as GTIN)
-      const gtins = allProducts.map(product => product.sku).filter(sku => sku && sku.length > 0);
-      console.log(`Processing ${gtins.length} GTINs for DM scraping`);
-
-      // Create DM scraper and scrape all products
-      const dmScraper = createDMScraper();
-      const dmResults = await dmScraper.scrapeProducts(gtins);
-
-      console.log(`DM scraping completed. Processing ${Object.keys(dmResults).length} results`);
-
-      let updated = 0;
-      let skipped = 0;
-      let errors = 0;
-
-      // Update products with DM data
-      for (const product of allProducts) {
-        try {
-          const gtin = product.sku;
-          const dmData = dmResults[gtin];
-
-          if (dmData && (dmData.price || dmData.productUrl)) {
-            console.log(`Updating DM data for: ${product.name} (${gtin})`);
-
-            const updateData = {
-              meta_data: [
-                { key: '_dm_price', value: dmData.price?.toString() || '' },
-                { key: '_dm_url', value: dmData.productUrl || '' },
-                { key: '_dm_last_updated', value: new Date().toISOString() },
-              ],
-            };
-
-            await api.put(`products/${product.id}`, updateData);
-            updated++;
-            console.log(`✓ Updated DM data for ${product.name}: €${dmData.price}`);
-          } else {
-            skipped++;
-            if (dmData?.error) {
-              console.log(`⚠ Skipped ${product.name}: ${dmData.error}`);
-            }
-          }
-        } catch (error) {
-          console.error(`Failed to update DM data for ${product.name}:`, error);
-          errors++;
-        }
-      }
-
-      return NextResponse.json({
-        success: true,
-        message: 'DM price update completed',
-        stats: {
-          total: allProducts.length,
-          updated,
-          skipped,
-          errors,
-        },
-      });
+    if (!isUpdate && !isClean) {
+      return NextResponse.json({ success: false, error: 'Invalid action' }, { status: 400 });
     }
 
-    if (action === 'clean_dm_data') {
-      console.log('Starting to clean all DM data from WooCommerce...');
-
-      // Fetch ALL products using pagination
-      let allProducts: WooCommerceProduct[] = [];
-      let page = 1;
-      let hasMorePages = true;
-
-      while (hasMorePages) {
-        console.log(`Fetching page ${page} of products...`);
-        const response = await api.get('products', {
-          per_page: 100,
-          status: 'publish',
-          page: page,
-        });
-        const pageProducts = response.data as WooCommerceProduct[];
-
-        if (pageProducts.length === 0) {
-          hasMorePages = false;
-        } else {
-          allProducts = [...allProducts, ...pageProducts];
-          page++;
-
-          // Stop if we got less than per_page (last page)
-          if (pageProducts.length < 100) {
-            hasMorePages = false;
-          }
-        }
-      }
-
-      console.log(`Found ${allProducts.length} total products to clean`);
-
-      let cleaned = 0;
-      let skipped = 0;
-      let errors = 0;
-
-      for (const product of allProducts) {
-        try {
-          const metaData = product.meta_data || [];
-
-          // Check if product has any DM data (especially search URLs)
-          const hasDMData = metaData.some(
-            meta =>
-              meta.key === '_dm_price' || meta.key === '_dm_url' || meta.key === '_dm_last_updated'
-          );
-
-          // Also check for search URLs specifically
-          const dmUrl = metaData.find(meta => meta.key === '_dm_url')?.value;
-          const hasSearchUrl = dmUrl && dmUrl.includes('search?query=');
-
-          if (hasDMData || hasSearchUrl) {
-            console.log(
-              `Cleaning DM data for: ${product.name}${hasSearchUrl ? ' (had search URL)' : ''}`
-            );
+    // Competitors to process
+    let sources: CompetitorId[];
+    if (legacyUpdateSource) {
+      sources = [legacyUpdateSource];
+    } else if (legacyCleanSource) {
+      sources = [legacyCleanSource];
+    } else if (isClean) {
+      sources = [body.source];
+    } else {
+      sources = Array.isArray(body.sources) ? body.sources : getEnabledCompetitors();
+    }
 
-            // Remove DM meta data by setting them to empty
-            const cleanMetaData = [
-              { key: '_dm_price', value: '' },
-              { key: '_dm_url', value: '' },
-              { key: '_dm_last_updated', value: '' },
-            ];
+    const invalid = sources.filter(source => !isCompetitorId(source));
+    if (sources.length === 0 || invalid.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Invalid source. Use ${COMPETITOR_IDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-            const updateData = {
-              meta_data: cleanMetaData,
-            };
+    // All published products from the catalogue mirror
+    const catalogResult = await listCatalogProducts('ch', { status: 'publish' });
+    if (!catalogResult.success || !catalogResult.data) {
+      throw new Error(catalogResult.error || 'Failed to load product catalogue');
+    }
+    const allProducts = catalogResult.data.products;
 
-            await api.put(`products/${product.id}`, updateData);
-            cleaned++;
-            console.log(`✓ Cleaned DM data for ${product.name}`);
-          } else {
-            skipped++;
-          }
-        } catch (error) {
-          console.error(`Failed to clean DM data for ${product.name}:`, error);
-          errors++;
-        }
-      }
+    // Scraping takes hours - the job runner works through it in small batches, each competitor
+    // in its own jobs
+    if (isUpdate) {
+      const jobs = await enqueueCompetitorPriceJobs(sources, allProducts, auditActor);
 
-      return NextResponse.json({
-        success: true,
-        message: 'DM data cleaning completed',
-        stats: {
-          total: allProducts.length,
-          cleaned,
-          skipped,
-          errors,
+      return NextResponse.json(
+        {
+          success: true,
+          message: `Price update of ${sources.join(', ')} queued`,
+          data: { jobs, products: allProducts.length },
         },
-      });
+        { status: 202 }
+      );
     }
 
-    if (action === 'clean_mueller_data') {
-      console.log('Starting to clean all Mueller data from WooCommerce...');
-
-      // Fetch ALL products using pagination
-      let allProducts: WooCommerceProduct[] = [];
-      let page = 1;
-      let hasMorePages = true;
-
-      while (hasMorePages) {
-        console.log(`Fetching page ${page} of products...`);
-        const response = await api.get('products', {
-          per_page: 100,
-          status: 'publish',
-          page: page,
-        });
-        const pageProducts = response.data as WooCommerceProduct[];
-
-        if (pageProducts.length === 0) {
-          hasMorePages = false;
-        } else {
-          allProducts = [...allProducts, ...pageProducts];
-          page++;
-
-          // Stop if we got less than per_page (last page)
-          if (pageProducts.length < 100) {
-            hasMorePages = false;
-          }
-        }
-      }
-
-      console.log(`Found ${allProducts.length} total products to clean`);
+    console.log(`Starting clean-up of ${sources.join(', ')} for ${allProducts.length} products`);
 
-      let cleaned = 0;
-      let skipped = 0;
-      let errors = 0;
-
-      for (const product of allProducts) {
-        try {
-          const metaData = product.meta_data || [];
-
-          // Check if product has any Mueller data
-          const hasMuellerData = metaData.some(
-            meta =>
-              meta.key === '_mueller_price' ||
-              meta.key === '_mueller_url' ||
-              meta.key === '_mueller_last_updated'
-          );
-
-          if (hasMuellerData) {
-            console.log(`Cleaning Mueller data for: ${product.name}`);
-
-            // Remove Mueller meta data by setting them to empty
-            const cleanMetaData = [
-              { key: '_mueller_price', value: '' },
-              { key: '_mueller_url', value: '' },
-              { key: '_mueller_last_updated', value: '' },
-            ];
+    const stats: Record<string, CompetitorUpdateStats> = {};
+    for (const source of sources) {
+      stats[source] = await cleanCompetitorData(source, allProducts, auditActor);
+    }
 
-            const updateData = {
-              meta_data: cleanMetaData,
-            };
-
-            await api.put(`products/${product.id}`, updateData);
-            cleaned++;
-            console.log(`✓ Cleaned Mueller data for ${product.name}`);
-          } else {
-            skipped++;
-          }
-        } catch (error) {
-          console.error(`Failed to clean Mueller data for ${product.name}:`, error);
-          errors++;
-        }
-      }
+    // Single-competitor actions keep their original response
+    if (legacyCleanSource) {
+      const source = sources[0];
+      const { updated, ...rest } = stats[source];
 
       return NextResponse.json({
         success: true,
-        message: 'Mueller data cleaning completed',
-        stats: {
-          total: allProducts.length,
-          cleaned,
-          skipped,
-          errors,
-        },
+        message: `${getCompetitorScraper(source).name} data cleaning completed`,
+        stats: { ...rest, cleaned: updated },
       });
     }
 
-    return NextResponse.json({ success: false, error: 'Invalid action' }, { status: 400 });
+    return NextResponse.json({
+      success: true,
+      message: `Data cleaning completed for ${sources.join(', ')}`,
+      stats,
+    });
   } catch (error: unknown) {
     const err = error as { message?: string };
     console.error('Error in products/compare POST:', error);
@@ -0,0 +1,39 @@
+import { getPriceHistory } from '@/lib/services/priceHistory';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/products/price-history?sku=4006000000000&source=dm&days=365
+ *
+ * Scraped competitor prices of a product, oldest first - all sources unless `source` is given
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const sku = searchParams.get('sku');
+
+    if (!sku) {
+      return NextResponse.json({ success: false, error: 'sku is required' }, { status: 400 });
+    }
+
+    const days = parseInt(searchParams.get('days') || '365') || 365;
+    const result = await getPriceHistory(sku, {
+      source: searchParams.get('source') || undefined,
+      since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in price history API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,16 @@
 import api from '@/lib/api/woocommerce/client';
+import { getAuditActor, pickFields, recordAudit } from '@/lib/services/auditLog';
+import { getCatalogProductBySku, upsertCatalogProduct } from '@/lib/services/productCatalog';
+import { CatalogProduct } from '@/types/woocommerce-api';
 import { NextRequest, NextResponse } from 'next/server';
 
+const AUDITED_FIELDS: (keyof CatalogProduct)[] = [
+  'stock_status',
+  'stock_quantity',
+  'manage_stock',
+  'backorders',
+];
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -29,10 +39,10 @@ export async function POST(request: NextRequest) {
     console.log(`Updating stock for SKU ${sku}: ${stock_status}`);
 
     // First find the product by SKU
-    const productResponse = await api.get('products', { sku, per_page: 1 });
-    const products = productResponse.data as Array<{ id: number; name: string; sku: string }>;
+    const productResult = await getCatalogProductBySku('ch', sku);
+    const product = productResult.data;
 
-    if (products.length === 0) {
+    if (!product) {
       return NextResponse.json(
         {
           error: 'Product not found with this SKU',
@@ -41,8 +51,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const product = products[0];
-
     // Handle different stock statuses for WooCommerce
     let updateData: {
       stock_status: string;
@@ -70,7 +78,19 @@ export async function POST(request: NextRequest) {
 
     console.log(`WooCommerce update data for ${sku}:`, updateData);
 
-    await api.put(`products/${product.id}`, updateData);
+    const response = await api.put(`products/${product.id}`, updateData);
+    await upsertCatalogProduct('ch', response.data);
+    await recordAudit(getAuditActor(request), [
+      {
+        action: 'stock-status',
+        entityType: 'product',
+        entityId: product.sku,
+        entityName: product.name,
+        store: 'ch',
+        before: pickFields(product, AUDITED_FIELDS),
+        after: pickFields(response.data as CatalogProduct, AUDITED_FIELDS),
+      },
+    ]);
 
     return NextResponse.json({
       success: true,
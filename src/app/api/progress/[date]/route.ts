@@ -0,0 +1,46 @@
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { getDayProgress } from '@/lib/services/dayProgress';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/progress/[date]?store=ch|hr|all
+ *
+ * Open shopping items and packages for a day, used for the navigation badges
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ date: string }> }) {
+  try {
+    const { date } = await params;
+    const store = parseStoreSelection(request.nextUrl.searchParams.get('store'));
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Use YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch, hr or all' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getDayProgress(date, resolveStores(store));
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in progress API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,20 @@
-import { getOrdersByDateRange } from '@/lib/api/woocommerce/client';
+import {
+  getOrderProductGtins,
+  getOrdersByDateRange,
+  getPackageId,
+} from '@/lib/api/woocommerce/client';
+import { isStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { findSkuByBarcode } from '@/lib/services/barcodeMappings';
+import { getPackingLineScanned } from '@/lib/services/packingSessions';
+import { findBestMatches, ScanSource, validateScannedCode } from '@/lib/utils/barcodeMatching';
+import { StoreId, StoreSelection } from '@/types/woocommerce-api';
 import { NextResponse } from 'next/server';
 
 interface ScanRequest {
   scannedCode: string;
   date: string;
+  store?: StoreSelection;
+  source?: ScanSource; // 'camera' (default) enables check-digit validation and strict matching
 }
 
 interface ScanResponse {
@@ -11,6 +22,7 @@ interface ScanResponse {
   product?: {
     name: string;
     sku: string;
+    store: StoreId;
     packageId: string;
     orderId: number;
     customerName: string;
@@ -24,7 +36,7 @@ interface ScanResponse {
 export async function POST(request: Request): Promise<NextResponse<ScanResponse>> {
   try {
     const body: ScanRequest = await request.json();
-    const { scannedCode, date } = body;
+    const { scannedCode, date, store = 'ch', source = 'camera' } = body;
 
     if (!scannedCode || !date) {
       return NextResponse.json(
@@ -36,14 +48,49 @@ export async function POST(request: Request): Promise<NextResponse<ScanResponse>
       );
     }
 
+    if (!isStoreSelection(store)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid store. Use ch, hr or all',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (source !== 'camera' && source !== 'manual') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid source. Use camera or manual',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Reject camera misreads before they can be assigned to a package
+    const validation = validateScannedCode(scannedCode, source);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+        },
+        { status: 422 }
+      );
+    }
+
     // Get orders for the specified date
     const selectedDate = date;
     const startDate = selectedDate;
     const endDate = selectedDate;
 
-    const ordersResult = await getOrdersByDateRange(startDate, endDate);
+    const stores = resolveStores(store);
+    const ordersResults = await Promise.all(
+      stores.map(storeId => getOrdersByDateRange(startDate, endDate, storeId))
+    );
 
-    if (!ordersResult.success || !ordersResult.data) {
+    if (ordersResults.some(result => !result.success || !result.data)) {
       return NextResponse.json(
         {
           success: false,
@@ -53,40 +100,61 @@ export async function POST(request: Request): Promise<NextResponse<ScanResponse>
       );
     }
 
-    // Search for the scanned product in all orders
-    for (const order of ordersResult.data) {
-      for (const item of order.line_items) {
-        // Try to match by SKU, product_id, or name
-        const matchesSku = item.sku === scannedCode;
-        const matchesProductId = item.product_id.toString() === scannedCode;
-        const matchesName = item.name.toLowerCase().includes(scannedCode.toLowerCase());
-
-        if (matchesSku || matchesProductId || matchesName) {
-          // Found the product! Return package information
-          const customerName = `${order.billing.first_name} ${order.billing.last_name}`;
-
-          return NextResponse.json({
-            success: true,
-            product: {
-              name: item.name,
-              sku: item.sku || `product-${item.product_id}`,
-              packageId: `package-${order.id}`,
-              orderId: order.id,
-              customerName: customerName,
-              needed: item.quantity,
-              scanned: 0, // This would be updated in a real implementation with state management
-              message: `This product goes to PACKAGE ${order.id} - ${customerName} (needed: ${item.quantity}x)`,
-            },
-          });
-        }
-      }
+    const orders = ordersResults.flatMap((result, index) =>
+      (result.data || []).map(order => ({ ...order, store: stores[index] }))
+    );
+
+    // Resolve GTIN/EAN barcodes to the Welmora SKU they are mapped to
+    const mappedSku = await findSkuByBarcode(scannedCode);
+
+    // Catalogue GTINs per store, product ids are only unique within a store
+    const productGtins = await Promise.all(
+      stores.map((storeId, index) => getOrderProductGtins(ordersResults[index].data || [], storeId))
+    );
+    const storeGtins = new Map(stores.map((storeId, index) => [storeId, productGtins[index]]));
+
+    // Search for the scanned product, best match kind first (GTIN → mapping → SKU → id → name)
+    const best = findBestMatches(
+      orders.flatMap(order => order.line_items.map(item => ({ order, item }))),
+      ({ order, item }) => ({
+        sku: item.sku || '',
+        gtin: storeGtins.get(order.store)?.get(item.product_id),
+        name: item.name,
+        productId: item.product_id,
+      }),
+      scannedCode,
+      { source, mappedSku }
+    );
+
+    if (best) {
+      const { order, item } = best.matches[0];
+
+      // Found the product! Return package information
+      const customerName = `${order.billing.first_name} ${order.billing.last_name}`;
+      const packageId = getPackageId(order.store, order.id);
+      const sku = item.sku || `product-${item.product_id}`;
+
+      return NextResponse.json({
+        success: true,
+        product: {
+          name: item.name,
+          sku,
+          store: order.store,
+          packageId,
+          orderId: order.id,
+          customerName: customerName,
+          needed: item.quantity,
+          scanned: await getPackingLineScanned(date, packageId, sku),
+          message: `This product goes to PACKAGE ${order.id} - ${customerName} (needed: ${item.quantity}x)`,
+        },
+      });
     }
 
     // Product not found in any order
     return NextResponse.json(
       {
         success: false,
-        error: `Product with code "${scannedCode}" not found in orders for ${date}`,
+        error: `Product with code "${scannedCode}" not found in orders for ${date}. ${mappedSku ? `Mapped to SKU: ${mappedSku}` : 'No mapping found.'}`,
       },
       { status: 404 }
     );
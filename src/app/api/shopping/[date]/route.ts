@@ -1,47 +1,76 @@
-import { generateDailySnapshot } from '@/lib/api/woocommerce/client';
+import { generateDailySnapshot, mergeDailySnapshots } from '@/lib/api/woocommerce/client';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
 import { NextResponse } from 'next/server';
 
-// TODO: Add HR integration
-// - Create /api/shopping-hr/[date] endpoint using generateDailySnapshotHr()
-// - Add webshop selector dropdown in frontend
-// - Support unified view of both .ch and .hr orders
-
+/**
+ * GET /api/shopping/[date]?store=ch|hr|all
+ *
+ * Aggregated shopping list for one webshop or the merged view of all webshops
+ */
 export async function GET(request: Request, { params }: { params: Promise<{ date: string }> }) {
   try {
     const { date } = await params;
+    const { searchParams } = new URL(request.url);
+    const store = parseStoreSelection(searchParams.get('store'));
 
-    console.log('Shopping API called for date:', date);
+    console.log('Shopping API called for date:', date, 'store:', store);
 
     // Validate date format
     if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       return NextResponse.json({ error: 'Invalid date format. Use YYYY-MM-DD' }, { status: 400 });
     }
 
+    if (!store) {
+      return NextResponse.json({ error: 'Invalid store. Use ch, hr or all' }, { status: 400 });
+    }
+
     // Debug environment variables
     const envDebug = {
       woocommerceUrl: process.env.WOOCOMMERCE_URL,
       hasWooCommerceKey: !!process.env.WOOCOMMERCE_CONSUMER_KEY,
       hasWooCommerceSecret: !!process.env.WOOCOMMERCE_CONSUMER_SECRET,
+      woocommerceHrUrl: process.env.WOOCOMMERCE_HR_URL,
+      hasWooCommerceHrKey: !!process.env.WOOCOMMERCE_HR_CONSUMER_KEY,
+      hasWooCommerceHrSecret: !!process.env.WOOCOMMERCE_HR_CONSUMER_SECRET,
     };
 
     console.log('Environment debug:', envDebug);
 
-    const result = await generateDailySnapshot(date);
+    const stores = resolveStores(store);
+    const results = await Promise.all(stores.map(storeId => generateDailySnapshot(date, storeId)));
+    const failed = results.find(result => !result.success || !result.data);
 
-    console.log('Shopping snapshot result:', { success: result.success, error: result.error });
+    console.log(
+      'Shopping snapshot results:',
+      results.map((result, index) => ({
+        store: stores[index],
+        success: result.success,
+        error: result.error,
+      }))
+    );
 
-    if (!result.success) {
+    if (failed) {
       return NextResponse.json(
         {
-          error: result.error,
+          error: failed.error,
           debug: envDebug,
           date,
+          store,
         },
         { status: 500 }
       );
     }
 
-    return NextResponse.json(result.data);
+    if (results.length === 1) {
+      return NextResponse.json(results[0].data);
+    }
+
+    return NextResponse.json(
+      mergeDailySnapshots(
+        date,
+        results.map(result => result.data!)
+      )
+    );
   } catch (error) {
     console.error('Shopping API error:', error);
     return NextResponse.json(
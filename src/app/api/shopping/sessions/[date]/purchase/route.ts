@@ -0,0 +1,52 @@
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { setShoppingPurchased } from '@/lib/services/shoppingProgress';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/shopping/sessions/[date]/purchase
+ *
+ * Mark a SKU as purchased (or not) for the selected webshop(s).
+ * Body: { sku: string, completed: boolean, store?: 'ch' | 'hr' | 'all' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const { date } = await params;
+    const body = await request.json();
+    const { sku, completed } = body;
+    const store = parseStoreSelection(body.store);
+
+    if (!sku || typeof completed !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'Missing sku or completed' },
+        { status: 400 }
+      );
+    }
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch, hr or all' },
+        { status: 400 }
+      );
+    }
+
+    const result = await setShoppingPurchased(date, sku, resolveStores(store), completed);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error in shopping purchase API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { generateDailySnapshot, mergeDailySnapshots } from '@/lib/api/woocommerce/client';
+import { parseStoreSelection, resolveStores } from '@/lib/api/woocommerce/stores';
+import { startShoppingSession } from '@/lib/services/shoppingProgress';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * POST /api/shopping/sessions
+ *
+ * Start (or resume) shared shopping progress for a date.
+ * Body: { date: 'YYYY-MM-DD', store?: 'ch' | 'hr' | 'all' }
+ * Returns the day's snapshot together with the purchased counts per webshop and SKU.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { date } = body;
+    const store = parseStoreSelection(body.store);
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Use YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid store. Use ch, hr or all' },
+        { status: 400 }
+      );
+    }
+
+    const stores = resolveStores(store);
+    const results = await Promise.all(stores.map(storeId => generateDailySnapshot(date, storeId)));
+    const failed = results.find(result => !result.success || !result.data);
+
+    if (failed) {
+      return NextResponse.json({ success: false, error: failed.error }, { status: 500 });
+    }
+
+    const snapshot = mergeDailySnapshots(
+      date,
+      results.map(result => result.data!)
+    );
+    const progress = await startShoppingSession(date, snapshot.products);
+
+    if (!progress.success) {
+      return NextResponse.json({ success: false, error: progress.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: { snapshot, progress: progress.data } });
+  } catch (error) {
+    console.error('Error in shopping sessions API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
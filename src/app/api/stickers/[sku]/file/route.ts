@@ -0,0 +1,44 @@
+import { downloadSticker, isValidStickerSku } from '@/lib/services/stickerUploads';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/stickers/[sku]/file?version=<name>
+ *
+ * Sticker PDF for the preview - the current file, or a kept version
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ sku: string }> }) {
+  try {
+    const { sku } = await params;
+    const version = request.nextUrl.searchParams.get('version') || undefined;
+
+    if (!isValidStickerSku(sku)) {
+      return NextResponse.json({ success: false, error: 'Invalid SKU' }, { status: 400 });
+    }
+
+    const pdf = await downloadSticker(sku, version);
+
+    if (!pdf) {
+      return NextResponse.json(
+        { success: false, error: `No sticker found for ${sku}` },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${version ? `${sku}-${version}` : `${sku}.pdf`}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading sticker:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { getStickerIndexEntry } from '@/lib/services/stickerIndex';
+import { isValidStickerSku, listStickerVersions } from '@/lib/services/stickerUploads';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/stickers/[sku] - indexed sticker of a SKU with its kept versions
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ sku: string }> }) {
+  try {
+    const { sku } = await params;
+
+    if (!isValidStickerSku(sku)) {
+      return NextResponse.json({ success: false, error: 'Invalid SKU' }, { status: 400 });
+    }
+
+    const [entry, versions] = await Promise.all([
+      getStickerIndexEntry(sku),
+      listStickerVersions(sku),
+    ]);
+
+    if (!entry.success || !versions.success) {
+      return NextResponse.json(
+        { success: false, error: entry.error || versions.error },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { sku, sticker: entry.data, versions: versions.data },
+    });
+  } catch (error) {
+    console.error('Error loading sticker:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
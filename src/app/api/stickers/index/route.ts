@@ -0,0 +1,73 @@
+import { enqueueJob } from '@/lib/services/jobs/queue';
+import { getStickerIndexStatus, rebuildStickerIndex } from '@/lib/services/stickerIndex';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Walking a large bucket takes a while
+export const maxDuration = 300;
+
+/**
+ * GET /api/stickers/index
+ *
+ * Number of indexed stickers and time of the last rebuild
+ */
+export async function GET() {
+  try {
+    const result = await getStickerIndexStatus();
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error loading sticker index status:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/stickers/index?wait=true
+ *
+ * Rebuild the sticker index - queued as a sticker-index job, or right away with wait=true
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (request.nextUrl.searchParams.get('wait') === 'true') {
+      const result = await rebuildStickerIndex();
+
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    }
+
+    const jobResult = await enqueueJob('sticker-index', {
+      reason: request.nextUrl.searchParams.get('reason') || 'manual',
+    });
+
+    if (!jobResult.success || !jobResult.data) {
+      return NextResponse.json({ success: false, error: jobResult.error }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { success: true, data: { jobId: jobResult.data.id } },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error rebuilding sticker index:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { getStickerSku, searchStickerIndex } from '@/lib/services/stickerIndex';
+import { StickerUpload, StickerUploadMode, uploadSticker } from '@/lib/services/stickerUploads';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/stickers?search=8006540&limit=50
+ *
+ * Indexed stickers - `search` matches part of the SKU or storage path
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const result = await searchStickerIndex({
+      search: searchParams.get('search') || undefined,
+      limit: parseInt(searchParams.get('limit') || '50') || 50,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error listing stickers:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/stickers (multipart/form-data)
+ *
+ * Upload sticker PDFs - `files` (one or more), `sku` (single file only, otherwise the file
+ * name without .pdf), `folder` for new stickers and `mode` replace | version
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((file): file is File => file instanceof File);
+    const sku = formData.get('sku')?.toString().trim();
+    const folder = formData.get('folder')?.toString();
+    const mode: StickerUploadMode = formData.get('mode') === 'version' ? 'version' : 'replace';
+
+    if (files.length === 0) {
+      return NextResponse.json({ success: false, error: 'No files uploaded' }, { status: 400 });
+    }
+    if (sku && files.length > 1) {
+      return NextResponse.json(
+        { success: false, error: 'A SKU can only be given for a single file' },
+        { status: 400 }
+      );
+    }
+
+    const uploaded: StickerUpload[] = [];
+    const failed: Array<{ filename: string; error: string }> = [];
+
+    for (const file of files) {
+      const fileSku = sku || getStickerSku(file.name.trim());
+      if (!fileSku) {
+        failed.push({ filename: file.name, error: 'File name must be <SKU>.pdf' });
+        continue;
+      }
+
+      const result = await uploadSticker(fileSku, Buffer.from(await file.arrayBuffer()), {
+        folder,
+        mode,
+      });
+
+      if (result.success && result.data) {
+        uploaded.push(result.data);
+      } else {
+        failed.push({ filename: file.name, error: result.error || 'Upload failed' });
+      }
+    }
+
+    console.log(`Sticker upload: ${uploaded.length} uploaded, ${failed.length} failed`);
+
+    return NextResponse.json({ success: true, data: { uploaded, failed } });
+  } catch (error) {
+    console.error('Error uploading stickers:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { findStickerPath } from '@/lib/services/stickerIndex';
 import { NextRequest, NextResponse } from 'next/server';
 
 
@@ -29,6 +30,24 @@ export async function GET(request: NextRequest) {
             }>,
         };
 
+        // Test 0: Sticker index - what ZIPs, PDFs and reports use
+        try {
+            const path = await findStickerPath(sku);
+
+            results.searches.push({
+                method: 'Sticker index',
+                success: !!path,
+                results: path ? [path] : [],
+            });
+        } catch (error) {
+            results.searches.push({
+                method: 'Sticker index',
+                success: false,
+                results: [],
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+
         // Test 1: Direct search
         try {
             const { data, error } = await getSupabaseServiceClient()
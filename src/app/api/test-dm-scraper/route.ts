@@ -1,28 +1,47 @@
-import { createDMScraper } from '@/lib/services/scrapers/dm-scraper';
+import { getCompetitorScraper, isCompetitorId } from '@/lib/services/scrapers/registry';
+import { CompetitorScraper } from '@/lib/services/scrapers/types';
 import { NextRequest, NextResponse } from 'next/server';
 
+// Scraper of the `source` query parameter (dm, mueller, metro), DM by default
+function getTestScraper(request: NextRequest): CompetitorScraper | null {
+  const source = new URL(request.url).searchParams.get('source') || 'dm';
+  return isCompetitorId(source) ? getCompetitorScraper(source) : null;
+}
+
+function invalidSourceResponse() {
+  return NextResponse.json(
+    { success: false, error: 'Invalid source. Use dm, mueller or metro' },
+    { status: 400 }
+  );
+}
+
 export async function GET(request: NextRequest) {
   try {
-    console.log('DM Scraper test endpoint called');
+    const scraper = getTestScraper(request);
+    if (!scraper) {
+      return invalidSourceResponse();
+    }
+
+    console.log(`${scraper.name} Scraper test endpoint called`);
 
     const { searchParams } = new URL(request.url);
     const gtin = searchParams.get('gtin') || '4005808730735'; // Default test GTIN for a DM product
 
-    console.log(`Testing DM scraper with GTIN: ${gtin}`);
+    console.log(`Testing ${scraper.name} scraper with GTIN: ${gtin}`);
 
-    const scraper = createDMScraper();
     const result = await scraper.scrapeProduct(gtin);
 
-    console.log('DM scraper result:', result);
+    console.log(`${scraper.name} scraper result:`, result);
 
     return NextResponse.json({
       success: true,
+      source: scraper.id,
       gtin,
       result,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('DM scraper test error:', error);
+    console.error('Scraper test error:', error);
     return NextResponse.json(
       {
         success: false,
@@ -36,26 +55,31 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    console.log('DM Scraper batch test endpoint called');
+    const scraper = getTestScraper(request);
+    if (!scraper) {
+      return invalidSourceResponse();
+    }
+
+    console.log(`${scraper.name} Scraper batch test endpoint called`);
 
     const body = await request.json();
     const gtins = body.gtins || ['4005808730735', '4058172628511']; // Default test GTINs
 
-    console.log(`Testing DM scraper with GTINs: ${gtins.join(', ')}`);
+    console.log(`Testing ${scraper.name} scraper with GTINs: ${gtins.join(', ')}`);
 
-    const scraper = createDMScraper();
     const results = await scraper.scrapeProducts(gtins);
 
-    console.log('DM scraper batch results:', results);
+    console.log(`${scraper.name} scraper batch results:`, results);
 
     return NextResponse.json({
       success: true,
+      source: scraper.id,
       gtins,
       results,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('DM scraper batch test error:', error);
+    console.error('Scraper batch test error:', error);
     return NextResponse.json(
       {
         success: false,
@@ -1,15 +1,49 @@
+import { getMailRecipients, sendMail } from '@/lib/services/mail';
 import { sendEmailWithAttachment } from '@/lib/services/sendEmailWithAttachment';
 import JSZip from 'jszip';
 import { NextRequest, NextResponse } from 'next/server';
 
 /**
  * Test endpoint to verify email delivery
- * GET /api/test-email
+ * GET /api/test-email (declarations) or /api/test-email?event=low-stock|daily-summary
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
         console.log('=== EMAIL TEST ENDPOINT ===');
 
+        const event = request.nextUrl.searchParams.get('event');
+
+        if (event === 'low-stock' || event === 'daily-summary') {
+            // Sample data so the template and the event's recipients can be checked
+            const mailResult =
+                event === 'low-stock'
+                    ? await sendMail('low-stock', {
+                          store: 'Welmora.ch',
+                          products: [{ sku: 'TEST-001', name: 'Test product', stock: 1 }],
+                      })
+                    : await sendMail('daily-summary', {
+                          date: new Date().toISOString().split('T')[0],
+                          orders: 12,
+                          packages: { completed: 10, total: 12 },
+                          shopping: { purchased: 30, total: 31 },
+                      });
+
+            if (!mailResult.success) {
+                return NextResponse.json(
+                    { success: false, error: 'Test email failed', details: mailResult.error },
+                    { status: 500 }
+                );
+            }
+
+            return NextResponse.json({
+                success: true,
+                message: `Test ${event} email sent successfully`,
+                messageId: mailResult.data?.messageId,
+                transport: mailResult.data?.transport,
+                recipients: getMailRecipients(event),
+            });
+        }
+
         // Create a proper ZIP file with test content
         const zip = new JSZip();
         const testContent = `Test Email from Welmora System
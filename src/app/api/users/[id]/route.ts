@@ -0,0 +1,106 @@
+import { isUserRole } from '@/lib/services/auth/permissions';
+import { getRequestSession, revokeUserSessions } from '@/lib/services/auth/sessions';
+import { deleteUser, updateUser } from '@/lib/services/auth/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * PATCH /api/users/[id] - set a new password or role, or disable/enable an account
+ *
+ * Body: { password?: string, role?: string, disabled?: boolean }
+ * The account is signed out on its other devices.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { password, role, disabled } = await request.json();
+
+    if (password !== undefined && typeof password !== 'string') {
+      return NextResponse.json({ success: false, error: 'Invalid password' }, { status: 400 });
+    }
+    if (role !== undefined && !isUserRole(role)) {
+      return NextResponse.json({ success: false, error: 'Invalid role' }, { status: 400 });
+    }
+    if (role !== undefined && id === session.userId) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot change your own role' },
+        { status: 400 }
+      );
+    }
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      return NextResponse.json({ success: false, error: 'Invalid disabled flag' }, { status: 400 });
+    }
+    if (disabled && id === session.userId) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot disable your own account' },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateUser(id, { password, role, disabled });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    await revokeUserSessions(id, id === session.userId ? session.id : undefined);
+
+    console.log(`User ${result.data?.username} updated by ${session.username}`);
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/[id] - delete an account together with its sessions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (id === session.userId) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot delete your own account' },
+        { status: 400 }
+      );
+    }
+
+    const result = await deleteUser(id);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    console.log(`User ${id} deleted by ${session.username}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { isUserRole } from '@/lib/services/auth/permissions';
+import { getRequestSession } from '@/lib/services/auth/sessions';
+import { createUser, listUsers } from '@/lib/services/auth/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * GET /api/users - all accounts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await getRequestSession(request))) {
+      return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 });
+    }
+
+    const result = await listUsers();
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users - create an account
+ *
+ * Body: { username: string, password: string, role?: 'packer' | 'buyer' | 'manager' | 'admin' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { username, password, role } = await request.json();
+
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && !isUserRole(role)) {
+      return NextResponse.json({ success: false, error: 'Invalid role' }, { status: 400 });
+    }
+
+    const result = await createUser(username, password, role);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    console.log(`User ${result.data?.username} created by ${session.username}`);
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
-import { generateZipFromSkus } from '@/lib/services/generateZipFromSkus';
-import { sendEmailWithAttachment } from '@/lib/services/sendEmailWithAttachment';
-import { NextRequest, NextResponse } from 'next/server';
+import { readWooCommerceWebhook } from '@/lib/api/woocommerce/webhooks';
+import { enqueueJob } from '@/lib/services/jobs/queue';
+import { runDueJobs } from '@/lib/services/jobs/runner';
+import { claimWebhookDelivery, finishWebhookDelivery } from '@/lib/services/webhookDeliveries';
+import { after, NextRequest, NextResponse } from 'next/server';
 
 interface WooCommerceWebhookOrder {
   id: number;
@@ -38,29 +40,39 @@ interface WooCommerceLineItem {
 
 /**
  * Handle WooCommerce order.created webhook
- * Generates ZIP with sticker PDFs and sends email
+ * Queues a job that generates the ZIP with sticker PDFs and sends the email, then returns right away
  * Uses SKU-only search across entire bucket (ignores folder structure)
+ * Requests must be signed with the webhook secret; redeliveries of an order are acknowledged without a second email
  */
 export async function POST(request: NextRequest) {
   const timestamp = new Date().toISOString();
   const requestId = `webhook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  let deliveryLedgerId: string | undefined;
 
   try {
     console.log(`=== WooCommerce Order Created Webhook [${requestId}] ===`);
     console.log(`Timestamp: ${timestamp}`);
-    console.log(`Request URL: ${request.url}`);
-    console.log(`Request method: ${request.method}`);
-    console.log(`Request headers:`, Object.fromEntries(request.headers.entries()));
+
+    // Verify X-WC-Webhook-Signature before touching the payload
+    const webhook = await readWooCommerceWebhook(request);
+
+    if (!webhook.success) {
+      console.warn(`[${requestId}] Webhook rejected: ${webhook.error}`);
+      return NextResponse.json({ error: webhook.error, requestId }, { status: webhook.status });
+    }
+
+    const { store, topic, deliveryId, webhookId, isPing } = webhook.data;
+    console.log(`[${requestId}] Webhook delivery:`, { store, topic, deliveryId, webhookId });
+
+    if (isPing) {
+      return NextResponse.json({ success: true, message: 'Ping received', requestId });
+    }
 
     // Check if declaration emails are enabled
     const declarationEmailsEnabled = process.env.ENABLE_DECLARATION_EMAILS === 'true';
     console.log(`[${requestId}] Declaration emails enabled: ${declarationEmailsEnabled}`);
 
-    // Parse webhook payload
-    const webhookData = await request.json();
-
-    // Log the full webhook data for debugging
-    console.log(`[${requestId}] Full webhook payload:`, JSON.stringify(webhookData, null, 2));
+    const webhookData = (webhook.data.payload || {}) as WooCommerceWebhookOrder;
 
     console.log(`[${requestId}] Webhook received:`, {
       id: webhookData.id,
@@ -79,6 +91,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid webhook data', requestId }, { status: 400 });
     }
 
+    // Claim the order in the delivery ledger - WooCommerce retries must not send the email twice
+    const claim = await claimWebhookDelivery({
+      store,
+      topic: topic || 'order.created',
+      resourceKey: String(order.id),
+      deliveryId,
+    });
+
+    if (!claim.success || !claim.data) {
+      console.error(`[${requestId}] Delivery ledger unavailable:`, claim.error);
+      return NextResponse.json({ error: 'Delivery ledger unavailable', requestId }, { status: 500 });
+    }
+
+    if (!claim.data.claimed) {
+      console.log(`[${requestId}] Duplicate delivery for ${store} order ${order.id} - acknowledged, nothing sent`);
+      return NextResponse.json({
+        success: true,
+        message: 'Duplicate delivery - order already processed',
+        orderId: order.id,
+        duplicate: true,
+        requestId,
+        timestamp,
+      });
+    }
+
+    const ledgerId = claim.data.delivery.id;
+    deliveryLedgerId = ledgerId;
+
     // Extract order details for email
     const orderDetails = {
       customerName: `${order.billing.first_name} ${order.billing.last_name}`,
@@ -95,6 +135,8 @@ export async function POST(request: NextRequest) {
       console.log(`[${requestId}] Order details:`, orderDetails);
       console.log(`[${requestId}] SKUs that would be processed:`, order.line_items.map(item => item.sku || `product-${item.product_id}`));
 
+      await finishWebhookDelivery(ledgerId, 'processed');
+
       return NextResponse.json({
         success: true,
         message: 'Webhook processed successfully - declaration emails disabled',
@@ -111,12 +153,13 @@ export async function POST(request: NextRequest) {
     }
 
     // Continue with normal processing if emails are enabled
-    console.log(`[${requestId}] ✅ Declaration emails are ENABLED - proceeding with email generation`);
+    console.log(`[${requestId}] ✅ Declaration emails are ENABLED - queueing email generation`);
 
     // Step 1: Extract SKUs from line items (super simple!)
     console.log(`[${requestId}] Step 1: Extracting SKUs from line items...`);
     const skuItems = order.line_items.map(item => ({
       sku: item.sku || `product-${item.product_id}`,
+      quantity: item.quantity,
     }));
 
     console.log(
@@ -128,55 +171,28 @@ export async function POST(request: NextRequest) {
     const validSkus = skuItems.filter(item => item.sku && !item.sku.startsWith('product-'));
 
     if (validSkus.length === 0) {
-      console.warn(`[${requestId}] No valid SKUs found, sending email without attachments`);
-
-      // Still send notification email but without ZIP
-      const emptyBuffer = Buffer.from('No valid SKUs found for this order');
-      const emailResult = await sendEmailWithAttachment(emptyBuffer, order.id, orderDetails);
-
-      if (!emailResult.success) {
-        console.error(`[${requestId}] Failed to send notification email:`, emailResult.error);
-        console.error(`[${requestId}] Email debug info:`, emailResult.debug);
-      } else {
-        console.log(`[${requestId}] Notification email sent successfully with messageId:`, emailResult.messageId);
-        console.log(`[${requestId}] Email debug info:`, emailResult.debug);
-      }
-
-      return NextResponse.json({
-        success: true,
-        message: 'Webhook processed but no valid SKUs found',
-        orderId: order.id,
-        validSkus: 0,
-        declarationEmailsEnabled: true,
-        emailSent: emailResult.success,
-        emailError: emailResult.error,
-        emailMessageId: emailResult.messageId,
-        emailDebug: emailResult.debug,
-        requestId,
-        timestamp,
-      });
+      console.warn(`[${requestId}] No valid SKUs found, email will be sent without attachments`);
+    } else {
+      console.log(`[${requestId}] Found ${validSkus.length} valid SKUs out of ${skuItems.length} items`);
     }
 
-    console.log(`[${requestId}] Found ${validSkus.length} valid SKUs out of ${skuItems.length} items`);
-
-    // Step 2: Generate ZIP with PDFs (bucket-wide SKU search)
-    console.log(`[${requestId}] Step 2: Generating ZIP file using bucket-wide SKU search...`);
-    const zipBuffer = await generateZipFromSkus(validSkus, order.id);
-
-    console.log(`[${requestId}] ZIP generated: ${zipBuffer.length} bytes`);
-
-    // Step 3: Send email with attachment
-    console.log(`[${requestId}] Step 3: Sending email...`);
-    const emailResult = await sendEmailWithAttachment(zipBuffer, order.id, orderDetails);
+    // Step 2: Queue ZIP generation and email - the job runner retries failures with backoff
+    console.log(`[${requestId}] Step 2: Enqueueing declaration email job...`);
+    const jobResult = await enqueueJob('declaration-email', {
+      store,
+      orderId: order.id,
+      skus: validSkus.map(item => item.sku),
+      items: validSkus,
+      orderDetails,
+    });
 
-    if (!emailResult.success) {
-      console.error(`[${requestId}] Failed to send email:`, emailResult.error);
-      console.error(`[${requestId}] Email debug info:`, emailResult.debug);
+    if (!jobResult.success || !jobResult.data) {
+      console.error(`[${requestId}] Failed to enqueue declaration email:`, jobResult.error);
+      await finishWebhookDelivery(ledgerId, 'failed', jobResult.error);
       return NextResponse.json(
         {
-          error: 'Failed to send email',
-          details: emailResult.error,
-          debug: emailResult.debug,
+          error: 'Failed to enqueue declaration email',
+          details: jobResult.error,
           orderId: order.id,
           requestId,
           timestamp,
@@ -185,20 +201,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`[${requestId}] Email sent successfully with messageId:`, emailResult.messageId);
-    console.log(`[${requestId}] Email debug info:`, emailResult.debug);
-    console.log(`[${requestId}] Webhook processing completed successfully`);
+    await finishWebhookDelivery(ledgerId, 'processed');
+
+    // Start on the queue once the response is sent; cron and the local runner pick up what is left
+    after(() => runDueJobs());
+
+    console.log(`[${requestId}] Webhook processing completed - job ${jobResult.data.id} queued`);
 
     return NextResponse.json({
       success: true,
-      message: 'Order processed and email sent successfully',
+      message: 'Order accepted, declaration email queued',
       orderId: order.id,
       validSkus: validSkus.length,
-      zipSize: zipBuffer.length,
       declarationEmailsEnabled: true,
-      emailSent: true,
-      emailMessageId: emailResult.messageId,
-      emailDebug: emailResult.debug,
+      jobId: jobResult.data.id,
       requestId,
       timestamp,
     });
@@ -206,6 +222,10 @@ export async function POST(request: NextRequest) {
     console.error(`[${requestId}] Error processing webhook:`, error);
     console.error(`[${requestId}] Error stack:`, error instanceof Error ? error.stack : 'No stack trace');
 
+    if (deliveryLedgerId) {
+      await finishWebhookDelivery(deliveryLedgerId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+
     return NextResponse.json(
       {
         error: 'Internal server error',
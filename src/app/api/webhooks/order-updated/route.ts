@@ -0,0 +1,76 @@
+import { readWooCommerceWebhook } from '@/lib/api/woocommerce/webhooks';
+import { refreshDaysForOrder } from '@/lib/services/dayRefresh';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Handle WooCommerce order.updated / order.deleted / order.restored webhooks
+ * Status changes, cancellations, refunds and edited lines update the stored shopping and
+ * packing progress of the order's day, and open devices reload it; requests must be signed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const webhook = await readWooCommerceWebhook(request);
+
+    if (!webhook.success) {
+      return NextResponse.json(
+        { success: false, error: webhook.error },
+        { status: webhook.status }
+      );
+    }
+
+    const { store, topic, isPing } = webhook.data;
+
+    if (isPing) {
+      return NextResponse.json({ success: true, message: 'Ping received' });
+    }
+
+    const order = webhook.data.payload as {
+      id?: number;
+      status?: string;
+      date_created?: string;
+      date_created_gmt?: string;
+    } | null;
+
+    if (!order?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid webhook data: missing order ID' },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `Order webhook ${topic || 'unknown topic'} for ${store} order ${order.id} (${order.status || 'no status'})`
+    );
+
+    const result = await refreshDaysForOrder(
+      store,
+      {
+        id: order.id,
+        date_created: order.date_created,
+        date_created_gmt: order.date_created_gmt,
+      },
+      topic || 'order.updated'
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      store,
+      orderId: order.id,
+      dates: result.data?.dates || [],
+    });
+  } catch (error) {
+    console.error('Order update webhook error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to process order webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
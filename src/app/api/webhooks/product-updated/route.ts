@@ -0,0 +1,72 @@
+import { readWooCommerceWebhook } from '@/lib/api/woocommerce/webhooks';
+import { refreshCurrentDayForProduct } from '@/lib/services/dayRefresh';
+import { removeCatalogProduct, upsertCatalogProduct } from '@/lib/services/productCatalog';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Handle WooCommerce product.created / product.updated / product.restored / product.deleted webhooks
+ * Keeps the local product catalogue mirror current between syncs and reloads the current day,
+ * whose shopping list and packages show catalogue data; requests must be signed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const webhook = await readWooCommerceWebhook(request);
+
+    if (!webhook.success) {
+      return NextResponse.json(
+        { success: false, error: webhook.error },
+        { status: webhook.status }
+      );
+    }
+
+    const { store, topic, isPing } = webhook.data;
+
+    if (isPing) {
+      return NextResponse.json({ success: true, message: 'Ping received' });
+    }
+
+    const product = webhook.data.payload as { id?: number; status?: string } | null;
+
+    if (!product?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid webhook data: missing product ID' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Product webhook ${topic || 'unknown topic'} for ${store} product ${product.id}`);
+
+    const result =
+      topic === 'product.deleted' || product.status === 'trash'
+        ? await removeCatalogProduct(store, product.id)
+        : await upsertCatalogProduct(store, product);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    // The mirror is current either way - a failed refresh is picked up on the next reload
+    const refresh = await refreshCurrentDayForProduct(
+      store,
+      product.id,
+      topic || 'product.updated'
+    );
+
+    return NextResponse.json({
+      success: true,
+      store,
+      productId: product.id,
+      dayRefreshed: refresh.success,
+    });
+  } catch (error) {
+    console.error('Product webhook error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to process product webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
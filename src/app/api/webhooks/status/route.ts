@@ -1,5 +1,12 @@
+import { getMailLocale, getMailRecipients, getMailTransportId, MAIL_EVENTS } from '@/lib/services/mail';
+import { listEmailLog } from '@/lib/services/mail/log';
 import { NextRequest, NextResponse } from 'next/server';
 
+// First characters of each recipient, enough to recognise the configuration
+function maskRecipients(recipients: string[]): string[] {
+    return recipients.map(address => `${address.substring(0, 5)}...`);
+}
+
 /**
  * Webhook status and configuration endpoint
  * GET /api/webhooks/status
@@ -9,6 +16,13 @@ export async function GET(request: NextRequest) {
         const { searchParams } = new URL(request.url);
         const includeConfig = searchParams.get('config') === 'true';
 
+        // Failed emails of the last 24 hours from the email log
+        const failures = await listEmailLog({
+            status: 'failed',
+            since: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+            limit: 10,
+        });
+
         const status: Record<string, unknown> = {
             timestamp: new Date().toISOString(),
             webhookEndpoint: {
@@ -17,14 +31,68 @@ export async function GET(request: NextRequest) {
                 status: 'active',
                 description: 'WooCommerce order.created webhook handler',
             },
+            webhookTopics: {
+                'order.created': {
+                    url: `${request.nextUrl.origin}/api/webhooks/order-created`,
+                    method: 'POST',
+                    status: 'active',
+                    description: 'Queues the declaration email for new orders',
+                },
+                'order.updated': {
+                    url: `${request.nextUrl.origin}/api/webhooks/order-updated`,
+                    method: 'POST',
+                    status: 'active',
+                    description: 'Status changes, cancellations, refunds and edited lines update the shopping list and packages of the order day',
+                },
+                'order.deleted': {
+                    url: `${request.nextUrl.origin}/api/webhooks/order-updated`,
+                    method: 'POST',
+                    status: 'active',
+                    description: 'Removes the order from the stored shopping and packing progress',
+                },
+                'product.updated': {
+                    url: `${request.nextUrl.origin}/api/webhooks/product-updated`,
+                    method: 'POST',
+                    status: 'active',
+                    description: 'Stock, price and SKU changes update the product catalogue mirror and reload the current day',
+                },
+                'product.deleted': {
+                    url: `${request.nextUrl.origin}/api/webhooks/product-updated`,
+                    method: 'POST',
+                    status: 'active',
+                    description: 'Removes the product from the catalogue mirror',
+                },
+            },
             emailConfiguration: {
                 emailFrom: process.env.EMAIL_FROM ? `${process.env.EMAIL_FROM.substring(0, 5)}...` : 'NOT_SET',
                 emailTo: process.env.EMAIL_TO ? `${process.env.EMAIL_TO.substring(0, 5)}...` : 'NOT_SET',
                 smtpUser: process.env.SMTP_USER ? `${process.env.SMTP_USER.substring(0, 5)}...` : 'NOT_SET',
                 smtpConfigured: !!(process.env.EMAIL_FROM && process.env.EMAIL_TO && process.env.SMTP_USER && process.env.SMTP_PASS),
+                transport: getMailTransportId(),
+                locale: getMailLocale(),
+                recipients: Object.fromEntries(MAIL_EVENTS.map(event => [event, maskRecipients(getMailRecipients(event))])),
                 declarationEmailsEnabled: process.env.ENABLE_DECLARATION_EMAILS === 'true',
                 declarationEmailsStatus: process.env.ENABLE_DECLARATION_EMAILS === 'true' ? 'ENABLED' : 'DISABLED',
             },
+            emailDeliveries: {
+                logAvailable: failures.success,
+                recentFailureCount: failures.data?.length || 0,
+                recentFailures: (failures.data || []).map(email => ({
+                    id: email.id,
+                    event: email.event,
+                    orderId: email.orderId,
+                    subject: email.subject,
+                    error: email.error,
+                    createdAt: email.createdAt,
+                })),
+                logUrl: `${request.nextUrl.origin}/emails`,
+            },
+            webhookSecurity: {
+                signatureVerification: 'HMAC-SHA256 (X-WC-Webhook-Signature)',
+                chSecretConfigured: !!process.env.WOOCOMMERCE_WEBHOOK_SECRET,
+                hrSecretConfigured: !!process.env.WOOCOMMERCE_HR_WEBHOOK_SECRET,
+                duplicateDeliveries: 'Acknowledged without re-sending emails (webhook_deliveries ledger)',
+            },
             woocommerceConfiguration: {
                 url: process.env.WOOCOMMERCE_URL || 'NOT_SET',
                 hasConsumerKey: !!process.env.WOOCOMMERCE_CONSUMER_KEY,
@@ -38,8 +106,9 @@ export async function GET(request: NextRequest) {
                     '4. Set Status: "Active"',
                     '5. Set Topic: "Order created"',
                     `6. Set Delivery URL: ${request.nextUrl.origin}/api/webhooks/order-created`,
-                    '7. Set Secret: (optional but recommended)',
+                    '7. Set Secret: the value of WOOCOMMERCE_WEBHOOK_SECRET (WOOCOMMERCE_HR_WEBHOOK_SECRET for Welmora.hr) - unsigned deliveries are rejected',
                     '8. Click "Save webhook"',
+                    '9. Repeat for the topics "Order updated" and "Order deleted" (Delivery URL: /api/webhooks/order-updated) and "Product updated" and "Product deleted" (Delivery URL: /api/webhooks/product-updated)',
                 ],
                 testWebhook: [
                     `Test webhook: curl -X POST ${request.nextUrl.origin}/api/webhooks/test-order`,
@@ -66,8 +135,11 @@ export async function GET(request: NextRequest) {
                 emailSettings: {
                     from: process.env.EMAIL_FROM,
                     to: process.env.EMAIL_TO,
-                    smtpHost: 'smtp.gmail.com',
-                    smtpPort: 587,
+                    transport: getMailTransportId(),
+                    smtpHost: process.env.SMTP_HOST || 'smtp.gmail.com',
+                    smtpPort: Number(process.env.SMTP_PORT) || 587,
+                    mailApiUrl: process.env.MAIL_API_URL || 'NOT_SET',
+                    outboxDir: process.env.MAIL_OUTBOX_DIR || '.outbox',
                 },
             };
         }
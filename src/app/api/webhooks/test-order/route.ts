@@ -1,3 +1,4 @@
+import { getWebhookSecret, signWebhookBody } from '@/lib/api/woocommerce/webhooks';
 import { NextRequest, NextResponse } from 'next/server';
 
 /**
@@ -7,9 +8,11 @@ import { NextRequest, NextResponse } from 'next/server';
 export async function POST(request: NextRequest) {
   try {
     // Mock WooCommerce order data (simplified - no brand metadata needed)
+    // A fresh order id per run, so the delivery ledger doesn't treat repeated tests as duplicates
+    const mockOrderId = Math.floor(Date.now() / 1000);
     const mockOrder = {
-      id: 12345,
-      number: '12345',
+      id: mockOrderId,
+      number: String(mockOrderId),
       date_created: new Date().toISOString(),
       status: 'processing',
       total: '89.99',
@@ -54,15 +57,27 @@ export async function POST(request: NextRequest) {
     console.log('=== TEST WEBHOOK ===');
     console.log('Forwarding mock order to actual webhook handler...');
 
-    // Forward to actual webhook handler
+    // Forward to actual webhook handler, signed like a WooCommerce delivery
     const webhookUrl = new URL('/api/webhooks/order-created', request.url);
+    const secret = getWebhookSecret('ch');
 
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'WOOCOMMERCE_WEBHOOK_SECRET is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const body = JSON.stringify(mockOrder);
     const response = await fetch(webhookUrl.toString(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'X-WC-Webhook-Topic': 'order.created',
+        'X-WC-Webhook-Delivery-ID': `test-${mockOrderId}`,
+        'X-WC-Webhook-Signature': signWebhookBody(body, secret),
       },
-      body: JSON.stringify(mockOrder),
+      body,
     });
 
     const result = await response.json();
@@ -0,0 +1,218 @@
+'use client';
+
+import { AuditChanges } from '@/components/shared/AuditHistory';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AuditEntry } from '@/types/woocommerce-api';
+import { ClipboardList, Search } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useCallback, useEffect, useState } from 'react';
+
+const ENTITY_FILTERS = ['all', 'product', 'order'] as const;
+const ACTIONS: AuditEntry['action'][] = [
+  'stock-status',
+  'inventory',
+  'order-status',
+  'dm-prices',
+  'dm-clean',
+  'mueller-prices',
+  'mueller-clean',
+  'metro-prices',
+  'metro-clean',
+];
+
+const emptyFilters = { search: '', actor: '', action: '', since: '', until: '' };
+
+export default function AuditPage() {
+  const t = useTranslations('audit');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [entityFilter, setEntityFilter] = useState<(typeof ENTITY_FILTERS)[number]>('all');
+  const [form, setForm] = useState(emptyFilters);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ limit: '200' });
+      if (entityFilter !== 'all') {
+        params.append('entityType', entityFilter);
+      }
+      if (filters.search) {
+        params.append('search', filters.search);
+      }
+      if (filters.actor) {
+        params.append('actor', filters.actor);
+      }
+      if (filters.action) {
+        params.append('action', filters.action);
+      }
+      // Date inputs are local days; the whole `until` day is included
+      if (filters.since) {
+        params.append('since', new Date(`${filters.since}T00:00:00`).toISOString());
+      }
+      if (filters.until) {
+        params.append('until', new Date(`${filters.until}T23:59:59.999`).toISOString());
+      }
+
+      const response = await fetch(`/api/audit?${params}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('loadError'));
+      }
+
+      setEntries(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadError'));
+      console.error('Load audit log error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityFilter, filters, t]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  return (
+    <div className="h-full overflow-auto p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col items-center pt-8">
+          <div className="flex items-center gap-3">
+            <ClipboardList className="h-6 w-6 text-amber-600" />
+            <h1 className="text-2xl font-bold text-gray-900 text-center">{t('title')}</h1>
+          </div>
+          <p className="text-gray-600 text-center mt-1">{t('description')}</p>
+        </div>
+
+        {/* Filters - applied on submit, not on every keystroke */}
+        <form
+          className="space-y-3"
+          onSubmit={e => {
+            e.preventDefault();
+            setFilters({ ...form, search: form.search.trim(), actor: form.actor.trim() });
+          }}
+        >
+          <div className="flex gap-2">
+            <Input
+              placeholder={t('searchPlaceholder')}
+              value={form.search}
+              onChange={e => setForm({ ...form, search: e.target.value })}
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor="audit-actor">{t('actor')}</Label>
+              <Input
+                id="audit-actor"
+                value={form.actor}
+                onChange={e => setForm({ ...form, actor: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="audit-action">{t('action')}</Label>
+              <select
+                id="audit-action"
+                className="w-full h-9 rounded-md border px-3 text-sm"
+                value={form.action}
+                onChange={e => setForm({ ...form, action: e.target.value })}
+              >
+                <option value="">{t('allActions')}</option>
+                {ACTIONS.map(action => (
+                  <option key={action} value={action}>
+                    {t(`actions.${action}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="audit-since">{t('since')}</Label>
+              <Input
+                id="audit-since"
+                type="date"
+                value={form.since}
+                onChange={e => setForm({ ...form, since: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="audit-until">{t('until')}</Label>
+              <Input
+                id="audit-until"
+                type="date"
+                value={form.until}
+                onChange={e => setForm({ ...form, until: e.target.value })}
+              />
+            </div>
+          </div>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {ENTITY_FILTERS.map(entityType => (
+            <Button
+              key={entityType}
+              variant={entityFilter === entityType ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setEntityFilter(entityType)}
+            >
+              {t(`entityTypes.${entityType}`)}
+            </Button>
+          ))}
+        </div>
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="pt-6">
+              <p className="text-red-600">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Log */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{t('noChanges')}</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <Card key={entry.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base">
+                      {entry.entityType === 'order'
+                        ? `#${entry.entityName || entry.entityId}`
+                        : `${entry.entityName || entry.entityId} (${entry.entityId})`}
+                    </CardTitle>
+                    <Badge variant="secondary">{t(`actions.${entry.action}`)}</Badge>
+                  </div>
+                  <CardDescription>
+                    {new Date(entry.createdAt).toLocaleString()} · {entry.actor}
+                    {entry.actorRole && ` (${entry.actorRole})`}
+                    {entry.store && ` · ${entry.store.toUpperCase()}`}
+                    {entry.source && ` · ${t('source')}: ${entry.source}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AuditChanges entry={entry} />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { BarcodeMapping } from '@/types/woocommerce-api';
+import { Barcode, Download, Search, Trash2, Upload } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const emptyForm = { barcode: '', sku: '', productName: '', variant: '' };
+
+export default function BarcodesPage() {
+  const t = useTranslations('barcodes');
+  const [mappings, setMappings] = useState<BarcodeMapping[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [form, setForm] = useState(emptyForm);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadMappings = useCallback(
+    async (search?: string) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams();
+        if (search) {
+          params.append('search', search);
+        }
+
+        const response = await fetch(`/api/barcodes?${params}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || t('loadError'));
+        }
+
+        setMappings(result.data || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('loadError'));
+        console.error('Load barcode mappings error:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [t]
+  );
+
+  useEffect(() => {
+    loadMappings();
+  }, [loadMappings]);
+
+  const saveMapping = async () => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/barcodes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...form, source: 'manual' }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('saveError'));
+      }
+
+      setForm(emptyForm);
+      setMessage(`${result.data.barcode} → ${result.data.sku}`);
+      await loadMappings(searchTerm);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveError'));
+    }
+  };
+
+  const deleteMapping = async (barcode: string) => {
+    if (!window.confirm(`${t('deleteConfirm')} ${barcode}?`)) return;
+
+    try {
+      const response = await fetch(`/api/barcodes?barcode=${encodeURIComponent(barcode)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(t('deleteError'));
+      }
+
+      setMappings(prev => prev.filter(mapping => mapping.barcode !== barcode));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('deleteError'));
+    }
+  };
+
+  const importCsv = async (file: File) => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/barcodes/import', { method: 'POST', body: formData });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('importError'));
+      }
+
+      setMessage(
+        `${t('imported')}: ${result.data.imported}, ${t('skipped')}: ${result.data.skipped.length}`
+      );
+      await loadMappings(searchTerm);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('importError'));
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  // Group barcodes by SKU - one product can have several packaging variants
+  const mappingsBySku = mappings.reduce(
+    (groups, mapping) => {
+      if (!groups[mapping.sku]) {
+        groups[mapping.sku] = [];
+      }
+      groups[mapping.sku].push(mapping);
+      return groups;
+    },
+    {} as Record<string, BarcodeMapping[]>
+  );
+
+  return (
+    <div className="h-full overflow-auto p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col items-center pt-8">
+          <div className="flex items-center gap-3">
+            <Barcode className="h-6 w-6 text-amber-600" />
+            <h1 className="text-2xl font-bold text-gray-900 text-center">{t('title')}</h1>
+          </div>
+          <p className="text-gray-600 text-center mt-1">{t('description')}</p>
+        </div>
+
+        {/* Add mapping */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('addMapping')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="barcode">{t('barcode')}</Label>
+                <Input
+                  id="barcode"
+                  value={form.barcode}
+                  onChange={e => setForm({ ...form, barcode: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sku">SKU</Label>
+                <Input
+                  id="sku"
+                  value={form.sku}
+                  onChange={e => setForm({ ...form, sku: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="productName">{t('productName')}</Label>
+                <Input
+                  id="productName"
+                  value={form.productName}
+                  onChange={e => setForm({ ...form, productName: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="variant">{t('variant')}</Label>
+                <Input
+                  id="variant"
+                  placeholder={t('variantPlaceholder')}
+                  value={form.variant}
+                  onChange={e => setForm({ ...form, variant: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button onClick={saveMapping} disabled={!form.barcode.trim() || !form.sku.trim()}>
+              {t('save')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Import / export */}
+        <Card>
+          <CardHeader>
+            <CardTitle>CSV</CardTitle>
+            <CardDescription>{t('csvDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={e => e.target.files?.[0] && importCsv(e.target.files[0])}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {t('importCsv')}
+            </Button>
+            <Button variant="outline" asChild>
+              <a href="/api/barcodes/export">
+                <Download className="h-4 w-4 mr-2" />
+                {t('exportCsv')}
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {message && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="pt-6">
+              <p className="text-green-700">{message}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="pt-6">
+              <p className="text-red-600">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Search */}
+        <div className="flex gap-2">
+          <Input
+            placeholder={t('searchPlaceholder')}
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && loadMappings(searchTerm)}
+          />
+          <Button onClick={() => loadMappings(searchTerm)} disabled={isLoading}>
+            <Search className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* Mappings */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+          </div>
+        ) : Object.keys(mappingsBySku).length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{t('noMappings')}</p>
+        ) : (
+          <div className="space-y-3">
+            {Object.entries(mappingsBySku).map(([sku, skuMappings]) => (
+              <Card key={sku}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">
+                    {skuMappings.find(mapping => mapping.productName)?.productName || sku}
+                  </CardTitle>
+                  <CardDescription>SKU: {sku}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {skuMappings.map(mapping => (
+                    <div
+                      key={mapping.barcode}
+                      className="flex items-center justify-between gap-2 border rounded-md px-3 py-2"
+                    >
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-mono text-sm">{mapping.barcode}</span>
+                        {mapping.variant && <Badge variant="outline">{mapping.variant}</Badge>}
+                        <Badge variant="secondary">{t(`sources.${mapping.source}`)}</Badge>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMapping(mapping.barcode)}
+                        title={t('delete')}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { EmailLogEntry } from '@/types/woocommerce-api';
+import { Mail, RotateCcw, Search } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useCallback, useEffect, useState } from 'react';
+
+const STATUS_FILTERS = ['all', 'failed', 'sent', 'sending'] as const;
+
+const statusVariants: Record<EmailLogEntry['status'], 'default' | 'secondary' | 'destructive'> = {
+  sent: 'default',
+  sending: 'secondary',
+  failed: 'destructive',
+};
+
+export default function EmailsPage() {
+  const t = useTranslations('emailLog');
+  const [emails, setEmails] = useState<EmailLogEntry[]>([]);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<(typeof STATUS_FILTERS)[number]>('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEmails = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (query) {
+        params.append('search', query);
+      }
+      if (statusFilter !== 'all') {
+        params.append('status', statusFilter);
+      }
+
+      const response = await fetch(`/api/emails?${params}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('loadError'));
+      }
+
+      setEmails(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadError'));
+      console.error('Load email log error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, statusFilter, t]);
+
+  useEffect(() => {
+    loadEmails();
+  }, [loadEmails]);
+
+  const resend = async (email: EmailLogEntry) => {
+    if (!confirm(`${t('confirmResend')} ${email.recipients.join(', ')}?`)) return;
+
+    setResendingId(email.id);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/emails/${email.id}/resend`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('resendError'));
+      }
+
+      setMessage(`${t('resent')}: ${email.subject}`);
+      await loadEmails();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('resendError'));
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-auto p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col items-center pt-8">
+          <div className="flex items-center gap-3">
+            <Mail className="h-6 w-6 text-amber-600" />
+            <h1 className="text-2xl font-bold text-gray-900 text-center">{t('title')}</h1>
+          </div>
+          <p className="text-gray-600 text-center mt-1">{t('description')}</p>
+        </div>
+
+        {/* Search - runs on submit, not on every keystroke */}
+        <form
+          className="flex gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            if (search.trim() === query) {
+              loadEmails();
+            } else {
+              setQuery(search.trim());
+            }
+          }}
+        >
+          <Input
+            placeholder={t('searchPlaceholder')}
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+          />
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map(status => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter(status)}
+            >
+              {t(`statuses.${status}`)}
+            </Button>
+          ))}
+        </div>
+
+        {message && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="pt-6">
+              <p className="text-green-700">{message}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="pt-6">
+              <p className="text-red-600">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Log */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+          </div>
+        ) : emails.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{t('noEmails')}</p>
+        ) : (
+          <div className="space-y-3">
+            {emails.map(email => (
+              <Card key={email.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base">{email.subject}</CardTitle>
+                    <Badge variant={statusVariants[email.status]}>
+                      {t(`statuses.${email.status}`)}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    {new Date(email.createdAt).toLocaleString()} · {email.event} · {email.transport}
+                    {email.orderId && ` · #${email.orderId}`}
+                    {email.resentFrom && ` · ${t('resentCopy')}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p className="text-gray-600">
+                    {t('recipients')}: {email.recipients.join(', ')}
+                  </p>
+                  {email.messageId && (
+                    <p className="text-gray-500 font-mono text-xs break-all">
+                      {t('messageId')}: {email.messageId}
+                    </p>
+                  )}
+                  {email.attachments.map(attachment => (
+                    <div key={attachment.filename} className="rounded-md bg-gray-50 p-2">
+                      <p className="font-medium">
+                        {attachment.filename} ({Math.round(attachment.size / 1024)} KB)
+                      </p>
+                      {attachment.included && attachment.included.length > 0 && (
+                        <p className="text-green-700">
+                          {t('included')}: {attachment.included.join(', ')}
+                        </p>
+                      )}
+                      {attachment.missing && attachment.missing.length > 0 && (
+                        <p className="text-red-600">
+                          {t('missing')}: {attachment.missing.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  {email.error && (
+                    <p className="text-red-600 break-words">
+                      {t('error')}: {email.error}
+                    </p>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resend(email)}
+                    disabled={resendingId !== null}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {resendingId === email.id ? t('resending') : t('resend')}
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
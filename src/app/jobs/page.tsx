@@ -0,0 +1,179 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BackgroundJob } from '@/types/woocommerce-api';
+import { ListTodo, RefreshCw, RotateCcw } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useCallback, useEffect, useState } from 'react';
+
+const STATUS_FILTERS = ['all', 'dead', 'queued', 'running', 'succeeded'] as const;
+
+const statusVariants: Record<
+  BackgroundJob['status'],
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  queued: 'outline',
+  running: 'secondary',
+  succeeded: 'default',
+  dead: 'destructive',
+};
+
+export default function JobsPage() {
+  const t = useTranslations('jobs');
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  const [statusFilter, setStatusFilter] = useState<(typeof STATUS_FILTERS)[number]>('dead');
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') {
+        params.append('status', statusFilter);
+      }
+
+      const response = await fetch(`/api/jobs?${params}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('loadError'));
+      }
+
+      setJobs(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadError'));
+      console.error('Load jobs error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, t]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const replay = async (job: BackgroundJob) => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/replay`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('replayError'));
+      }
+
+      setMessage(`${t('replayed')}: ${job.id}`);
+      await loadJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('replayError'));
+    }
+  };
+
+  return (
+    <div className="h-full overflow-auto p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col items-center pt-8">
+          <div className="flex items-center gap-3">
+            <ListTodo className="h-6 w-6 text-amber-600" />
+            <h1 className="text-2xl font-bold text-gray-900 text-center">{t('title')}</h1>
+          </div>
+          <p className="text-gray-600 text-center mt-1">{t('description')}</p>
+        </div>
+
+        {/* Status filter */}
+        <div className="flex flex-wrap items-center gap-2">
+          {STATUS_FILTERS.map(status => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter(status)}
+            >
+              {t(`statuses.${status}`)}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={loadJobs} disabled={isLoading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {message && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="pt-6">
+              <p className="text-green-700">{message}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="pt-6">
+              <p className="text-red-600">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Jobs */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{t('noJobs')}</p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map(job => (
+              <Card key={job.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base">{job.type}</CardTitle>
+                    <Badge variant={statusVariants[job.status]}>
+                      {t(`statuses.${job.status}`)}
+                    </Badge>
+                  </div>
+                  <CardDescription className="font-mono text-xs">{job.id}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <div className="grid grid-cols-2 gap-2 text-gray-600">
+                    <span>
+                      {t('attempts')}: {job.attempts}/{job.maxAttempts}
+                    </span>
+                    <span>
+                      {job.status === 'queued' ? t('nextRun') : t('updated')}:{' '}
+                      {new Date(
+                        job.status === 'queued' ? job.runAt : job.updatedAt
+                      ).toLocaleString()}
+                    </span>
+                  </div>
+                  <pre className="bg-gray-50 rounded-md p-2 text-xs overflow-x-auto">
+                    {JSON.stringify(job.payload, null, 2)}
+                  </pre>
+                  {job.lastError && (
+                    <p className="text-red-600 break-words">
+                      {t('lastError')}: {job.lastError}
+                    </p>
+                  )}
+                  {job.status === 'dead' && (
+                    <Button variant="outline" size="sm" onClick={() => replay(job)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {t('replay')}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,76 @@
 'use client';
 
-// TODO: Add HR integration
-// - Add webshop selector dropdown (Welmora.ch / Welmora.hr)
-// - Fetch data from /api/packing-hr/[date] when HR selected
-// - Update scanner to work with both .ch and .hr orders
-// - Use updateOrderStatusHr() for HR order completion
-// - Support cross-webshop package management
-
+import { useAuth } from '@/components/auth/AuthProvider';
 import BarcodeScanner from '@/components/features/scanner/BarcodeScanner';
+import AuditHistory from '@/components/shared/AuditHistory';
 import { useDateContext } from '@/components/shared/DateContext';
+import { useDayUpdates, useLiveUpdatesContext } from '@/components/shared/LiveUpdatesContext';
+import PrintDocuments from '@/components/shared/PrintDocuments';
+import { useStoreContext } from '@/components/shared/StoreContext';
+import StoreSelector, { StoreBadge } from '@/components/shared/StoreSelector';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
-import { PackageItem, Package as PackageType, ScanFeedback } from '@/types/woocommerce-api';
-import { CheckCircle, MapPin, Package, RotateCcw, Scan, User } from 'lucide-react';
+import {
+  findBestMatches,
+  hasValidGs1CheckDigit,
+  ScanSource,
+  validateScannedCode,
+} from '@/lib/utils/barcodeMatching';
+import { getDeviceInfo } from '@/lib/utils/device';
+import { calculatePackageWeight } from '@/lib/utils/packageWeight';
+import {
+  PackageItem,
+  Package as PackageType,
+  PackingPackageState,
+  PackingScanEvent,
+  ScanFeedback,
+} from '@/types/woocommerce-api';
+import {
+  Barcode,
+  CheckCircle,
+  History,
+  MapPin,
+  Minus,
+  Package,
+  Printer,
+  RotateCcw,
+  Scan,
+  Undo2,
+  User,
+} from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useCallback, useEffect, useState } from 'react';
 
+// Merge the server-side state of one package into a package list
+const mergePackageState = (packages: PackageType[], state: PackingPackageState) =>
+  packages.map(pkg => {
+    if (pkg.id !== state.packageId) {
+      return pkg;
+    }
+    return {
+      ...pkg,
+      status: state.status,
+      items: pkg.items.map(item => {
+        const line = state.items.find(line => line.sku === item.sku);
+        return line ? { ...item, scanned: Math.min(line.scanned, item.needed) } : item;
+      }),
+    };
+  });
+
 export default function PackingPage() {
   const params = useParams();
   const router = useRouter();
   const { selectedDate: globalDate, setSelectedDate: setGlobalDate } = useDateContext();
+  const { selectedStore } = useStoreContext();
+  const { refreshProgress } = useLiveUpdatesContext();
+  const { username } = useAuth();
   const t = useTranslations();
   const [packages, setPackages] = useState<PackageType[]>([]);
   const [loading, setLoading] = useState(true);
@@ -34,6 +79,8 @@ export default function PackingPage() {
   const [scanFeedback, setScanFeedback] = useState<ScanFeedback | null>(null);
   const [manualSku, setManualSku] = useState('');
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [historyPackageId, setHistoryPackageId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PackingScanEvent[]>([]);
 
   const date = Array.isArray(params.date) ? params.date[0] : params.date;
 
@@ -71,69 +118,112 @@ export default function PackingPage() {
   const fetchPackingData = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/packing/${date}?t=${Date.now()}`);
+      // Start (or resume) the server-side session so scans survive reloads and devices
+      const response = await fetch('/api/packing/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ date, store: selectedStore }),
+      });
 
       if (!response.ok) {
         throw new Error('Neuspješno dohvaćanje podataka za pakiranje');
       }
 
-      const data = await response.json();
-      // API directly returns array of packages
-      setPackages(Array.isArray(data) ? data : []);
+      const result = await response.json();
+      setPackages(result.data?.packages || []);
+      refreshProgress();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Dogodila se greška');
     } finally {
       setLoading(false);
     }
-  }, [date]);
+  }, [date, selectedStore, refreshProgress]);
 
-  // Load state from localStorage or fetch fresh data
+  // Load packages with the scan progress stored on the server
   useEffect(() => {
     if (!date) return;
     fetchPackingData();
   }, [date, fetchPackingData]);
 
-  // Save state to localStorage whenever packages change
-  useEffect(() => {
-    if (packages.length > 0) {
-      localStorage.setItem(`packing-${date}`, JSON.stringify(packages));
+  const loadHistory = useCallback(
+    async (packageId: string) => {
+      try {
+        const response = await fetch(
+          `/api/packing/sessions/${date}/history?packageId=${encodeURIComponent(packageId)}`
+        );
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to load scan history');
+        }
+        setHistory(result.data);
+      } catch (error) {
+        console.error('Error loading scan history:', error);
+        setHistory([]);
+      }
+    },
+    [date]
+  );
+
+  // Scans and resets from other devices working on the same day
+  useDayUpdates('packing', state => {
+    setPackages(prev => mergePackageState(prev, state));
+    if (state.packageId === historyPackageId) {
+      loadHistory(state.packageId);
     }
-  }, [packages, date]);
+  });
+
+  // Orders of the selected webshop(s) changed in WooCommerce, e.g. cancelled or edited
+  useDayUpdates('snapshot', change => {
+    if (selectedStore === 'all' || change.store === selectedStore) {
+      fetchPackingData();
+    }
+  });
 
   const dismissFeedback = () => {
     setScanFeedback(null);
   };
 
-  const updateWooCommerceStatus = async (orderId: number, status: 'completed' | 'processing') => {
-    try {
-      const response = await fetch('/api/packing/update-order-status', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          orderId: orderId,
-          status: status,
-        }),
-      });
+  // Apply the server-side state of one package and return the resulting list
+  const applyPackageState = (state: PackingPackageState) => {
+    setPackages(prev => mergePackageState(prev, state));
+    return mergePackageState(packages, state);
+  };
 
-      if (!response.ok) {
-        console.error('Failed to update order status in WooCommerce');
-      } else {
-        console.log(`Order ${orderId} marked as ${status} in WooCommerce`);
-      }
-    } catch (error) {
-      console.error('Error updating order status:', error);
+  // Post a packing action to the session API; WooCommerce status is handled server-side.
+  // A conflict means another device already took the unit - its current state is returned.
+  const postSessionAction = async (
+    action: 'scan' | 'decrement' | 'reset',
+    body: { packageId: string; sku?: string }
+  ): Promise<{ state: PackingPackageState; conflict: boolean }> => {
+    const response = await fetch(`/api/packing/sessions/${date}/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      // Who and which device, for the scan log
+      body: JSON.stringify({ ...body, actor: username, ...getDeviceInfo() }),
+    });
+
+    const result = await response.json();
+    if (result.conflict && result.data) {
+      return { state: result.data, conflict: true };
     }
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Packing ${action} failed`);
+    }
+
+    return { state: result.data, conflict: false };
   };
 
   const handleScan = async (scannedCode: string) => {
-    processProduct(scannedCode);
+    processProduct(scannedCode, 'camera');
   };
 
   const handleManualEntry = () => {
     if (manualSku.trim()) {
-      processProduct(manualSku.trim());
+      processProduct(manualSku.trim(), 'manual');
       setManualSku('');
     }
   };
@@ -152,43 +242,90 @@ export default function PackingPage() {
     return parts.join(', ');
   };
 
-  const calculatePackageWeight = (pkg: PackageType) => {
-    // Calculate weight based on actual product weights
-    const totalWeight = pkg.items.reduce((sum, item) => {
-      // Use actual weight from WooCommerce or fallback to 0.5kg
-      const itemWeight = item.weight || 0.5;
-      return sum + itemWeight * item.needed;
-    }, 0);
-    return totalWeight;
+  // Resolve a scanned GTIN/EAN to the Welmora SKU it is mapped to
+  const resolveBarcode = async (code: string): Promise<string | null> => {
+    try {
+      const response = await fetch(`/api/barcodes?barcode=${encodeURIComponent(code)}`);
+      if (!response.ok) return null;
+
+      const result = await response.json();
+      return result.data?.sku || null;
+    } catch (error) {
+      console.error('Error resolving barcode:', error);
+      return null;
+    }
   };
 
-  const processProduct = (code: string) => {
+  // Store an unknown barcode for a product of the day and count the scan right away
+  const learnBarcode = async (barcode: string, item: PackageItem) => {
     try {
+      const response = await fetch('/api/barcodes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          barcode,
+          sku: item.sku,
+          productName: item.name,
+          source: 'learned',
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save barcode mapping');
+      }
+
+      console.log(`${t('packing.barcodeLearned')} ${item.sku}: ${barcode}`);
+      await processProduct(item.sku, 'manual');
+    } catch (error) {
+      console.error('Error learning barcode:', error);
+      setScanFeedback({
+        success: false,
+        message: `${t('packing.processingError')} "${barcode}". ${t('packing.tryAgainPlease')}.`,
+        urgency: 'high',
+        sound: 'error',
+      });
+    }
+  };
+
+  const processProduct = async (code: string, source: ScanSource) => {
+    try {
+      // Reject camera misreads before they can hit a package
+      const validation = validateScannedCode(code, source);
+      if (!validation.valid) {
+        setScanFeedback({
+          success: false,
+          message: `${t('packing.invalidBarcode')} "${code}"`,
+          urgency: 'high',
+          sound: 'error',
+        });
+        return;
+      }
+
+      // Best match kind wins across all packages (GTIN → mapped barcode → SKU → id → name);
+      // strict mode leaves name matching to manual entry only
+      const mappedSku = await resolveBarcode(code);
+      const best = findBestMatches(
+        packages.flatMap(pkg => pkg.items.map(item => ({ package: pkg, item }))),
+        entry => entry.item,
+        code,
+        { source, mappedSku }
+      );
+
       // Find ALL packages that contain this SKU and still need items
       const matchingPackages: Array<{ package: PackageType; item: PackageItem }> = [];
 
-      for (const pkg of packages) {
-        const item = pkg.items.find(
-          item =>
-            item.sku === code ||
-            item.productId?.toString() === code ||
-            item.name.toLowerCase().includes(code.toLowerCase())
-        );
-        if (item && item.scanned < item.needed) {
-          matchingPackages.push({ package: pkg, item });
+      for (const match of best?.matches || []) {
+        const alreadyListed = matchingPackages.some(mp => mp.package.id === match.package.id);
+        if (!alreadyListed && match.item.scanned < match.item.needed) {
+          matchingPackages.push(match);
         }
       }
 
       if (matchingPackages.length === 0) {
         // Check if product exists but is already complete in all packages
-        const anyMatch = packages.some(pkg =>
-          pkg.items.some(
-            item =>
-              item.sku === code ||
-              item.productId?.toString() === code ||
-              item.name.toLowerCase().includes(code.toLowerCase())
-          )
-        );
+        const anyMatch = !!best;
 
         setScanFeedback({
           success: false,
@@ -197,6 +334,8 @@ export default function PackingPage() {
             : `${t('packing.productNotFound')} "${code}"`,
           urgency: 'medium',
           sound: 'error',
+          // Unmapped GTIN/EAN codes can be learned for one of today's products
+          unknownBarcode: !anyMatch && !mappedSku && hasValidGs1CheckDigit(code) ? code : undefined,
         });
         return;
       }
@@ -252,42 +391,26 @@ export default function PackingPage() {
         return;
       }
 
-      // Update the item
-      const updatedPackages = packages.map(pkg => {
-        if (pkg.id === foundPackage!.id) {
-          const updatedItems = pkg.items.map(item => {
-            if (item.sku === foundItem!.sku) {
-              return {
-                ...item,
-                scanned: Math.min(item.scanned + 1, item.needed),
-              };
-            }
-            return item;
-          });
-
-          // Check if all items in this package are complete
-          const allComplete = updatedItems.every(item => item.scanned >= item.needed);
-
-          const updatedPackage = {
-            ...pkg,
-            items: updatedItems,
-            status: allComplete ? ('completed' as const) : ('in-progress' as const),
-          };
-
-          // Auto-update WooCommerce status if package is complete
-          if (allComplete && pkg.status !== 'completed') {
-            updateWooCommerceStatus(pkg.orderId, 'completed');
-          }
-
-          return updatedPackage;
-        }
-        return pkg;
+      // Record the scan on the server
+      const { state, conflict } = await postSessionAction('scan', {
+        packageId: foundPackage.id,
+        sku: foundItem.sku,
       });
+      const updatedPackages = applyPackageState(state);
 
-      setPackages(updatedPackages);
+      if (conflict) {
+        setScanFeedback({
+          success: false,
+          message: `"${foundItem.name}" ${t('packing.scannedOnAnotherDevice')} ${foundPackage.customerName}`,
+          urgency: 'medium',
+          sound: 'warning',
+        });
+        return;
+      }
 
       // Show success feedback
-      const remainingForThisItem = foundItem!.needed - (foundItem!.scanned + 1);
+      const scannedLine = state.items.find(line => line.sku === foundItem.sku);
+      const remainingForThisItem = foundItem.needed - (scannedLine?.scanned ?? foundItem.needed);
       const packageComplete = updatedPackages
         .find(p => p.id === foundPackage!.id)!
         .items.every(item => item.scanned >= item.needed);
@@ -325,24 +448,73 @@ export default function PackingPage() {
   };
 
   const resetPackage = async (packageId: string) => {
-    const updatedPackages = packages.map(pkg => {
-      if (pkg.id === packageId) {
-        // Reset all items to 0 scanned
-        const resetItems = pkg.items.map(item => ({ ...item, scanned: 0 }));
-
-        // Update WooCommerce status back to processing
-        updateWooCommerceStatus(pkg.orderId, 'processing');
-
-        return {
-          ...pkg,
-          status: 'in-progress' as const,
-          items: resetItems,
-        };
+    try {
+      // Server resets the scan counts and sets the order back to processing
+      const { state } = await postSessionAction('reset', { packageId });
+      applyPackageState(state);
+    } catch (error) {
+      console.error('Error resetting package:', error);
+    }
+  };
+
+  // Take back one unit of a line; a completed order goes back to processing server-side
+  const decrementItem = async (packageId: string, sku: string) => {
+    try {
+      const { state } = await postSessionAction('decrement', { packageId, sku });
+      applyPackageState(state);
+    } catch (error) {
+      console.error('Error correcting package line:', error);
+    }
+  };
+
+  // Undo the last scan made on this device
+  const undoLastScan = async () => {
+    try {
+      const response = await fetch(`/api/packing/sessions/${date}/undo-last`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ onlyThisDevice: true, actor: username, ...getDeviceInfo() }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setScanFeedback({
+          success: false,
+          message: t('packing.nothingToUndo'),
+          urgency: 'low',
+          sound: 'warning',
+        });
+        return;
       }
-      return pkg;
-    });
 
-    setPackages(updatedPackages);
+      const { state, event } = result.data as {
+        state: PackingPackageState;
+        event: PackingScanEvent;
+      };
+      applyPackageState(state);
+
+      const undonePackage = packages.find(pkg => pkg.id === state.packageId);
+      const undoneItem = undonePackage?.items.find(item => item.sku === event.sku);
+      setScanFeedback({
+        success: true,
+        message: `${t('packing.scanUndone')}: "${undoneItem?.name || event.sku}" (${undonePackage?.customerName || state.packageId})`,
+        urgency: 'low',
+      });
+    } catch (error) {
+      console.error('Error undoing last scan:', error);
+    }
+  };
+
+  const toggleHistory = (packageId: string) => {
+    if (historyPackageId === packageId) {
+      setHistoryPackageId(null);
+      return;
+    }
+    setHistory([]);
+    setHistoryPackageId(packageId);
+    loadHistory(packageId);
   };
 
   const getPackageProgress = (pkg: PackageType) => {
@@ -392,6 +564,10 @@ export default function PackingPage() {
             <h1 className="text-2xl font-bold text-gray-900 text-center">{t('packing.title')}</h1>
           </div>
         </div>
+        {/* Webshop selector */}
+        <div className="mb-4">
+          <StoreSelector />
+        </div>
         {/* Calendar */}
         <Card>
           <CardHeader className="pb-3">
@@ -448,6 +624,15 @@ export default function PackingPage() {
               </Button>
             </div>
 
+            {packages.length > 0 && (
+              <div className="flex justify-center mb-4">
+                <Button variant="outline" size="sm" onClick={undoLastScan}>
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  {t('packing.undoLastScan')}
+                </Button>
+              </div>
+            )}
+
             {scanFeedback && (
               <Card
                 className={`border-l-4 ${
@@ -494,7 +679,7 @@ export default function PackingPage() {
                                   {scanFeedback.multiplePackages.map(pkg => (
                                     <button
                                       key={pkg.packageId}
-                                      onClick={() => {
+                                      onClick={async () => {
                                         // Find the specific package and process the product for it
                                         const targetPackage = packages.find(
                                           p => p.id === pkg.packageId
@@ -507,56 +692,44 @@ export default function PackingPage() {
                                               item.name === scanFeedback.productInfo!.name
                                           );
                                           if (item) {
-                                            // Update only this package
-                                            const updatedPackages = packages.map(p => {
-                                              if (p.id === pkg.packageId) {
-                                                const updatedItems = p.items.map(i => {
-                                                  if (i.sku === item.sku) {
-                                                    return {
-                                                      ...i,
-                                                      scanned: Math.min(i.scanned + 1, i.needed),
-                                                    };
-                                                  }
-                                                  return i;
+                                            try {
+                                              // Record the scan for this package only
+                                              const { state, conflict } = await postSessionAction(
+                                                'scan',
+                                                { packageId: pkg.packageId, sku: item.sku }
+                                              );
+                                              applyPackageState(state);
+
+                                              if (conflict) {
+                                                setScanFeedback({
+                                                  success: false,
+                                                  message: `"${item.name}" ${t('packing.scannedOnAnotherDevice')} ${pkg.customerName}`,
+                                                  urgency: 'medium',
+                                                  sound: 'warning',
                                                 });
-                                                const allComplete = updatedItems.every(
-                                                  i => i.scanned >= i.needed
-                                                );
-
-                                                const updatedPackage = {
-                                                  ...p,
-                                                  items: updatedItems,
-                                                  status: allComplete
-                                                    ? ('completed' as const)
-                                                    : ('in-progress' as const),
-                                                };
-
-                                                // Auto-update WooCommerce status if package is complete
-                                                if (allComplete && p.status !== 'completed') {
-                                                  updateWooCommerceStatus(p.orderId, 'completed');
-                                                }
-
-                                                return updatedPackage;
+                                                return;
                                               }
-                                              return p;
-                                            });
-                                            setPackages(updatedPackages);
-
-                                            // Check if the package is now complete for better feedback message
-                                            const completedPackage = updatedPackages.find(
-                                              p => p.id === pkg.packageId
-                                            );
-                                            const isPackageComplete =
-                                              completedPackage?.status === 'completed';
-
-                                            setScanFeedback({
-                                              success: true,
-                                              message: isPackageComplete
-                                                ? `${t('packing.packageCompleteFor')} ${pkg.customerName}!`
-                                                : `${t('packing.addedToPackage')} ${pkg.customerName}`,
-                                              urgency: isPackageComplete ? 'high' : 'low',
-                                              sound: 'success',
-                                            });
+
+                                              const isPackageComplete =
+                                                state.status === 'completed';
+
+                                              setScanFeedback({
+                                                success: true,
+                                                message: isPackageComplete
+                                                  ? `${t('packing.packageCompleteFor')} ${pkg.customerName}!`
+                                                  : `${t('packing.addedToPackage')} ${pkg.customerName}`,
+                                                urgency: isPackageComplete ? 'high' : 'low',
+                                                sound: 'success',
+                                              });
+                                            } catch (error) {
+                                              console.error('Error processing product:', error);
+                                              setScanFeedback({
+                                                success: false,
+                                                message: `${t('packing.processingError')} "${item.sku}". ${t('packing.tryAgainPlease')}.`,
+                                                urgency: 'high',
+                                                sound: 'error',
+                                              });
+                                            }
                                           }
                                         }
                                       }}
@@ -580,6 +753,51 @@ export default function PackingPage() {
                             </div>
                           )}
 
+                          {scanFeedback.unknownBarcode && (
+                            <div className="mt-3">
+                              <div className="bg-yellow-50 p-3 rounded-lg border border-yellow-200">
+                                <div className="flex items-center justify-between gap-2 mb-3">
+                                  <div className="flex items-center gap-2">
+                                    <Barcode className="h-4 w-4 text-yellow-600" />
+                                    <span className="font-semibold text-yellow-800">
+                                      {t('packing.unknownBarcode')} {scanFeedback.unknownBarcode}
+                                    </span>
+                                  </div>
+                                  <Link
+                                    href="/barcodes"
+                                    className="text-xs text-yellow-800 underline whitespace-nowrap"
+                                  >
+                                    {t('packing.manageBarcodes')}
+                                  </Link>
+                                </div>
+                                <p className="text-sm text-yellow-700 mb-3">
+                                  {t('packing.learnBarcodeText')}
+                                </p>
+                                <div className="space-y-2 max-h-64 overflow-auto">
+                                  {Array.from(
+                                    new Map(
+                                      packages
+                                        .flatMap(pkg => pkg.items)
+                                        .filter(item => item.scanned < item.needed)
+                                        .map(item => [item.sku, item])
+                                    ).values()
+                                  ).map(item => (
+                                    <button
+                                      key={item.sku}
+                                      onClick={() =>
+                                        learnBarcode(scanFeedback.unknownBarcode!, item)
+                                      }
+                                      className="w-full p-3 text-left bg-white border border-yellow-200 rounded-lg hover:bg-yellow-50 hover:border-yellow-300 transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:ring-offset-2"
+                                    >
+                                      <div className="font-medium text-sm">{item.name}</div>
+                                      <div className="text-xs text-gray-600">SKU: {item.sku}</div>
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                            </div>
+                          )}
+
                           {scanFeedback.packageInfo && !scanFeedback.multiplePackages && (
                             <div className="mt-3">
                               <div className="bg-white p-3 rounded-lg border">
@@ -671,6 +889,22 @@ export default function PackingPage() {
                 <Badge className="bg-green-600">{t('packing.allPackagesComplete')}</Badge>
               </div>
             )}
+            {totalPackages > 0 && date && (
+              <div className="mt-3">
+                <PrintDocuments date={date}>
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={`/api/labels/${date}?store=${selectedStore}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <Printer className="mr-2 h-4 w-4" />
+                      {t('packing.printAllLabels')}
+                    </a>
+                  </Button>
+                </PrintDocuments>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -695,6 +929,7 @@ export default function PackingPage() {
                       <Package className="h-4 w-4 text-amber-600" />
                       <span className="font-semibold text-amber-800">#</span>
                       <span className="font-semibold text-amber-800">{pkg.orderNumber}</span>
+                      {selectedStore === 'all' && <StoreBadge store={pkg.store} />}
                     </div>
                     <div className="flex items-center gap-2">
                       <Badge
@@ -705,6 +940,25 @@ export default function PackingPage() {
                           ? t('packing.packageComplete')
                           : t('packing.inProgress')}
                       </Badge>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" asChild>
+                        <a
+                          href={`/api/labels/${date}?store=${pkg.store}&packageId=${encodeURIComponent(pkg.id)}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={t('packing.printLabel')}
+                        >
+                          <Printer className="h-3 w-3" />
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleHistory(pkg.id)}
+                        className="h-6 w-6 p-0"
+                        title={t('packing.history')}
+                      >
+                        <History className="h-3 w-3" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -794,7 +1048,18 @@ export default function PackingPage() {
                         </div>
 
                         {/* Quantity Status */}
-                        <div className="flex-shrink-0 text-right">
+                        <div className="flex-shrink-0 flex items-center gap-1">
+                          {item.scanned > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => decrementItem(pkg.id, item.sku)}
+                              className="h-6 w-6 p-0"
+                              title={t('packing.removeOne')}
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                          )}
                           <Badge
                             variant={item.scanned >= item.needed ? 'default' : 'secondary'}
                             className="text-xs"
@@ -805,6 +1070,45 @@ export default function PackingPage() {
                       </div>
                     ))}
                   </div>
+
+                  {/* Scan timeline */}
+                  {historyPackageId === pkg.id && (
+                    <div className="mt-3 border-t pt-3">
+                      <h4 className="text-xs font-semibold text-gray-700 mb-2">
+                        {t('packing.history')}
+                      </h4>
+                      {history.length === 0 ? (
+                        <p className="text-xs text-gray-500">{t('packing.noHistory')}</p>
+                      ) : (
+                        <ul className="space-y-1 max-h-48 overflow-auto">
+                          {history.map(event => (
+                            <li
+                              key={event.id}
+                              className="flex items-start justify-between gap-2 text-xs text-gray-600"
+                            >
+                              <span>
+                                <span className="font-medium text-gray-800">
+                                  {t(`packing.historyActions.${event.action}`)}
+                                </span>{' '}
+                                {pkg.items.find(item => item.sku === event.sku)?.name || event.sku}{' '}
+                                ({event.delta > 0 ? `+${event.delta}` : event.delta} →{' '}
+                                {event.scannedAfter})
+                              </span>
+                              <span className="text-right text-gray-500 flex-shrink-0">
+                                {new Date(event.createdAt).toLocaleTimeString()}
+                                <br />
+                                {[event.actor, event.deviceLabel].filter(Boolean).join(' · ') ||
+                                  t('packing.unknownDevice')}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <div className="mt-3">
+                        <AuditHistory entityType="order" entityId={pkg.orderId} store={pkg.store} />
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             );
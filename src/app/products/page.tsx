@@ -1,11 +1,15 @@
 'use client';
 
+import PriceHistoryChart from '@/components/features/products/PriceHistoryChart';
+import AuditHistory from '@/components/shared/AuditHistory';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
+import { CompetitorId } from '@/lib/services/scrapers/types';
 import { formatPriceWithConversion, getChfToEurRate } from '@/lib/utils/currency';
-import { FileSpreadsheet, Search, X } from 'lucide-react';
+import { PriceChange } from '@/types/woocommerce-api';
+import { FileSpreadsheet, History, LineChart, Search, X } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import Image from 'next/image';
 import { useCallback, useEffect, useState } from 'react';
@@ -22,19 +26,49 @@ interface ProductComparison {
   dmStock?: number;
   dmProductUrl?: string;
   dmLastUpdated?: string;
+  dmLastChange?: PriceChange;
   muellerPrice?: number;
   muellerStock?: number;
   muellerProductUrl?: string;
   muellerLastUpdated?: string;
+  muellerLastChange?: PriceChange;
   metroPrice?: number;
   metroStock?: number;
   metroProductUrl?: string;
   metroLastUpdated?: string;
+  metroLastChange?: PriceChange;
   needsUpdate: boolean;
   image?: string;
   welmoraImage?: string;
 }
 
+// Competitor shops shown per product; the search link is used until a product URL was scraped
+const COMPETITORS: {
+  id: CompetitorId;
+  name: string;
+  logo: string;
+  getSearchUrl: (gtin: string) => string;
+}[] = [
+  {
+    id: 'dm',
+    name: 'DM',
+    logo: '/logo_dm.png',
+    getSearchUrl: gtin => `https://www.dm.de/search?query=${gtin}`,
+  },
+  {
+    id: 'mueller',
+    name: 'Müller',
+    logo: '/logo_mueller.png',
+    getSearchUrl: gtin => `https://www.mueller.de/suche/?query=${gtin}`,
+  },
+  {
+    id: 'metro',
+    name: 'Metro',
+    logo: '/logo_metro.png',
+    getSearchUrl: gtin => `https://produkte.metro.de/shop/search?q=${gtin}`,
+  },
+];
+
 export default function ProductsPage() {
   const t = useTranslations();
   const [products, setProducts] = useState<ProductComparison[]>([]);
@@ -42,6 +76,9 @@ export default function ProductsPage() {
   const [isPageLoading, setIsPageLoading] = useState(false);
   const [eurRate, setEurRate] = useState<number>(1.05);
   const [loadingItems, setLoadingItems] = useState<Set<string>>(new Set());
+  const [historySku, setHistorySku] = useState<string | null>(null);
+  // Open price chart as `${sku}:${competitor}`
+  const [chartKey, setChartKey] = useState<string | null>(null);
   const loadProducts = useCallback(async (search?: string) => {
     setIsPageLoading(true);
     try {
@@ -127,15 +164,20 @@ export default function ProductsPage() {
     }
   };
 
-  const getCheapestSource = (dmPrice?: number) => {
-    // Only compare DM prices since Mueller and Metro are now search-only
-    return dmPrice ? 'dm' : null;
+  const getCheapestSource = (product: ProductComparison): CompetitorId | null => {
+    let cheapest: { id: CompetitorId; price: number } | null = null;
+    for (const { id } of COMPETITORS) {
+      const price = product[`${id}Price`];
+      if (price && (!cheapest || price < cheapest.price)) {
+        cheapest = { id, price };
+      }
+    }
+    return cheapest?.id || null;
   };
 
-  const getPriceColorClass = (
-    source: 'dm' | 'mueller' | 'metro',
-    cheapestSource: string | null
-  ) => {
+  const isValidGtin = (sku: string) => [8, 12, 13].includes(sku.length) && /^\d+$/.test(sku);
+
+  const getPriceColorClass = (source: CompetitorId, cheapestSource: string | null) => {
     if (cheapestSource === source) {
       return 'text-green-600 font-bold';
     }
@@ -227,7 +269,16 @@ export default function ProductsPage() {
   };
 
   const exportToCSV = () => {
-    const headers = ['SKU', 'Naziv', 'Welmora Cijena', 'Welmora Status', 'DM Cijena', 'DM Status'];
+    const headers = [
+      'SKU',
+      'Naziv',
+      'Welmora Cijena',
+      'Welmora Status',
+      'DM Cijena',
+      'DM Status',
+      'Müller Cijena',
+      'Metro Cijena',
+    ];
 
     const csvContent = [
       headers.join(','),
@@ -243,6 +294,8 @@ export default function ProductsPage() {
           ),
           product.dmPrice || '',
           product.dmStock !== undefined ? getStockStatus(product.dmStock) : '',
+          product.muellerPrice || '',
+          product.metroPrice || '',
         ].join(',')
       ),
     ].join('\n');
@@ -324,11 +377,22 @@ export default function ProductsPage() {
                 </div>
                 <CardContent className="p-3">
                   <h3 className="font-semibold text-sm mb-1 line-clamp-2">{product.name}</h3>
-                  <p className="text-xs text-gray-600 mb-2">SKU: {product.sku}</p>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs text-gray-600">SKU: {product.sku}</p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistorySku(historySku === product.sku ? null : product.sku)}
+                      className="h-6 w-6 p-0"
+                      title={t('audit.changeHistory')}
+                    >
+                      <History className="h-3 w-3" />
+                    </Button>
+                  </div>
 
                   {/* Calculate cheapest source for this product */}
                   {(() => {
-                    const cheapestSource = getCheapestSource(product.dmPrice);
+                    const cheapestSource = getCheapestSource(product);
 
                     return (
                       <>
@@ -382,99 +446,91 @@ export default function ProductsPage() {
                           </div>
                         </div>
 
-                        {/* DM */}
-                        <div className="mb-2">
-                          <h4 className="font-medium text-gray-900 text-xs mb-1">DM</h4>
-                          <div className="flex justify-between items-center">
-                            <span
-                              className={`text-sm font-semibold whitespace-nowrap ${getPriceColorClass('dm', cheapestSource)}`}
-                            >
-                              {product.dmPrice ? formatPrice(product.dmPrice, 'EUR') : 'N/A'}
-                            </span>
-                            {product.dmProductUrl && (
-                              <a
-                                href={product.dmProductUrl}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-xs bg-amber-50 hover:bg-amber-100 text-amber-700 px-2 py-1 rounded border border-amber-200 transition-colors whitespace-nowrap flex items-center gap-1"
-                              >
-                                <Image
-                                  src="/logo_dm.png"
-                                  alt="DM"
-                                  width={16}
-                                  height={16}
-                                  className="object-contain"
-                                />
-                                {t('common.checkStock')}
-                              </a>
-                            )}
-                          </div>
-                        </div>
-                        {/* Müller */}
-                        <div className="mb-2">
-                          <div className="flex justify-between items-center">
-                            <h4 className="font-medium text-gray-900 text-xs">Müller</h4>
-                            {/* Show Müller search link for all products with valid SKU/GTIN */}
-                            {product.sku &&
-                            (product.sku.length === 13 ||
-                              product.sku.length === 12 ||
-                              product.sku.length === 8) &&
-                            /^\d+$/.test(product.sku) ? (
-                              <a
-                                href={`https://www.mueller.de/suche/?query=${product.sku}`}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-xs bg-amber-50 hover:bg-amber-100 text-amber-700 px-2 py-1 rounded border border-amber-200 transition-colors whitespace-nowrap flex items-center gap-1"
-                                title={`${t('common.search')} ${product.sku} ${t('common.on')} Müller`}
-                              >
-                                <Image
-                                  src="/logo_mueller.png"
-                                  alt="Müller"
-                                  width={16}
-                                  height={16}
-                                  className="object-contain"
-                                />
-                                {t('common.checkStock')}
-                              </a>
-                            ) : (
-                              <span className="text-xs text-gray-400">N/A</span>
-                            )}
-                          </div>
-                        </div>
-                        {/* Metro */}
-                        <div className="mb-2">
-                          <div className="flex justify-between items-center">
-                            <h4 className="font-medium text-gray-900 text-xs">Metro</h4>
-                            {/* Show Metro search link for all products with valid SKU/GTIN */}
-                            {product.sku &&
-                            (product.sku.length === 13 ||
-                              product.sku.length === 12 ||
-                              product.sku.length === 8) &&
-                            /^\d+$/.test(product.sku) ? (
-                              <a
-                                href={`https://produkte.metro.de/shop/search?q=${product.sku}`}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-xs bg-amber-50 hover:bg-amber-100 text-amber-700 px-2 py-1 rounded border border-amber-200 transition-colors whitespace-nowrap flex items-center gap-1"
-                                title={`${t('common.search')} ${product.sku} ${t('common.on')} Metro`}
-                              >
-                                <Image
-                                  src="/logo_metro.png"
-                                  alt="Metro"
-                                  width={16}
-                                  height={16}
-                                  className="object-contain"
-                                />
-                                {t('common.checkStock')}
-                              </a>
-                            ) : (
-                              <span className="text-xs text-gray-400">N/A</span>
-                            )}
-                          </div>
-                        </div>
+                        {/* Competitors */}
+                        {COMPETITORS.map(competitor => {
+                          const price = product[`${competitor.id}Price`];
+                          const productUrl = product[`${competitor.id}ProductUrl`];
+                          const lastChange = product[`${competitor.id}LastChange`];
+                          const key = `${product.sku}:${competitor.id}`;
+
+                          return (
+                            <div key={competitor.id} className="mb-2">
+                              <div className="flex justify-between items-center mb-1">
+                                <h4 className="font-medium text-gray-900 text-xs">
+                                  {competitor.name}
+                                </h4>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setChartKey(chartKey === key ? null : key)}
+                                  className="h-6 w-6 p-0"
+                                  title={t('products.priceHistory.title')}
+                                >
+                                  <LineChart className="h-3 w-3" />
+                                </Button>
+                              </div>
+                              <div className="flex justify-between items-center">
+                                <span
+                                  className={`text-sm font-semibold whitespace-nowrap ${getPriceColorClass(competitor.id, cheapestSource)}`}
+                                >
+                                  {price ? formatPrice(price, 'EUR') : 'N/A'}
+                                  {lastChange && (
+                                    <span
+                                      className={`ml-1 text-xs font-normal ${
+                                        lastChange.deltaPercent > 0
+                                          ? 'text-red-600'
+                                          : 'text-green-600'
+                                      }`}
+                                      title={`${t('products.priceHistory.lastChange')}: ${formatPrice(lastChange.previousPrice, 'EUR')} → ${formatPrice(lastChange.price, 'EUR')} (${new Date(lastChange.changedAt).toLocaleDateString()})`}
+                                    >
+                                      {lastChange.deltaPercent > 0 ? '▲' : '▼'}
+                                      {Math.abs(lastChange.deltaPercent)}%
+                                    </span>
+                                  )}
+                                </span>
+                                {/* Scraped product page, otherwise a search for the SKU/GTIN */}
+                                {productUrl || (product.sku && isValidGtin(product.sku)) ? (
+                                  <a
+                                    href={productUrl || competitor.getSearchUrl(product.sku)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-xs bg-amber-50 hover:bg-amber-100 text-amber-700 px-2 py-1 rounded border border-amber-200 transition-colors whitespace-nowrap flex items-center gap-1"
+                                    title={
+                                      productUrl
+                                        ? undefined
+                                        : `${t('common.search')} ${product.sku} ${t('common.on')} ${competitor.name}`
+                                    }
+                                  >
+                                    <Image
+                                      src={competitor.logo}
+                                      alt={competitor.name}
+                                      width={16}
+                                      height={16}
+                                      className="object-contain"
+                                    />
+                                    {t('common.checkStock')}
+                                  </a>
+                                ) : (
+                                  <span className="text-xs text-gray-400">N/A</span>
+                                )}
+                              </div>
+                              {chartKey === key && (
+                                <div className="mt-2">
+                                  <PriceHistoryChart sku={product.sku} source={competitor.id} />
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
                       </>
                     );
                   })()}
+
+                  {historySku === product.sku && (
+                    <div className="mt-3 border-t pt-3">
+                      <AuditHistory entityType="product" entityId={product.sku} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -1,18 +1,21 @@
 'use client';
 
-// TODO: Add HR integration
-// - Add webshop selector dropdown (Welmora.ch / Welmora.hr)
-// - Fetch data from /api/shopping-hr/[date] when HR selected
-// - Support unified view showing orders from both webshops
-// - Add webshop indicator badges on shopping items
-
 import { useDateContext } from '@/components/shared/DateContext';
+import { useDayUpdates, useLiveUpdatesContext } from '@/components/shared/LiveUpdatesContext';
+import PrintDocuments from '@/components/shared/PrintDocuments';
+import { useStoreContext } from '@/components/shared/StoreContext';
+import StoreSelector, { StoreBadge } from '@/components/shared/StoreSelector';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { DailySnapshot, ShoppingItem as WooShoppingItem } from '@/types/woocommerce-api';
+import {
+  DailySnapshot,
+  ShoppingProgressLine,
+  StoreId,
+  ShoppingItem as WooShoppingItem,
+} from '@/types/woocommerce-api';
 import { CheckCircle, ShoppingCart } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import Image from 'next/image';
@@ -28,12 +31,35 @@ interface ShoppingItem {
   image?: string;
   category?: string;
   weight?: number;
+  stores?: Partial<Record<StoreId, number>>;
+  purchasedByStore: Partial<Record<StoreId, number>>;
 }
 
+// Apply server-side purchase counts to the items of the current store selection
+const applyProgressLines = (items: ShoppingItem[], lines: ShoppingProgressLine[]) =>
+  items.map(item => {
+    const itemLines = lines.filter(
+      line => line.sku === item.sku && item.stores?.[line.store] !== undefined
+    );
+    if (itemLines.length === 0) {
+      return item;
+    }
+
+    const purchasedByStore = { ...item.purchasedByStore };
+    itemLines.forEach(line => {
+      purchasedByStore[line.store] = line.purchased;
+    });
+    const purchased = Object.values(purchasedByStore).reduce((sum, qty) => sum + (qty || 0), 0);
+
+    return { ...item, purchasedByStore, purchased, completed: purchased >= item.totalNeeded };
+  });
+
 export default function ShoppingPage() {
   const params = useParams();
   const router = useRouter();
   const { selectedDate: globalDate, setSelectedDate: setGlobalDate } = useDateContext();
+  const { selectedStore } = useStoreContext();
+  const { refreshProgress } = useLiveUpdatesContext();
   const t = useTranslations();
   const [shoppingList, setShoppingList] = useState<ShoppingItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -76,13 +102,21 @@ export default function ShoppingPage() {
   const fetchShoppingData = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/shopping/${date}?t=${Date.now()}`);
+      // Start (or resume) the shared progress so purchases are visible on every device
+      const response = await fetch('/api/shopping/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ date, store: selectedStore }),
+      });
 
       if (!response.ok) {
         throw new Error('Failed to fetch shopping data');
       }
 
-      const data: DailySnapshot = await response.json();
+      const result = await response.json();
+      const data: DailySnapshot = result.data.snapshot;
 
       // Convert to shopping list format
       const items: ShoppingItem[] = data.products.map((item: WooShoppingItem) => ({
@@ -94,28 +128,36 @@ export default function ShoppingPage() {
         image: item.image,
         category: item.category || 'Uncategorized',
         weight: item.weight || 0,
+        stores: item.stores,
+        purchasedByStore: {},
       }));
 
-      setShoppingList(items);
+      setShoppingList(applyProgressLines(items, result.data.progress || []));
+      refreshProgress();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
     }
-  }, [date]);
+  }, [date, selectedStore, refreshProgress]);
 
-  // Load state from localStorage or fetch fresh data
+  // Load the shopping list with the purchases stored on the server
   useEffect(() => {
     if (!date) return;
     fetchShoppingData();
   }, [date, fetchShoppingData]);
 
-  // Save state to localStorage whenever shoppingList changes
-  useEffect(() => {
-    if (shoppingList.length > 0) {
-      localStorage.setItem(`shopping-${date}`, JSON.stringify(shoppingList));
+  // Purchases marked on other devices working on the same day
+  useDayUpdates('shopping', lines => {
+    setShoppingList(prev => applyProgressLines(prev, lines));
+  });
+
+  // Orders or products of the selected webshop(s) changed in WooCommerce
+  useDayUpdates('snapshot', change => {
+    if (selectedStore === 'all' || change.store === selectedStore) {
+      fetchShoppingData();
     }
-  }, [shoppingList, date]);
+  });
 
   const triggerHapticFeedback = (type: 'light' | 'medium' = 'light') => {
     if ('vibrator' in navigator || 'vibrate' in navigator) {
@@ -124,21 +166,50 @@ export default function ShoppingPage() {
     }
   };
 
-  const toggleItemCompleted = (sku: string) => {
-    triggerHapticFeedback('medium');
+  const setItemCompleted = (sku: string, completed: boolean) => {
     setShoppingList(prev =>
       prev.map(item =>
         item.sku === sku
           ? {
               ...item,
-              completed: !item.completed,
-              purchased: !item.completed ? item.totalNeeded : 0,
+              completed,
+              purchased: completed ? item.totalNeeded : 0,
             }
           : item
       )
     );
   };
 
+  const toggleItemCompleted = async (sku: string) => {
+    const item = shoppingList.find(item => item.sku === sku);
+    if (!item) return;
+
+    triggerHapticFeedback('medium');
+    const completed = !item.completed;
+    setItemCompleted(sku, completed);
+
+    try {
+      // Send the wanted state rather than a toggle so taps from several devices agree
+      const response = await fetch(`/api/shopping/sessions/${date}/purchase`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sku, completed, store: selectedStore }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save purchase');
+      }
+
+      setShoppingList(prev => applyProgressLines(prev, result.data));
+    } catch (error) {
+      console.error('Error saving purchase:', error);
+      setItemCompleted(sku, item.completed);
+    }
+  };
+
   const completedItems = shoppingList.filter(item => item.completed).length;
   const totalItems = shoppingList.length;
   const progressPercentage = totalItems > 0 ? (completedItems / totalItems) * 100 : 0;
@@ -177,6 +248,10 @@ export default function ShoppingPage() {
             <h1 className="text-2xl font-bold text-gray-900 text-center">{t('shopping.title')}</h1>
           </div>
         </div>
+        {/* Webshop selector */}
+        <div className="mb-4">
+          <StoreSelector />
+        </div>
         {/* Calendar */}
         <Card>
           <CardHeader className="pb-3">
@@ -214,6 +289,11 @@ export default function ShoppingPage() {
                 <Badge className="bg-green-600">{t('shopping.shoppingCompleted')}</Badge>
               </div>
             )}
+            {totalItems > 0 && date && (
+              <div className="mt-3">
+                <PrintDocuments date={date} />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -297,6 +377,14 @@ export default function ShoppingPage() {
                                 {item.totalNeeded}x
                               </Badge>
                               <span className="text-xs text-gray-500">SKU: {item.sku}</span>
+                              {selectedStore === 'all' &&
+                                Object.entries(item.stores || {}).map(([store, quantity]) => (
+                                  <StoreBadge
+                                    key={store}
+                                    store={store as StoreId}
+                                    quantity={quantity}
+                                  />
+                                ))}
                             </div>
                           </div>
                         </div>
@@ -0,0 +1,462 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { StickerIndexEntry, StickerVersion } from '@/types/woocommerce-api';
+import { Eye, EyeOff, FileText, Search, Upload } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface MissingSticker {
+  sku: string;
+  name: string;
+  productId: number;
+}
+
+interface StickerDetails {
+  sku: string;
+  sticker: StickerIndexEntry | null;
+  versions: StickerVersion[];
+}
+
+// SKU a file is stored as: its name without .pdf
+function getFileSku(file: File): string | null {
+  const name = file.name.trim();
+  return /\.pdf$/i.test(name) ? name.replace(/\.pdf$/i, '') : null;
+}
+
+export default function StickersPage() {
+  const t = useTranslations('stickers');
+  const [files, setFiles] = useState<File[]>([]);
+  const [sku, setSku] = useState('');
+  const [folder, setFolder] = useState('');
+  const [keepVersion, setKeepVersion] = useState(true);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [stickers, setStickers] = useState<StickerIndexEntry[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [missing, setMissing] = useState<MissingSticker[] | null>(null);
+  const [missingTotal, setMissingTotal] = useState(0);
+  const [isChecking, setIsChecking] = useState(false);
+  const [preview, setPreview] = useState<StickerDetails | null>(null);
+  const [previewVersion, setPreviewVersion] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadCardRef = useRef<HTMLDivElement>(null);
+
+  const loadStickers = useCallback(
+    async (term?: string) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams();
+        if (term) {
+          params.append('search', term);
+        }
+
+        const response = await fetch(`/api/stickers?${params}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || t('loadError'));
+        }
+
+        setStickers(result.data || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('loadError'));
+        console.error('Load stickers error:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [t]
+  );
+
+  const openPreview = useCallback(
+    async (previewSku: string) => {
+      try {
+        const response = await fetch(`/api/stickers/${encodeURIComponent(previewSku)}`);
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || t('loadError'));
+        }
+
+        setPreview(result.data);
+        setPreviewVersion(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t('loadError'));
+      }
+    },
+    [t]
+  );
+
+  // Links from the missing-stickers report open the upload form for one SKU (?sku=...)
+  useEffect(() => {
+    const linkedSku = new URLSearchParams(window.location.search).get('sku');
+
+    if (linkedSku) {
+      setSku(linkedSku);
+      setSearch(linkedSku);
+      loadStickers(linkedSku);
+      uploadCardRef.current?.scrollIntoView({ behavior: 'smooth' });
+    } else {
+      loadStickers();
+    }
+  }, [loadStickers]);
+
+  const addFiles = (added: FileList | null) => {
+    const pdfs = Array.from(added || []).filter(file => /\.pdf$/i.test(file.name));
+    setFiles(prev => [...prev, ...pdfs]);
+    setMessage(null);
+    setError(null);
+  };
+
+  const uploadFiles = async () => {
+    setIsUploading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+      if (files.length === 1 && sku.trim()) {
+        formData.append('sku', sku.trim());
+      }
+      formData.append('folder', folder);
+      formData.append('mode', keepVersion ? 'version' : 'replace');
+
+      const response = await fetch('/api/stickers', { method: 'POST', body: formData });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('uploadError'));
+      }
+
+      const uploaded: Array<{ sku: string; replaced: boolean }> = result.data.uploaded;
+      const failed: Array<{ filename: string; error: string }> = result.data.failed;
+
+      if (uploaded.length > 0) {
+        setMessage(
+          `${t('uploaded')}: ${uploaded
+            .map(item => (item.replaced ? `${item.sku} (${t('replaced')})` : item.sku))
+            .join(', ')}`
+        );
+        const uploadedSkus = uploaded.map(item => item.sku);
+        setMissing(prev => prev && prev.filter(product => !uploadedSkus.includes(product.sku)));
+      }
+      if (failed.length > 0) {
+        setError(
+          `${t('failed')}: ${failed.map(item => `${item.filename} - ${item.error}`).join('; ')}`
+        );
+      }
+
+      setFiles([]);
+      setSku('');
+      await loadStickers(search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('uploadError'));
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const checkMissing = async () => {
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/stickers/check-missing');
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('loadError'));
+      }
+
+      setMissing(result.missingStickers || []);
+      setMissingTotal(result.totalProducts || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadError'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const uploadFor = (missingSku: string) => {
+    setFiles([]);
+    setSku(missingSku);
+    uploadCardRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const previewSrc =
+    preview &&
+    `/api/stickers/${encodeURIComponent(preview.sku)}/file${
+      previewVersion ? `?version=${encodeURIComponent(previewVersion)}` : ''
+    }`;
+
+  return (
+    <div className="h-full overflow-auto p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col items-center pt-8">
+          <div className="flex items-center gap-3">
+            <FileText className="h-6 w-6 text-amber-600" />
+            <h1 className="text-2xl font-bold text-gray-900 text-center">{t('title')}</h1>
+          </div>
+          <p className="text-gray-600 text-center mt-1">{t('description')}</p>
+        </div>
+
+        {/* Upload */}
+        <Card ref={uploadCardRef}>
+          <CardHeader>
+            <CardTitle>{t('upload')}</CardTitle>
+            <CardDescription>{t('uploadDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div
+              className={`flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-center ${
+                isDragging ? 'border-amber-500 bg-amber-50' : 'border-gray-300'
+              }`}
+              onDragOver={e => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={e => {
+                e.preventDefault();
+                setIsDragging(false);
+                addFiles(e.dataTransfer.files);
+              }}
+            >
+              <Upload className="h-6 w-6 text-gray-400" />
+              <p className="text-gray-600">{t('dropFiles')}</p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,application/pdf"
+                multiple
+                className="hidden"
+                onChange={e => addFiles(e.target.files)}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                {t('chooseFiles')}
+              </Button>
+            </div>
+
+            {files.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">
+                  {t('selected')}: {files.length}
+                </p>
+                {files.map((file, index) => (
+                  <div key={`${file.name}-${index}`} className="flex items-center gap-2">
+                    <span className="truncate">{file.name}</span>
+                    <Badge variant="secondary">
+                      {(files.length === 1 && sku.trim()) || getFileSku(file)}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="sku">{t('sku')}</Label>
+                <Input
+                  id="sku"
+                  placeholder={files.length > 1 ? t('skuSingleOnly') : t('skuFromFileName')}
+                  value={sku}
+                  disabled={files.length > 1}
+                  onChange={e => setSku(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="folder">{t('folder')}</Label>
+                <Input
+                  id="folder"
+                  placeholder={t('folderPlaceholder')}
+                  value={folder}
+                  onChange={e => setFolder(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={keepVersion}
+                onChange={e => setKeepVersion(e.target.checked)}
+              />
+              {t('keepVersion')}
+            </label>
+
+            <Button onClick={uploadFiles} disabled={files.length === 0 || isUploading}>
+              <Upload className="h-4 w-4 mr-2" />
+              {isUploading ? t('uploading') : t('uploadButton')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {message && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="pt-6">
+              <p className="text-green-700">{message}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="pt-6">
+              <p className="text-red-600">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Missing stickers report */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('missingTitle')}</CardTitle>
+            <CardDescription>{t('missingDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Button variant="outline" onClick={checkMissing} disabled={isChecking}>
+              {isChecking ? t('checking') : t('checkMissing')}
+            </Button>
+
+            {missing &&
+              (missing.length === 0 ? (
+                <p className="text-green-700">{t('noMissing')}</p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600">
+                    {t('missingCount')}: {missing.length} {t('of')} {missingTotal}
+                  </p>
+                  {missing.map(product => (
+                    <div
+                      key={product.productId}
+                      className="flex items-center justify-between gap-2 border rounded-md px-3 py-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{product.name}</p>
+                        <p className="font-mono text-xs text-gray-500">{product.sku}</p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => uploadFor(product.sku)}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        {t('uploadFor')}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+          </CardContent>
+        </Card>
+
+        {/* Search */}
+        <form
+          className="flex gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            loadStickers(search.trim());
+          }}
+        >
+          <Input
+            placeholder={t('searchPlaceholder')}
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={isLoading}>
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {/* Indexed stickers */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+          </div>
+        ) : stickers.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{t('noStickers')}</p>
+        ) : (
+          <div className="space-y-3">
+            {stickers.map(sticker => (
+              <Card key={sticker.sku}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base font-mono">{sticker.sku}</CardTitle>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        preview?.sku === sticker.sku ? setPreview(null) : openPreview(sticker.sku)
+                      }
+                    >
+                      {preview?.sku === sticker.sku ? (
+                        <EyeOff className="h-4 w-4 mr-2" />
+                      ) : (
+                        <Eye className="h-4 w-4 mr-2" />
+                      )}
+                      {preview?.sku === sticker.sku ? t('hidePreview') : t('preview')}
+                    </Button>
+                  </div>
+                  <CardDescription>
+                    {sticker.path} · {Math.round(sticker.size / 1024)} KB
+                    {sticker.uploadedAt &&
+                      ` · ${t('uploadedAt')} ${new Date(sticker.uploadedAt).toLocaleString()}`}
+                  </CardDescription>
+                </CardHeader>
+                {preview?.sku === sticker.sku && previewSrc && (
+                  <CardContent className="space-y-3">
+                    <iframe
+                      key={previewSrc}
+                      src={previewSrc}
+                      title={sticker.sku}
+                      className="w-full h-96 rounded-md border"
+                    />
+                    <div className="space-y-1 text-sm">
+                      <p className="font-medium">{t('versions')}</p>
+                      {preview.versions.length === 0 ? (
+                        <p className="text-gray-500">{t('noVersions')}</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            variant={previewVersion === null ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setPreviewVersion(null)}
+                          >
+                            {sticker.sku}.pdf
+                          </Button>
+                          {preview.versions.map(version => (
+                            <Button
+                              key={version.name}
+                              variant={previewVersion === version.name ? 'default' : 'outline'}
+                              size="sm"
+                              onClick={() => setPreviewVersion(version.name)}
+                            >
+                              {version.createdAt
+                                ? new Date(version.createdAt).toLocaleString()
+                                : version.name}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useAuth } from '@/components/auth/AuthProvider';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { USER_ROLES, UserRole } from '@/lib/services/auth/permissions';
+import { AppUser } from '@/types/woocommerce-api';
+import { KeyRound, Trash2, UserPlus, Users } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useCallback, useEffect, useState } from 'react';
+
+const emptyForm: { username: string; password: string; role: UserRole } = {
+  username: '',
+  password: '',
+  role: 'packer',
+};
+
+export default function UsersPage() {
+  const t = useTranslations('users');
+  const { username: currentUsername } = useAuth();
+  const [users, setUsers] = useState<AppUser[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/users');
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('loadError'));
+      }
+
+      setUsers(result.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loadError'));
+      console.error('Load users error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Shared by create, update and delete: send, then reload the list
+  const submit = async (url: string, method: string, body?: object): Promise<boolean> => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body && JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || t('saveError'));
+      }
+
+      await loadUsers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('saveError'));
+      return false;
+    }
+  };
+
+  const createUser = async () => {
+    if (await submit('/api/users', 'POST', form)) {
+      setMessage(`${t('created')}: ${form.username.trim().toLowerCase()}`);
+      setForm(emptyForm);
+    }
+  };
+
+  const changePassword = async (user: AppUser) => {
+    const password = window.prompt(`${t('newPasswordPrompt')} ${user.username}`);
+    if (!password) return;
+
+    if (await submit(`/api/users/${user.id}`, 'PATCH', { password })) {
+      setMessage(t('passwordChanged'));
+    }
+  };
+
+  const changeRole = async (user: AppUser, role: UserRole) => {
+    if (await submit(`/api/users/${user.id}`, 'PATCH', { role })) {
+      setMessage(`${t('roleChanged')}: ${user.username} · ${t(`roles.${role}`)}`);
+    }
+  };
+
+  const deleteUser = async (user: AppUser) => {
+    if (!window.confirm(`${t('deleteConfirm')} ${user.username}?`)) return;
+    await submit(`/api/users/${user.id}`, 'DELETE');
+  };
+
+  return (
+    <div className="h-full overflow-auto p-4 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col items-center pt-8">
+          <div className="flex items-center gap-3">
+            <Users className="h-6 w-6 text-amber-600" />
+            <h1 className="text-2xl font-bold text-gray-900 text-center">{t('title')}</h1>
+          </div>
+          <p className="text-gray-600 text-center mt-1">{t('description')}</p>
+        </div>
+
+        {/* Add user */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('addUser')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="new-username">{t('username')}</Label>
+                <Input
+                  id="new-username"
+                  autoComplete="off"
+                  value={form.username}
+                  onChange={e => setForm({ ...form, username: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-password">{t('password')}</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder={t('passwordHint')}
+                  value={form.password}
+                  onChange={e => setForm({ ...form, password: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-role">{t('role')}</Label>
+                <select
+                  id="new-role"
+                  className="w-full h-9 rounded-md border px-3 text-sm"
+                  value={form.role}
+                  onChange={e => setForm({ ...form, role: e.target.value as UserRole })}
+                >
+                  {USER_ROLES.map(role => (
+                    <option key={role} value={role}>
+                      {t(`roles.${role}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">{t(`roleDescriptions.${form.role}`)}</p>
+            <Button onClick={createUser} disabled={!form.username.trim() || !form.password}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              {t('create')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {message && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="pt-6">
+              <p className="text-green-700">{message}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="pt-6">
+              <p className="text-red-600">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Users */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+          </div>
+        ) : users.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{t('noUsers')}</p>
+        ) : (
+          <div className="space-y-3">
+            {users.map(user => {
+              const isCurrentUser = user.username === currentUsername;
+
+              return (
+                <Card key={user.id}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="text-base">
+                        {user.username}
+                        {isCurrentUser && ` (${t('you')})`}
+                      </CardTitle>
+                      <Badge variant={user.disabled ? 'destructive' : 'default'}>
+                        {user.disabled ? t('disabled') : t('active')}
+                      </Badge>
+                    </div>
+                    <CardDescription>
+                      {t(`roles.${user.role}`)} · {t('lastLogin')}:{' '}
+                      {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : t('never')}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => changePassword(user)}>
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      {t('setPassword')}
+                    </Button>
+                    {!isCurrentUser && (
+                      <>
+                        <select
+                          aria-label={t('role')}
+                          className="h-8 rounded-md border px-2 text-sm"
+                          value={user.role}
+                          onChange={e => changeRole(user, e.target.value as UserRole)}
+                        >
+                          {USER_ROLES.map(role => (
+                            <option key={role} value={role}>
+                              {t(`roles.${role}`)}
+                            </option>
+                          ))}
+                        </select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            submit(`/api/users/${user.id}`, 'PATCH', { disabled: !user.disabled })
+                          }
+                        >
+                          {user.disabled ? t('enable') : t('disable')}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteUser(user)}>
+                          <Trash2 className="h-4 w-4 mr-2 text-red-600" />
+                          {t('delete')}
+                        </Button>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState } from 'react';
+import type { UserRole } from '@/lib/services/auth/permissions';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (username: string, password: string) => boolean;
-  logout: () => void;
+  username: string | null;
+  role: UserRole | null;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -18,95 +21,42 @@ export function useAuth() {
   return context;
 }
 
-// PWA-compatible storage functions
-const getAuthStatus = (): boolean => {
-  try {
-    // Try sessionStorage first (better security)
-    const sessionAuth = sessionStorage.getItem('welmora_auth');
-    if (sessionAuth === 'authenticated') {
-      return true;
-    }
-
-    // Fallback to localStorage for PWA persistence (iOS compatibility)
-    const localAuth = localStorage.getItem('welmora_auth_persistent');
-    if (localAuth === 'authenticated') {
-      // Restore to sessionStorage for current session
-      sessionStorage.setItem('welmora_auth', 'authenticated');
-      return true;
-    }
-
-    return false;
-  } catch (error) {
-    console.warn('Storage access failed:', error);
-    return false;
-  }
-};
+interface SessionUser {
+  username: string;
+  role: UserRole;
+}
 
-const setAuthStatus = (authenticated: boolean) => {
+// The session lives in an HTTP-only cookie - the server says who is signed in
+async function fetchSessionUser(): Promise<SessionUser | null> {
   try {
-    if (authenticated) {
-      sessionStorage.setItem('welmora_auth', 'authenticated');
-      // For PWA: also store in localStorage with expiration
-      const expirationTime = Date.now() + 7 * 24 * 60 * 60 * 1000; // 7 days
-      localStorage.setItem('welmora_auth_persistent', 'authenticated');
-      localStorage.setItem('welmora_auth_expiry', expirationTime.toString());
-    } else {
-      sessionStorage.removeItem('welmora_auth');
-      localStorage.removeItem('welmora_auth_persistent');
-      localStorage.removeItem('welmora_auth_expiry');
-    }
-  } catch (error) {
-    console.warn('Storage write failed:', error);
-  }
-};
+    const response = await fetch('/api/auth/session', { cache: 'no-store' });
+    if (!response.ok) return null;
 
-const checkAuthExpiry = (): boolean => {
-  try {
-    const expiryTime = localStorage.getItem('welmora_auth_expiry');
-    if (!expiryTime) return false;
-
-    const expiry = parseInt(expiryTime, 10);
-    if (Date.now() > expiry) {
-      // Expired, clean up
-      localStorage.removeItem('welmora_auth_persistent');
-      localStorage.removeItem('welmora_auth_expiry');
-      return false;
-    }
-    return true;
-  } catch {
-    return false;
+    const result = await response.json();
+    return result.success ? { username: result.data.username, role: result.data.role } : null;
+  } catch (error) {
+    console.warn('Session check failed:', error);
+    return null;
   }
-};
+}
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    // Check authentication status with PWA compatibility
-    const checkAuth = () => {
-      // First check if persistent auth is expired
-      if (!checkAuthExpiry()) {
-        setIsAuthenticated(false);
-        setIsLoading(false);
-        return;
-      }
-
-      // Check current auth status
-      const authStatus = getAuthStatus();
-      setIsAuthenticated(authStatus);
-      setIsLoading(false);
-    };
+  const checkSession = useCallback(async () => {
+    setUser(await fetchSessionUser());
+    setIsLoading(false);
+  }, []);
 
-    checkAuth();
+  useEffect(() => {
+    checkSession();
 
-    // PWA visibility change handler (for iOS PWA background/foreground)
+    // PWA visibility change handler (for iOS PWA background/foreground):
+    // recheck - and refresh - the session when the app becomes visible again
     const handleVisibilityChange = () => {
       if (!document.hidden) {
-        // App became visible, recheck auth status
-        if (!checkAuthExpiry()) {
-          setIsAuthenticated(false);
-        }
+        checkSession();
       }
     };
 
@@ -115,24 +65,38 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => {
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, []);
-
-  const login = (username: string, password: string): boolean => {
-    // Simple authentication check
-    const validUser = process.env.NEXT_PUBLIC_AUTH_USER || 'admin';
-    const validPassword = process.env.NEXT_PUBLIC_AUTH_PASSWORD || 'Welmora2025!?';
+  }, [checkSession]);
+
+  const login = async (username: string, password: string): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        return false;
+      }
 
-    if (username === validUser && password === validPassword) {
-      setIsAuthenticated(true);
-      setAuthStatus(true);
+      setUser({ username: result.data.username, role: result.data.role });
       return true;
+    } catch (error) {
+      console.error('Login failed:', error);
+      return false;
     }
-    return false;
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    setAuthStatus(false);
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.warn('Logout request failed:', error);
+    }
+    setUser(null);
   };
 
   if (isLoading) {
@@ -144,7 +108,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated: !!user,
+        username: user?.username || null,
+        role: user?.role || null,
+        login,
+        logout,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -21,7 +21,7 @@ export default function LoginForm() {
     setIsLoading(true);
     setError('');
 
-    const success = login(username, password);
+    const success = await login(username, password);
 
     if (!success) {
       setError(t('invalidCredentials'));
@@ -0,0 +1,105 @@
+'use client';
+
+import { formatPriceWithConversion } from '@/lib/utils/currency';
+import { PriceHistoryEntry } from '@/types/woocommerce-api';
+import { useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+
+const WIDTH = 240;
+const HEIGHT = 80;
+const PADDING = 6;
+
+// Competitor price of a product over time, from the price history (scrapes without a price are left out)
+export default function PriceHistoryChart({ sku, source }: { sku: string; source: string }) {
+  const t = useTranslations('products.priceHistory');
+  const [entries, setEntries] = useState<PriceHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ sku, source });
+
+    fetch(`/api/products/price-history?${params}`)
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || t('loadError'));
+        }
+        setEntries(result.data);
+      })
+      .catch(err => {
+        console.error('Error loading price history:', err);
+        setError(err instanceof Error ? err.message : t('loadError'));
+      });
+  }, [sku, source, t]);
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+  if (entries === null) {
+    return <p className="text-xs text-gray-500">{t('loading')}</p>;
+  }
+
+  const points = entries.filter(entry => entry.status === 'found' && entry.price !== undefined);
+  if (points.length === 0) {
+    return <p className="text-xs text-gray-500">{t('noData')}</p>;
+  }
+
+  const times = points.map(point => new Date(point.scrapedAt).getTime());
+  const prices = points.map(point => point.price!);
+  const [minTime, maxTime] = [Math.min(...times), Math.max(...times)];
+  const [minPrice, maxPrice] = [Math.min(...prices), Math.max(...prices)];
+
+  // A single scrape or a flat price is drawn in the middle
+  const x = (time: number) =>
+    maxTime === minTime
+      ? WIDTH / 2
+      : PADDING + ((time - minTime) / (maxTime - minTime)) * (WIDTH - 2 * PADDING);
+  const y = (price: number) =>
+    maxPrice === minPrice
+      ? HEIGHT / 2
+      : HEIGHT - PADDING - ((price - minPrice) / (maxPrice - minPrice)) * (HEIGHT - 2 * PADDING);
+
+  const coordinates = points.map((point, index) => ({
+    point,
+    cx: x(times[index]),
+    cy: y(prices[index]),
+  }));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>
+          {t('min')}: {formatPriceWithConversion(minPrice, 'EUR')}
+        </span>
+        <span>
+          {t('max')}: {formatPriceWithConversion(maxPrice, 'EUR')}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-20 bg-gray-50 rounded"
+        role="img"
+        aria-label={t('title')}
+      >
+        <polyline
+          fill="none"
+          stroke="#d97706"
+          strokeWidth={1.5}
+          points={coordinates.map(({ cx, cy }) => `${cx},${cy}`).join(' ')}
+        />
+        {coordinates.map(({ point, cx, cy }) => (
+          <circle key={point.scrapedAt} cx={cx} cy={cy} r={2.5} fill="#b45309">
+            <title>
+              {new Date(point.scrapedAt).toLocaleDateString()}:{' '}
+              {formatPriceWithConversion(point.price!, 'EUR')}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{new Date(minTime).toLocaleDateString()}</span>
+        <span>{new Date(maxTime).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { AuditEntry, StoreId } from '@/types/woocommerce-api';
+import { useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '–';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Changed fields of an audit entry, one "field: before → after" line each
+export function AuditChanges({ entry }: { entry: AuditEntry }) {
+  return (
+    <ul className="font-mono text-xs text-gray-600">
+      {Object.keys(entry.after || {}).map(key => (
+        <li key={key} className="break-all">
+          {key}: {formatValue(entry.before?.[key])} → {formatValue(entry.after?.[key])}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Change history of one product (by SKU) or order (by ID) from the audit log
+export default function AuditHistory({
+  entityType,
+  entityId,
+  store,
+}: {
+  entityType: AuditEntry['entityType'];
+  entityId: string | number;
+  store?: StoreId;
+}) {
+  const t = useTranslations('audit');
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ entityType, entityId: String(entityId), limit: '20' });
+    if (store) {
+      params.append('store', store);
+    }
+
+    fetch(`/api/audit?${params}`)
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || t('loadError'));
+        }
+        setEntries(result.data);
+      })
+      .catch(err => {
+        console.error('Error loading audit history:', err);
+        setError(err instanceof Error ? err.message : t('loadError'));
+      });
+  }, [entityType, entityId, store, t]);
+
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-semibold text-gray-700">{t('changeHistory')}</h4>
+      {error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : entries === null ? (
+        <p className="text-xs text-gray-500">{t('loading')}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-gray-500">{t('noChanges')}</p>
+      ) : (
+        <ul className="space-y-2 max-h-48 overflow-auto">
+          {entries.map(entry => (
+            <li key={entry.id} className="text-xs">
+              <div className="flex justify-between gap-2 text-gray-500">
+                <span className="font-medium text-gray-800">{t(`actions.${entry.action}`)}</span>
+                <span className="text-right">
+                  {new Date(entry.createdAt).toLocaleString()} · {entry.actor}
+                </span>
+              </div>
+              <AuditChanges entry={entry} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
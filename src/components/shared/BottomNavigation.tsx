@@ -4,13 +4,28 @@ import { PackageOpen, Scale, ShoppingCart } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import { usePathname, useRouter } from 'next/navigation';
 import { useDateContext } from './DateContext';
+import { useLiveUpdatesContext } from './LiveUpdatesContext';
+
+// Open work counter shown on top of a navigation icon
+function NavBadge({ count }: { count?: number }) {
+  if (!count) return null;
+  return (
+    <span className="absolute -top-2 -right-3 min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-600 text-white text-[10px] font-bold flex items-center justify-center">
+      {count}
+    </span>
+  );
+}
 
 export default function BottomNavigation() {
   const router = useRouter();
   const pathname = usePathname();
   const { selectedDate } = useDateContext();
+  const { progress } = useLiveUpdatesContext();
   const t = useTranslations('navigation');
 
+  // Only show counts that belong to the selected day
+  const dayProgress = progress?.date === selectedDate ? progress : null;
+
   const isActive = (path: string) => {
     if (path === '/') return pathname === '/';
     return pathname.startsWith(path);
@@ -39,7 +54,10 @@ export default function BottomNavigation() {
               : 'text-gray-600 hover:bg-gray-50 active:bg-gray-100'
           }`}
         >
-          <ShoppingCart className="h-5 w-5 mb-1" />
+          <div className="relative">
+            <ShoppingCart className="h-5 w-5 mb-1" />
+            <NavBadge count={dayProgress?.shopping.remaining} />
+          </div>
           <span className="text-xs font-medium">{t('shopping')}</span>
         </button>
 
@@ -52,7 +70,10 @@ export default function BottomNavigation() {
               : 'text-gray-600 hover:bg-gray-50 active:bg-gray-100'
           }`}
         >
-          <PackageOpen className="h-5 w-5 mb-1" />
+          <div className="relative">
+            <PackageOpen className="h-5 w-5 mb-1" />
+            <NavBadge count={dayProgress?.packing.remaining} />
+          </div>
           <span className="text-xs font-medium">{t('packing')}</span>
         </button>
 
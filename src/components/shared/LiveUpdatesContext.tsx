@@ -0,0 +1,136 @@
+'use client';
+import { supabase } from '@/lib/api/supabase/client';
+import { getDayChannelName } from '@/lib/api/supabase/realtime';
+import { DayProgress, DayUpdatePayloads } from '@/types/woocommerce-api';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { useDateContext } from './DateContext';
+import { useStoreContext } from './StoreContext';
+
+type DayUpdateEvent = keyof DayUpdatePayloads;
+
+interface DayUpdateListener {
+  event: DayUpdateEvent;
+  handler: (payload: DayUpdatePayloads[DayUpdateEvent]) => void;
+}
+
+const DAY_UPDATE_EVENTS: DayUpdateEvent[] = ['packing', 'shopping', 'snapshot'];
+
+export const LiveUpdatesContext = createContext<{
+  progress: DayProgress | null;
+  refreshProgress: () => void;
+  subscribe: (listener: DayUpdateListener) => () => void;
+}>({
+  progress: null,
+  refreshProgress: () => {},
+  subscribe: () => () => {},
+});
+
+/**
+ * Keeps every device working on the same day in sync
+ * Listens on the day's realtime channel and keeps the open-work counts for the navigation badges
+ */
+export function LiveUpdatesProvider({ children }: { children: ReactNode }) {
+  const { selectedDate } = useDateContext();
+  const { selectedStore } = useStoreContext();
+  const [progress, setProgress] = useState<DayProgress | null>(null);
+  const listenersRef = useRef(new Set<DayUpdateListener>());
+
+  const refreshProgress = useCallback(async () => {
+    if (!selectedDate) return;
+    try {
+      const response = await fetch(
+        `/api/progress/${selectedDate}?store=${selectedStore}&t=${Date.now()}`
+      );
+      if (!response.ok) return;
+
+      const result = await response.json();
+      setProgress(result.data || null);
+    } catch (error) {
+      console.error('Error fetching day progress:', error);
+    }
+  }, [selectedDate, selectedStore]);
+
+  // Keep the latest refresh in a ref so switching stores doesn't resubscribe the channel
+  const refreshProgressRef = useRef(refreshProgress);
+  useEffect(() => {
+    refreshProgressRef.current = refreshProgress;
+    refreshProgress();
+  }, [refreshProgress]);
+
+  useEffect(() => {
+    if (!selectedDate) return;
+
+    let channel: RealtimeChannel | null = null;
+    try {
+      channel = supabase.channel(getDayChannelName(selectedDate));
+      DAY_UPDATE_EVENTS.forEach(event => {
+        channel!.on('broadcast', { event }, ({ payload }) => {
+          listenersRef.current.forEach(listener => {
+            if (listener.event === event) {
+              listener.handler(payload);
+            }
+          });
+          refreshProgressRef.current();
+        });
+      });
+      channel.subscribe();
+    } catch (error) {
+      // Without realtime config every device still works, just without live updates
+      console.error('Realtime updates unavailable:', error);
+    }
+
+    return () => {
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+    };
+  }, [selectedDate]);
+
+  const subscribe = useCallback((listener: DayUpdateListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <LiveUpdatesContext.Provider value={{ progress, refreshProgress, subscribe }}>
+      {children}
+    </LiveUpdatesContext.Provider>
+  );
+}
+
+export function useLiveUpdatesContext() {
+  return useContext(LiveUpdatesContext);
+}
+
+// Run a handler for every update of the given kind broadcast for the selected day
+export function useDayUpdates<E extends DayUpdateEvent>(
+  event: E,
+  handler: (payload: DayUpdatePayloads[E]) => void
+) {
+  const { subscribe } = useLiveUpdatesContext();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(
+    () =>
+      subscribe({
+        event,
+        handler: payload => handlerRef.current(payload as DayUpdatePayloads[E]),
+      }),
+    [event, subscribe]
+  );
+}
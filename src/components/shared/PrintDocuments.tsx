@@ -0,0 +1,41 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { FileText, Printer } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+import { ReactNode } from 'react';
+import { useStoreContext } from './StoreContext';
+
+// Downloads of the printable documents of a day for the selected webshop(s)
+export default function PrintDocuments({ date, children }: { date: string; children?: ReactNode }) {
+  const { selectedStore } = useStoreContext();
+  const locale = useLocale();
+  const t = useTranslations('documents');
+  const query = `store=${selectedStore}&locale=${locale}`;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      <Button variant="outline" size="sm" asChild>
+        <a
+          href={`/api/documents/${date}/pick-list?${query}`}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          <FileText className="mr-2 h-4 w-4" />
+          {t('downloadPickList')}
+        </a>
+      </Button>
+      <Button variant="outline" size="sm" asChild>
+        <a
+          href={`/api/documents/${date}/packing-slips?${query}`}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          <Printer className="mr-2 h-4 w-4" />
+          {t('downloadPackingSlips')}
+        </a>
+      </Button>
+      {children}
+    </div>
+  );
+}
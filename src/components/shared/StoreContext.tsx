@@ -0,0 +1,24 @@
+'use client';
+import { StoreSelection } from '@/types/woocommerce-api';
+import { createContext, ReactNode, useContext, useState } from 'react';
+
+export const StoreContext = createContext<{
+  selectedStore: StoreSelection;
+  setSelectedStore: (store: StoreSelection) => void;
+}>({
+  selectedStore: 'ch',
+  setSelectedStore: () => {},
+});
+
+export function StoreProvider({ children }: { children: ReactNode }) {
+  const [selectedStore, setSelectedStore] = useState<StoreSelection>('ch');
+  return (
+    <StoreContext.Provider value={{ selectedStore, setSelectedStore }}>
+      {children}
+    </StoreContext.Provider>
+  );
+}
+
+export function useStoreContext() {
+  return useContext(StoreContext);
+}
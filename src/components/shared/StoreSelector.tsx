@@ -0,0 +1,47 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { StoreId, StoreSelection } from '@/types/woocommerce-api';
+import { useTranslations } from 'next-intl';
+import { useStoreContext } from './StoreContext';
+
+const storeOptions: StoreSelection[] = ['ch', 'hr', 'all'];
+
+const storeBadgeColors: Record<StoreId, string> = {
+  ch: 'bg-red-50 text-red-700 border-red-200',
+  hr: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+// Small badge marking which webshop an order or item belongs to
+export function StoreBadge({ store, quantity }: { store: StoreId; quantity?: number }) {
+  return (
+    <Badge variant="outline" className={`text-xs ${storeBadgeColors[store]}`}>
+      {store.toUpperCase()}
+      {quantity !== undefined && ` ${quantity}x`}
+    </Badge>
+  );
+}
+
+// Webshop selector (Welmora.ch / Welmora.hr / merged view)
+export default function StoreSelector() {
+  const { selectedStore, setSelectedStore } = useStoreContext();
+  const t = useTranslations('stores');
+
+  return (
+    <div className="flex justify-center gap-1 rounded-lg bg-gray-100 p-1" title={t('selectStore')}>
+      {storeOptions.map(store => (
+        <button
+          key={store}
+          onClick={() => setSelectedStore(store)}
+          className={`flex-1 rounded-md px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer ${
+            selectedStore === store
+              ? 'bg-white text-amber-700 shadow-sm'
+              : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {t(store)}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.JOB_RUNNER === 'local') {
+    const { startLocalJobRunner } = await import('@/lib/services/jobs/runner');
+    startLocalJobRunner();
+  }
+}
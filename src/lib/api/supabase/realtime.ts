@@ -0,0 +1,33 @@
+import { DayUpdatePayloads } from '@/types/woocommerce-api';
+import { getSupabaseServiceClient } from './client';
+
+// Realtime channel shared by every device working on the same day
+export function getDayChannelName(date: string): string {
+  return `day-${date}`;
+}
+
+/**
+ * Broadcast a progress change to all devices subscribed to the day's channel
+ * Sent from the server after the change is stored, so every device receives the same state.
+ * Failures are logged only - clients still get the result from the API response.
+ */
+export async function broadcastDayUpdate<E extends keyof DayUpdatePayloads>(
+  date: string,
+  event: E,
+  payload: DayUpdatePayloads[E]
+): Promise<void> {
+  try {
+    const supabase = getSupabaseServiceClient();
+    const channel = supabase.channel(getDayChannelName(date));
+
+    // Not subscribed, so supabase-js delivers the broadcast over HTTP
+    const result = await channel.send({ type: 'broadcast', event, payload });
+    await supabase.removeChannel(channel);
+
+    if (result !== 'ok') {
+      console.error(`Realtime broadcast ${event} for ${date} failed:`, result);
+    }
+  } catch (error) {
+    console.error(`Realtime broadcast ${event} for ${date} failed:`, error);
+  }
+}
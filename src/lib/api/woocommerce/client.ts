@@ -1,21 +1,48 @@
-import { DailySnapshot, Package, ShoppingItem } from '@/types/woocommerce-api';
+import { findSkuByBarcode } from '@/lib/services/barcodeMappings';
+import { getCatalogProductsByIds } from '@/lib/services/productCatalog';
+import { findBestMatches, ScanSource, validateScannedCode } from '@/lib/utils/barcodeMatching';
+import { getStoreConfig } from '@/lib/api/woocommerce/stores';
+import { getOrderWorkday, getWorkdayConfig, getWorkdayWindow } from '@/lib/api/woocommerce/workday';
+import { DailySnapshot, Package, ShoppingItem, StoreId } from '@/types/woocommerce-api';
 import WooCommerceRestApi from '@woocommerce/woocommerce-rest-api';
 
-// WooCommerce configuration - with fallback for build time
-const WooCommerce = new WooCommerceRestApi({
-  url: process.env.WOOCOMMERCE_URL || 'https://welmora.ch',
-  consumerKey: process.env.WOOCOMMERCE_CONSUMER_KEY || 'build-time-fallback',
-  consumerSecret: process.env.WOOCOMMERCE_CONSUMER_SECRET || 'build-time-fallback',
-  version: 'wc/v3',
-});
+// One REST client per webshop, created on first use
+const clients = new Map<StoreId, WooCommerceRestApi>();
+
+// Get the WooCommerce client for a webshop - with fallback credentials for build time
+export function getWooCommerceClient(store: StoreId = 'ch'): WooCommerceRestApi {
+  let client = clients.get(store);
+
+  if (!client) {
+    const config = getStoreConfig(store);
+    client = new WooCommerceRestApi({
+      url: config.url,
+      consumerKey: config.consumerKey,
+      consumerSecret: config.consumerSecret,
+      version: 'wc/v3',
+    });
+    clients.set(store, client);
+  }
+
+  return client;
+}
+
+// Default client for the primary store (Welmora.ch)
+const WooCommerce = getWooCommerceClient('ch');
 
 export default WooCommerce;
 
+// Package IDs include the store so orders with the same ID in both webshops don't collide
+export function getPackageId(store: StoreId, orderId: number): string {
+  return `package-${store}-${orderId}`;
+}
+
 // Interfaces for WooCommerce data structures
 interface WooCommerceOrder {
   id: number;
   number?: string;
   date_created: string;
+  date_created_gmt?: string;
   status: string;
   total: string;
   shipping_total: string;
@@ -51,6 +78,7 @@ interface WooCommerceOrder {
     total: string;
   }>;
   customer_note?: string;
+  meta_data?: Array<{ id?: number; key: string; value: unknown }>;
 }
 
 interface WooCommerceLineItem {
@@ -71,6 +99,7 @@ interface WooCommerceProduct {
   sku: string;
   price: string;
   weight?: string;
+  global_unique_id?: string; // GTIN/EAN field (WooCommerce 9.2+)
   images: Array<{ src: string }>;
   categories?: Array<{ name: string }>;
 }
@@ -94,17 +123,119 @@ function isArrayData(data: unknown): data is unknown[] {
   return Array.isArray(data);
 }
 
+// WooCommerce caps per_page at 100
+const MAX_PER_PAGE = 100;
+const MAX_RATE_LIMIT_RETRIES = 5;
+const RATE_LIMIT_BASE_DELAY_MS = 1000;
+
+type WooCommerceQuery = Record<string, unknown>;
+
+interface WooCommerceHttpError {
+  response?: { status?: number; headers?: Record<string, string> };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Wait time for a rate limited request - Retry-After (seconds or HTTP date), else exponential backoff
+function getRetryDelay(headers: Record<string, string> | undefined, attempt: number): number {
+  const retryAfter = headers?.['retry-after'];
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const retryAt = Date.parse(retryAfter);
+    if (!Number.isNaN(retryAt)) {
+      return Math.max(0, retryAt - Date.now());
+    }
+  }
+
+  return RATE_LIMIT_BASE_DELAY_MS * 2 ** attempt;
+}
+
+// GET with retries on 429 / 503 responses
+async function getWithRetry(api: WooCommerceRestApi, endpoint: string, params: WooCommerceQuery) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await api.get(endpoint, params);
+    } catch (error) {
+      const status = (error as WooCommerceHttpError).response?.status;
+      if ((status !== 429 && status !== 503) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw error;
+      }
+
+      const delay = getRetryDelay((error as WooCommerceHttpError).response?.headers, attempt);
+      console.warn(`WooCommerce ${endpoint} rate limited (${status}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Iterate every page of a WooCommerce collection (products, orders, ...).
+ * Follows x-wp-totalpages, falls back to stopping on a short page when the header is missing,
+ * and retries rate limited requests.
+ */
+export async function* paginateWooCommerce<T>(
+  endpoint: string,
+  params: WooCommerceQuery = {},
+  store: StoreId = 'ch'
+): AsyncGenerator<T[]> {
+  const api = getWooCommerceClient(store);
+  const perPage = Math.min(Number(params.per_page) || MAX_PER_PAGE, MAX_PER_PAGE);
+  let totalPages: number | undefined;
+
+  for (let page = 1; totalPages === undefined || page <= totalPages; page++) {
+    const response = await getWithRetry(api, endpoint, { ...params, per_page: perPage, page });
+    const items = isArrayData(response.data) ? (response.data as T[]) : [];
+
+    const headerPages = parseInt(response.headers?.['x-wp-totalpages'] ?? '', 10);
+    if (!Number.isNaN(headerPages)) {
+      totalPages = headerPages;
+    } else if (items.length < perPage) {
+      totalPages = page;
+    }
+
+    if (items.length === 0) {
+      return;
+    }
+
+    yield items;
+  }
+}
+
+// Fetch all pages of a WooCommerce collection into one array
+export async function fetchAllWooCommercePages<T>(
+  endpoint: string,
+  params: WooCommerceQuery = {},
+  store: StoreId = 'ch'
+): Promise<T[]> {
+  const items: T[] = [];
+
+  for await (const page of paginateWooCommerce<T>(endpoint, params, store)) {
+    items.push(...page);
+  }
+
+  return items;
+}
+
 // Test connection function
-export async function testWooCommerceConnection(): Promise<WooCommerceApiResponse<boolean>> {
+export async function testWooCommerceConnection(
+  store: StoreId = 'ch'
+): Promise<WooCommerceApiResponse<boolean>> {
   try {
+    const config = getStoreConfig(store);
+
     console.log('Testing WooCommerce connection with config:', {
-      url: process.env.WOOCOMMERCE_URL,
-      hasKey: !!process.env.WOOCOMMERCE_CONSUMER_KEY,
-      hasSecret: !!process.env.WOOCOMMERCE_CONSUMER_SECRET,
+      store,
+      url: config.url,
+      hasKey: config.consumerKey !== 'build-time-fallback',
+      hasSecret: config.consumerSecret !== 'build-time-fallback',
       version: 'wc/v3',
     });
 
-    const response = await WooCommerce.get('products', { per_page: 1 });
+    const response = await getWooCommerceClient(store).get('products', { per_page: 1 });
 
     console.log('WooCommerce test response:', {
       success: true,
@@ -133,7 +264,7 @@ export async function getWooCommerceProducts(params?: {
   status?: string;
 }): Promise<WooCommerceApiResponse<WooCommerceProduct[]>> {
   try {
-    const response = await WooCommerce.get('products', {
+    const response = await getWithRetry(WooCommerce, 'products', {
       page: params?.page || 1,
       per_page: params?.per_page || 20,
       search: params?.search || '',
@@ -160,7 +291,7 @@ export async function getWooCommerceOrders(params?: {
   status?: string;
 }): Promise<WooCommerceApiResponse<WooCommerceOrder[]>> {
   try {
-    const response = await WooCommerce.get('orders', {
+    const response = await getWithRetry(WooCommerce, 'orders', {
       page: params?.page || 1,
       per_page: params?.per_page || 20,
       status: params?.status || 'any',
@@ -186,7 +317,7 @@ export async function getWooCommerceCustomers(params?: {
   search?: string;
 }): Promise<WooCommerceApiResponse<WooCommerceCustomer[]>> {
   try {
-    const response = await WooCommerce.get('customers', {
+    const response = await getWithRetry(WooCommerce, 'customers', {
       page: params?.page || 1,
       per_page: params?.per_page || 20,
       search: params?.search || '',
@@ -208,80 +339,60 @@ export async function getWooCommerceCustomers(params?: {
 // Get orders for a specific date range (for daily snapshot)
 export async function getOrdersByDateRange(
   startDate: string,
-  endDate: string
+  endDate: string,
+  store: StoreId = 'ch'
 ): Promise<WooCommerceApiResponse<WooCommerceOrder[]>> {
   try {
     const isRangeQuery = startDate !== endDate;
+    const workday = getWorkdayConfig();
+    const window = getWorkdayWindow(startDate, endDate, workday);
 
     console.log('Fetching orders from WooCommerce for date range:', {
+      store,
       startDate,
       endDate,
       isRangeQuery,
-      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      statuses: workday.statuses,
+      cutoffTime: workday.cutoffTime,
+      timeZone: workday.timeZone,
+      after: window.after.toISOString(),
+      before: window.before.toISOString(),
     });
 
-    // For single day requests, use more precise filtering
-    if (!isRangeQuery) {
-      // Single day - fetch only PROCESSING orders from that specific date
-      const response = await WooCommerce.get('orders', {
-        after: `${startDate}T00:00:00`,
-        before: `${startDate}T23:59:59`,
-        status: 'processing', // ONLY PROCESSING orders
-        per_page: 50, // Smaller limit for single day
-      });
-
-      const ordersData = isArrayData(response.data) ? (response.data as WooCommerceOrder[]) : [];
-
-      // Filter to ensure exact date match
-      const filteredOrders = ordersData.filter((order: WooCommerceOrder) => {
-        const orderDateOnly = order.date_created.split('T')[0];
-        return orderDateOnly === startDate;
-      });
-
-      console.log('Single day WooCommerce response (PROCESSING only):', {
-        targetDate: startDate,
-        totalFetched: ordersData.length,
-        afterDateFilter: filteredOrders.length,
-        sampleDates: ordersData.slice(0, 3).map(o => ({
-          id: o.id,
-          date_created: o.date_created,
-          date_only: o.date_created.split('T')[0],
-          status: o.status,
-        })),
-      });
-
-      return {
-        success: true,
-        data: filteredOrders,
-        headers: response.headers as Record<string, string>,
-      };
-    }
+    // Fetch the UTC window of the days (a second wider, WooCommerce bounds are exclusive)
+    const ordersData = await fetchAllWooCommercePages<WooCommerceOrder>(
+      'orders',
+      {
+        after: new Date(window.after.getTime() - 1000).toISOString(),
+        before: window.before.toISOString(),
+        dates_are_gmt: true,
+        status: workday.statuses.join(','),
+      },
+      store
+    );
 
-    // Range query (for calendar counts) - fetch PROCESSING orders for calendar
-    const response = await WooCommerce.get('orders', {
-      after: `${startDate}T00:00:00`,
-      before: `${endDate}T23:59:59`,
-      status: 'processing', // ONLY PROCESSING orders for calendar too
-      per_page: 100, // Larger limit for range queries
+    // Keep orders whose day (cutoff and time zone applied) is inside the range
+    const filteredOrders = ordersData.filter((order: WooCommerceOrder) => {
+      const orderDay = getOrderWorkday(order, workday);
+      return orderDay >= startDate && orderDay <= endDate;
     });
 
-    const ordersData = isArrayData(response.data) ? (response.data as WooCommerceOrder[]) : [];
-
-    console.log('Range query WooCommerce response:', {
+    console.log('WooCommerce orders response:', {
       startDate,
       endDate,
       totalFetched: ordersData.length,
-      sampleDates: ordersData.slice(0, 5).map(o => ({
+      afterDateFilter: filteredOrders.length,
+      sampleDates: ordersData.slice(0, 3).map(o => ({
         id: o.id,
-        date_created: o.date_created,
-        date_only: o.date_created.split('T')[0],
+        date_created_gmt: o.date_created_gmt,
+        workday: getOrderWorkday(o, workday),
+        status: o.status,
       })),
     });
 
     return {
       success: true,
-      data: ordersData,
-      headers: response.headers as Record<string, string>,
+      data: filteredOrders,
     };
   } catch (error) {
     console.error('Error fetching orders by date range:', error);
@@ -294,14 +405,15 @@ export async function getOrdersByDateRange(
 
 // Generate daily snapshot for shopping
 export async function generateDailySnapshot(
-  date: string
+  date: string,
+  store: StoreId = 'ch'
 ): Promise<{ success: boolean; data?: DailySnapshot; error?: string }> {
   try {
     // Use the exact date selected by the user
     const selectedDate = date;
 
     // Get orders from the selected date only (00:00 to 23:59)
-    const ordersResult = await getOrdersByDateRange(selectedDate, selectedDate);
+    const ordersResult = await getOrdersByDateRange(selectedDate, selectedDate, store);
 
     if (!ordersResult.success || !ordersResult.data) {
       return {
@@ -322,6 +434,7 @@ export async function generateDailySnapshot(
         if (productMap.has(sku)) {
           const existing = productMap.get(sku)!;
           existing.quantity += item.quantity;
+          existing.stores = { [store]: existing.quantity };
         } else {
           productMap.set(sku, {
             sku,
@@ -331,6 +444,7 @@ export async function generateDailySnapshot(
             image: item.image?.src,
             category: 'Loading...', // Will be updated below
             weight: 0, // Will be updated below
+            stores: { [store]: item.quantity },
           });
         }
       });
@@ -341,42 +455,32 @@ export async function generateDailySnapshot(
 
     if (productIds.size > 0) {
       try {
-        // Fetch products in batches to get category and weight info
+        // Read products of the day from the catalogue mirror to get category and weight info
         const productIdsArray = Array.from(productIds);
-        const batchSize = 20;
 
         console.log('Fetching product details for IDs:', productIdsArray);
 
-        for (let i = 0; i < productIdsArray.length; i += batchSize) {
-          const batch = productIdsArray.slice(i, i + batchSize);
-          const response = await WooCommerce.get('products', {
-            include: batch.join(','),
-            per_page: batchSize,
+        const catalogResult = await getCatalogProductsByIds(store, productIdsArray);
+        if (!catalogResult.success || !catalogResult.data) {
+          throw new Error(catalogResult.error || 'Failed to load product catalogue');
+        }
+        const products = catalogResult.data;
+
+        products.forEach(prod => {
+          const primaryCategory = prod.categories?.[0]?.name || 'Uncategorized';
+          const weight = parseFloat(prod.weight || '0') || 0;
+
+          console.log(`Product ${prod.id} details:`, {
+            categories: prod.categories,
+            primaryCategory,
+            weight,
           });
 
-          if (isArrayData(response.data)) {
-            response.data.forEach((product: unknown) => {
-              const prod = product as {
-                id: number;
-                categories?: Array<{ name: string }>;
-                weight?: string;
-              };
-              const primaryCategory = prod.categories?.[0]?.name || 'Uncategorized';
-              const weight = parseFloat(prod.weight || '0') || 0;
-
-              console.log(`Product ${prod.id} details:`, {
-                categories: prod.categories,
-                primaryCategory,
-                weight,
-              });
-
-              productDetails.set(prod.id, {
-                category: primaryCategory,
-                weight: weight,
-              });
-            });
-          }
-        }
+          productDetails.set(prod.id, {
+            category: primaryCategory,
+            weight: weight,
+          });
+        });
         console.log('Fetched product details:', Object.fromEntries(productDetails));
       } catch (error) {
         console.warn('Failed to fetch product details:', error);
@@ -421,6 +525,7 @@ export async function generateDailySnapshot(
       products: productsArray,
       totalOrders: ordersResult.data.length,
       generatedAt: new Date().toISOString(),
+      stores: [store],
     };
 
     return {
@@ -435,18 +540,201 @@ export async function generateDailySnapshot(
   }
 }
 
+// Merge per-store snapshots into one shopping list, summing quantities by SKU
+export function mergeDailySnapshots(date: string, snapshots: DailySnapshot[]): DailySnapshot {
+  const productMap = new Map<string, ShoppingItem>();
+
+  snapshots.forEach(snapshot => {
+    snapshot.products.forEach(product => {
+      const existing = productMap.get(product.sku);
+
+      if (!existing) {
+        productMap.set(product.sku, { ...product, stores: { ...product.stores } });
+        return;
+      }
+
+      existing.quantity += product.quantity;
+      Object.entries(product.stores || {}).forEach(([store, quantity]) => {
+        const storeId = store as StoreId;
+        existing.stores = {
+          ...existing.stores,
+          [storeId]: (existing.stores?.[storeId] || 0) + (quantity || 0),
+        };
+      });
+    });
+  });
+
+  return {
+    date,
+    products: Array.from(productMap.values()),
+    totalOrders: snapshots.reduce((sum, snapshot) => sum + snapshot.totalOrders, 0),
+    generatedAt: new Date().toISOString(),
+    stores: snapshots.flatMap(snapshot => snapshot.stores || []),
+  };
+}
+
+/**
+ * GTINs of the ordered products from the catalogue mirror, keyed by product id
+ * Products without a GTIN are missing; a catalogue failure gives an empty map, so scan matching
+ * falls back to mapped barcodes and SKUs.
+ */
+export async function getOrderProductGtins(
+  orders: WooCommerceOrder[],
+  store: StoreId
+): Promise<Map<number, string>> {
+  const productGtins = new Map<number, string>();
+  const productIds = [
+    ...new Set(orders.flatMap(order => order.line_items.map(item => item.product_id))),
+  ];
+  if (productIds.length === 0) {
+    return productGtins;
+  }
+
+  const catalogResult = await getCatalogProductsByIds(store, productIds);
+  if (!catalogResult.success || !catalogResult.data) {
+    console.warn('Failed to fetch product GTINs:', catalogResult.error);
+    return productGtins;
+  }
+
+  catalogResult.data.forEach(prod => {
+    if (prod.global_unique_id) {
+      productGtins.set(prod.id, prod.global_unique_id);
+    }
+  });
+  return productGtins;
+}
+
+// Build packages from orders, with product weights and GTINs from the catalogue mirror
+async function buildPackages(orders: WooCommerceOrder[], store: StoreId): Promise<Package[]> {
+  // Collect all product IDs to fetch weights
+  const productIds = new Set<number>();
+  orders.forEach((order: WooCommerceOrder) => {
+    order.line_items.forEach((item: WooCommerceLineItem) => {
+      productIds.add(item.product_id);
+    });
+  });
+
+  // Fetch product details to get weights and GTINs
+  const productWeights = new Map<number, number>();
+  const productGtins = new Map<number, string>();
+  if (productIds.size > 0) {
+    try {
+      const catalogResult = await getCatalogProductsByIds(store, Array.from(productIds));
+      if (!catalogResult.success || !catalogResult.data) {
+        throw new Error(catalogResult.error || 'Failed to load product catalogue');
+      }
+
+      catalogResult.data.forEach(prod => {
+        const weight = parseFloat(prod.weight || '0') || 0;
+        productWeights.set(prod.id, weight);
+        if (prod.global_unique_id) {
+          productGtins.set(prod.id, prod.global_unique_id);
+        }
+      });
+      console.log('Fetched product weights:', Object.fromEntries(productWeights));
+    } catch (error) {
+      console.warn('Failed to fetch product weights:', error);
+    }
+  }
+
+  return orders.map((order: WooCommerceOrder) => {
+    // Calculate total package value
+    const totalValue = order.line_items.reduce(
+      (sum: number, item: WooCommerceLineItem) => sum + parseFloat(item.price) * item.quantity,
+      0
+    );
+
+    // Determine which address to use - prefer shipping if it has a real address
+    const hasShippingAddress =
+      order.shipping?.address_1 &&
+      order.shipping.address_1.trim() !== '' &&
+      order.shipping.address_1.trim() !== order.billing.address_1.trim();
+
+    const shippingAddress = {
+      first_name: hasShippingAddress
+        ? order.shipping?.first_name || order.billing.first_name
+        : order.billing.first_name,
+      last_name: hasShippingAddress
+        ? order.shipping?.last_name || order.billing.last_name
+        : order.billing.last_name,
+      company: hasShippingAddress ? order.shipping?.company : order.billing.company,
+      address_1: hasShippingAddress ? order.shipping?.address_1 : order.billing.address_1,
+      address_2: hasShippingAddress ? order.shipping?.address_2 : order.billing.address_2,
+      city: hasShippingAddress ? order.shipping?.city || order.billing.city : order.billing.city,
+      state: hasShippingAddress ? order.shipping?.state : order.billing.state,
+      postcode: hasShippingAddress
+        ? order.shipping?.postcode || order.billing.postcode
+        : order.billing.postcode,
+      country: hasShippingAddress
+        ? order.shipping?.country || order.billing.country
+        : order.billing.country,
+      phone: hasShippingAddress ? order.shipping?.phone : order.billing.phone,
+    };
+
+    console.log(`Order ${order.id} address logic:`, {
+      hasShippingAddress,
+      shipping_address_1: order.shipping?.address_1,
+      billing_address_1: order.billing.address_1,
+      final_address: shippingAddress.address_1,
+      shipping_city: order.shipping?.city,
+      billing_city: order.billing.city,
+      final_city: shippingAddress.city,
+    });
+
+    return {
+      id: getPackageId(store, order.id),
+      store,
+      orderId: order.id,
+      orderNumber: order.number || `${order.id}`,
+      customerName: `${order.billing.first_name} ${order.billing.last_name}`,
+      customerEmail: order.billing.email,
+      shippingAddress,
+      billingAddress: {
+        first_name: order.billing.first_name,
+        last_name: order.billing.last_name,
+        company: order.billing.company,
+        address_1: order.billing.address_1,
+        address_2: order.billing.address_2,
+        city: order.billing.city,
+        state: order.billing.state,
+        postcode: order.billing.postcode,
+        country: order.billing.country,
+        email: order.billing.email,
+        phone: order.billing.phone,
+      },
+      orderDate: order.date_created,
+      status: 'pending' as const,
+      totalValue,
+      shippingMethod: order.shipping_lines?.[0]?.method_title || 'Standard',
+      orderNotes: order.customer_note,
+      items: order.line_items.map((item: WooCommerceLineItem) => ({
+        sku: item.sku || `product-${item.product_id}`,
+        name: item.name,
+        needed: item.quantity,
+        scanned: 0,
+        price: parseFloat(item.price),
+        image: item.image?.src,
+        productId: item.product_id,
+        weight: productWeights.get(item.product_id) || 0, // Add actual weight
+        gtin: productGtins.get(item.product_id),
+      })),
+    };
+  });
+}
+
 // Get packages for packing (orders as individual packages)
 export async function getPackagesForDate(
-  date: string
+  date: string,
+  store: StoreId = 'ch'
 ): Promise<{ success: boolean; data?: Package[]; error?: string }> {
   try {
     // Use the exact date selected by the user
     const selectedDate = date;
 
-    console.log('Getting packages for date:', selectedDate);
+    console.log('Getting packages for date:', selectedDate, 'store:', store);
 
     // Get orders from the selected date
-    const ordersResult = await getOrdersByDateRange(selectedDate, selectedDate);
+    const ordersResult = await getOrdersByDateRange(selectedDate, selectedDate, store);
 
     if (!ordersResult.success || !ordersResult.data) {
       return {
@@ -465,123 +753,7 @@ export async function getPackagesForDate(
       }))
     );
 
-    // Collect all product IDs to fetch weights
-    const productIds = new Set<number>();
-    ordersResult.data.forEach((order: WooCommerceOrder) => {
-      order.line_items.forEach((item: WooCommerceLineItem) => {
-        productIds.add(item.product_id);
-      });
-    });
-
-    // Fetch product details to get weights
-    const productWeights = new Map<number, number>();
-    if (productIds.size > 0) {
-      try {
-        const productIdsArray = Array.from(productIds);
-        const batchSize = 20;
-
-        for (let i = 0; i < productIdsArray.length; i += batchSize) {
-          const batch = productIdsArray.slice(i, i + batchSize);
-          const response = await WooCommerce.get('products', {
-            include: batch.join(','),
-            per_page: batchSize,
-          });
-
-          if (isArrayData(response.data)) {
-            response.data.forEach((product: unknown) => {
-              const prod = product as WooCommerceProduct;
-              const weight = parseFloat(prod.weight || '0') || 0;
-              productWeights.set(prod.id, weight);
-            });
-          }
-        }
-        console.log('Fetched product weights:', Object.fromEntries(productWeights));
-      } catch (error) {
-        console.warn('Failed to fetch product weights:', error);
-      }
-    }
-
-    const packages: Package[] = ordersResult.data.map((order: WooCommerceOrder) => {
-      // Calculate total package value
-      const totalValue = order.line_items.reduce(
-        (sum: number, item: WooCommerceLineItem) => sum + parseFloat(item.price) * item.quantity,
-        0
-      );
-
-      // Determine which address to use - prefer shipping if it has a real address
-      const hasShippingAddress =
-        order.shipping?.address_1 &&
-        order.shipping.address_1.trim() !== '' &&
-        order.shipping.address_1.trim() !== order.billing.address_1.trim();
-
-      const shippingAddress = {
-        first_name: hasShippingAddress
-          ? order.shipping?.first_name || order.billing.first_name
-          : order.billing.first_name,
-        last_name: hasShippingAddress
-          ? order.shipping?.last_name || order.billing.last_name
-          : order.billing.last_name,
-        company: hasShippingAddress ? order.shipping?.company : order.billing.company,
-        address_1: hasShippingAddress ? order.shipping?.address_1 : order.billing.address_1,
-        address_2: hasShippingAddress ? order.shipping?.address_2 : order.billing.address_2,
-        city: hasShippingAddress ? order.shipping?.city || order.billing.city : order.billing.city,
-        state: hasShippingAddress ? order.shipping?.state : order.billing.state,
-        postcode: hasShippingAddress
-          ? order.shipping?.postcode || order.billing.postcode
-          : order.billing.postcode,
-        country: hasShippingAddress
-          ? order.shipping?.country || order.billing.country
-          : order.billing.country,
-        phone: hasShippingAddress ? order.shipping?.phone : order.billing.phone,
-      };
-
-      console.log(`Order ${order.id} address logic:`, {
-        hasShippingAddress,
-        shipping_address_1: order.shipping?.address_1,
-        billing_address_1: order.billing.address_1,
-        final_address: shippingAddress.address_1,
-        shipping_city: order.shipping?.city,
-        billing_city: order.billing.city,
-        final_city: shippingAddress.city,
-      });
-
-      return {
-        id: `package-${order.id}`,
-        orderId: order.id,
-        orderNumber: order.number || `${order.id}`,
-        customerName: `${order.billing.first_name} ${order.billing.last_name}`,
-        customerEmail: order.billing.email,
-        shippingAddress,
-        billingAddress: {
-          first_name: order.billing.first_name,
-          last_name: order.billing.last_name,
-          company: order.billing.company,
-          address_1: order.billing.address_1,
-          address_2: order.billing.address_2,
-          city: order.billing.city,
-          state: order.billing.state,
-          postcode: order.billing.postcode,
-          country: order.billing.country,
-          email: order.billing.email,
-          phone: order.billing.phone,
-        },
-        orderDate: order.date_created,
-        status: 'pending' as const,
-        totalValue,
-        shippingMethod: order.shipping_lines?.[0]?.method_title || 'Standard',
-        orderNotes: order.customer_note,
-        items: order.line_items.map((item: WooCommerceLineItem) => ({
-          sku: item.sku || `product-${item.product_id}`,
-          name: item.name,
-          needed: item.quantity,
-          scanned: 0,
-          price: parseFloat(item.price),
-          image: item.image?.src,
-          productId: item.product_id,
-          weight: productWeights.get(item.product_id) || 0, // Add actual weight
-        })),
-      };
-    });
+    const packages = await buildPackages(ordersResult.data, store);
 
     console.log(
       'Created packages:',
@@ -683,21 +855,43 @@ export async function testWooCommerceDateFiltering(): Promise<
   }
 }
 
+// Single order as WooCommerce has it now, e.g. its status before a change
+export async function getWooCommerceOrder(
+  orderId: number,
+  store: StoreId = 'ch'
+): Promise<WooCommerceApiResponse<WooCommerceOrder>> {
+  try {
+    const response = await getWooCommerceClient(store).get(`orders/${orderId}`);
+    return { success: true, data: response.data as WooCommerceOrder };
+  } catch (error) {
+    console.error(`Error fetching ${store} order ${orderId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 // Update order status to completed
 export async function updateOrderStatus(
   orderId: number,
-  status: 'completed' | 'processing' | 'cancelled' | 'refunded'
+  status: 'completed' | 'processing' | 'cancelled' | 'refunded',
+  store: StoreId = 'ch',
+  metaData?: Array<{ key: string; value: string }>
 ): Promise<WooCommerceApiResponse<WooCommerceOrder>> {
   try {
-    console.log(`Updating order ${orderId} status to ${status}`);
+    console.log(`Updating ${store} order ${orderId} status to ${status}`);
 
-    const response = await WooCommerce.put(`orders/${orderId}`, {
+    // Meta is written in the same request, e.g. the tracking number of a completed order
+    const response = await getWooCommerceClient(store).put(`orders/${orderId}`, {
       status: status,
+      ...(metaData && { meta_data: metaData }),
     });
 
     const updatedOrder = response.data as WooCommerceOrder;
 
     console.log('Order status updated successfully:', {
+      store,
       orderId,
       newStatus: status,
       responseStatus: updatedOrder.status,
@@ -716,50 +910,48 @@ export async function updateOrderStatus(
   }
 }
 
-// Barcode mapping for DM products to Welmora SKUs
-interface BarcodeMapping {
-  dmBarcode: string;
-  welmoraSku: string;
-  productName: string;
-}
+/**
+ * Build the package of a single order, e.g. to create its shipment
+ * Also returns the order meta so callers can read what was stored on it before
+ */
+export async function getPackageForOrder(
+  orderId: number,
+  store: StoreId = 'ch'
+): Promise<WooCommerceApiResponse<{ package: Package; meta: Record<string, string> }>> {
+  try {
+    const response = await getWooCommerceClient(store).get(`orders/${orderId}`);
+    const order = response.data as WooCommerceOrder;
+    const [pkg] = await buildPackages([order], store);
+
+    const meta: Record<string, string> = {};
+    (order.meta_data || []).forEach(entry => {
+      if (typeof entry.value === 'string') {
+        meta[entry.key] = entry.value;
+      }
+    });
 
-// This would typically come from a database or CSV import
-// For now, we'll create a sample mapping based on the CSV data
-const BARCODE_MAPPINGS: BarcodeMapping[] = [
-  // Example mappings from CSV - these would be imported from your product database
-  {
-    dmBarcode: '4251758427366',
-    welmoraSku: '4251758427366',
-    productName: 'Kapsule za perilicu posuđa Ultimate Plus Citrus',
-  },
-  {
-    dmBarcode: '4251758427403',
-    welmoraSku: '4251758427403',
-    productName: 'All-in-1 tablete za pranje posuđa Ultimate Fresh',
-  },
-  {
-    dmBarcode: '8700216088602',
-    welmoraSku: '8700216088602',
-    productName: 'Sredstvo za pranje rublja Standard',
-  },
-  // Add more mappings as needed...
-];
-
-// Function to find Welmora SKU from DM barcode
-function findWelmoraSkuFromBarcode(dmBarcode: string): string | null {
-  const mapping = BARCODE_MAPPINGS.find(m => m.dmBarcode === dmBarcode);
-  return mapping ? mapping.welmoraSku : null;
+    return { success: true, data: { package: pkg, meta } };
+  } catch (error) {
+    console.error(`Error fetching ${store} order ${orderId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
 }
 
 // Enhanced search function for scanning
 export async function findProductByBarcode(
   scannedCode: string,
-  date: string
+  date: string,
+  store: StoreId = 'ch',
+  source: ScanSource = 'camera'
 ): Promise<{
   success: boolean;
   product?: {
     name: string;
     sku: string;
+    store: StoreId;
     packageId: string;
     orderId: number;
     customerName: string;
@@ -770,16 +962,21 @@ export async function findProductByBarcode(
   error?: string;
 }> {
   try {
-    // First, try to find Welmora SKU from DM barcode
-    const welmoraSku = findWelmoraSkuFromBarcode(scannedCode);
-    const searchSku = welmoraSku || scannedCode;
+    // Reject camera misreads before they can be assigned to a package
+    const validation = validateScannedCode(scannedCode, source);
+    if (!validation.valid) {
+      return { success: false, error: validation.error };
+    }
+
+    // First, try to find Welmora SKU from the stored barcode mappings
+    const welmoraSku = await findSkuByBarcode(scannedCode);
 
     // Get orders for the specified date
     const selectedDate = date;
     const startDate = selectedDate;
     const endDate = selectedDate;
 
-    const ordersResult = await getOrdersByDateRange(startDate, endDate);
+    const ordersResult = await getOrdersByDateRange(startDate, endDate, store);
 
     if (!ordersResult.success || !ordersResult.data) {
       return {
@@ -788,34 +985,43 @@ export async function findProductByBarcode(
       };
     }
 
-    // Search for the product in all orders
-    for (const order of ordersResult.data) {
-      for (const item of order.line_items) {
-        // Try to match by SKU, product_id, or name
-        const matchesSku = item.sku === searchSku || item.sku === scannedCode;
-        const matchesProductId =
-          item.product_id.toString() === searchSku || item.product_id.toString() === scannedCode;
-        const matchesName = item.name.toLowerCase().includes(scannedCode.toLowerCase());
-
-        if (matchesSku || matchesProductId || matchesName) {
-          // Found the product! Return package information
-          const customerName = `${order.billing.first_name} ${order.billing.last_name}`;
-
-          return {
-            success: true,
-            product: {
-              name: item.name,
-              sku: item.sku || `product-${item.product_id}`,
-              packageId: `package-${order.id}`,
-              orderId: order.id,
-              customerName: customerName,
-              needed: item.quantity,
-              scanned: 0,
-              message: `✅ FOUND: ${item.name} → PACKAGE #${order.id} (${customerName}) - ${item.quantity}x needed`,
-            },
-          };
-        }
-      }
+    // Search for the product in all orders, best match kind first (GTIN → mapping → SKU → id → name)
+    const lineItems = ordersResult.data.flatMap(order =>
+      order.line_items.map(item => ({ order, item }))
+    );
+    const productGtins = await getOrderProductGtins(ordersResult.data, store);
+    const best = findBestMatches(
+      lineItems,
+      ({ item }) => ({
+        sku: item.sku || '',
+        gtin: productGtins.get(item.product_id),
+        name: item.name,
+        productId: item.product_id,
+      }),
+      scannedCode,
+      { source, mappedSku: welmoraSku }
+    );
+
+    if (best) {
+      const { order, item } = best.matches[0];
+
+      // Found the product! Return package information
+      const customerName = `${order.billing.first_name} ${order.billing.last_name}`;
+
+      return {
+        success: true,
+        product: {
+          name: item.name,
+          sku: item.sku || `product-${item.product_id}`,
+          store,
+          packageId: getPackageId(store, order.id),
+          orderId: order.id,
+          customerName: customerName,
+          needed: item.quantity,
+          scanned: 0,
+          message: `✅ FOUND: ${item.name} → PACKAGE #${order.id} (${customerName}) - ${item.quantity}x needed`,
+        },
+      };
     }
 
     // Product not found
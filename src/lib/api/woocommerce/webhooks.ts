@@ -0,0 +1,111 @@
+import { findStoreByUrl, isStoreId } from '@/lib/api/woocommerce/stores';
+import { StoreId } from '@/types/woocommerce-api';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+
+// A verified WooCommerce webhook delivery
+export interface WooCommerceWebhook {
+  store: StoreId;
+  topic: string; // e.g. order.created, 'ping' for the activation ping
+  deliveryId: string | null;
+  webhookId: string | null;
+  isPing: boolean;
+  payload: unknown; // Parsed JSON body, null for pings
+}
+
+export type WebhookVerification =
+  | { success: true; data: WooCommerceWebhook }
+  | { success: false; status: number; error: string };
+
+// Webhook secret of a webshop, as entered in WooCommerce → Settings → Advanced → Webhooks
+export function getWebhookSecret(store: StoreId): string | undefined {
+  const secret =
+    store === 'hr'
+      ? process.env.WOOCOMMERCE_HR_WEBHOOK_SECRET
+      : process.env.WOOCOMMERCE_WEBHOOK_SECRET;
+  return secret || undefined;
+}
+
+// X-WC-Webhook-Signature: base64 HMAC-SHA256 of the raw body
+export function signWebhookBody(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+}
+
+export function isValidWebhookSignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookBody(body, secret));
+  const received = Buffer.from(signature.trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Read a WooCommerce webhook request and verify its signature
+ * The webshop is taken from X-WC-Webhook-Source, or `?store=` when the source is unknown.
+ * Unsigned requests are rejected, except WooCommerce's activation ping which carries no data.
+ */
+export async function readWooCommerceWebhook(request: NextRequest): Promise<WebhookVerification> {
+  const body = await request.text();
+  const headers = request.headers;
+  const store =
+    findStoreByUrl(headers.get('x-wc-webhook-source')) ||
+    request.nextUrl.searchParams.get('store') ||
+    'ch';
+
+  if (!isStoreId(store)) {
+    return { success: false, status: 400, error: 'Invalid store. Use ch or hr' };
+  }
+
+  const signature = headers.get('x-wc-webhook-signature');
+  const ping = body.trim().match(/^webhook_id=(\d+)$/);
+
+  if (!signature && ping) {
+    return {
+      success: true,
+      data: {
+        store,
+        topic: 'ping',
+        deliveryId: null,
+        webhookId: ping[1],
+        isPing: true,
+        payload: null,
+      },
+    };
+  }
+
+  const secret = getWebhookSecret(store);
+  if (!secret) {
+    console.error(`Webhook secret for ${store} is not configured - rejecting delivery`);
+    return { success: false, status: 500, error: 'Webhook secret not configured' };
+  }
+
+  if (!isValidWebhookSignature(body, signature, secret)) {
+    console.warn(`Rejected ${store} webhook with ${signature ? 'invalid' : 'missing'} signature`);
+    return { success: false, status: 401, error: 'Invalid webhook signature' };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return { success: false, status: 400, error: 'Invalid JSON body' };
+  }
+
+  return {
+    success: true,
+    data: {
+      store,
+      topic: headers.get('x-wc-webhook-topic') || '',
+      deliveryId: headers.get('x-wc-webhook-delivery-id'),
+      webhookId: headers.get('x-wc-webhook-id'),
+      isPing: false,
+      payload,
+    },
+  };
+}
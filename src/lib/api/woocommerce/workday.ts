@@ -0,0 +1,133 @@
+// Which orders make up the workload of a day
+
+export interface WorkdayConfig {
+  statuses: string[]; // WooCommerce order statuses that still need to be shopped and packed
+  cutoffTime: string; // HH:mm - orders placed at or after this time belong to the next day
+  timeZone: string; // IANA time zone the cutoff time is given in
+}
+
+const DEFAULT_STATUSES = ['processing'];
+const DEFAULT_CUTOFF_TIME = '00:00';
+const DEFAULT_TIME_ZONE = 'Europe/Zurich';
+
+/**
+ * Read the day definition from the environment
+ * ORDER_STATUSES (comma separated, default processing), ORDER_CUTOFF_TIME (HH:mm, default 00:00
+ * = calendar day) and ORDER_TIMEZONE (default Europe/Zurich)
+ */
+export function getWorkdayConfig(): WorkdayConfig {
+  const statuses = (process.env.ORDER_STATUSES || '')
+    .split(',')
+    .map(status => status.trim())
+    .filter(Boolean);
+  const cutoffTime = process.env.ORDER_CUTOFF_TIME || DEFAULT_CUTOFF_TIME;
+  const timeZone = process.env.ORDER_TIMEZONE || DEFAULT_TIME_ZONE;
+
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(cutoffTime)) {
+    throw new Error(`Invalid ORDER_CUTOFF_TIME "${cutoffTime}". Use HH:mm`);
+  }
+
+  return {
+    statuses: statuses.length > 0 ? statuses : DEFAULT_STATUSES,
+    cutoffTime,
+    timeZone,
+  };
+}
+
+// Wall-clock date and minutes since midnight of an instant in a time zone
+function getZonedParts(instant: Date, timeZone: string): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// UTC instant of a wall-clock time in a time zone (corrected once for DST changes)
+function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedParts(new Date(instant), timeZone);
+    const [zYear, zMonth, zDay] = zoned.date.split('-').map(Number);
+    return Date.UTC(zYear, zMonth - 1, zDay, 0, zoned.minutes) - instant;
+  };
+
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * The day an instant belongs to, e.g. with cutoff 14:00 an order at 15:30 counts for tomorrow
+ */
+export function getWorkdayForInstant(instant: Date, config: WorkdayConfig): string {
+  const { date, minutes } = getZonedParts(instant, config.timeZone);
+  const cutoff = toMinutes(config.cutoffTime);
+
+  return cutoff > 0 && minutes >= cutoff ? addDays(date, 1) : date;
+}
+
+/**
+ * The day a WooCommerce order belongs to, based on its creation time
+ * Falls back to the store-local date when the GMT timestamp is missing
+ */
+export function getOrderWorkday(
+  order: { date_created: string; date_created_gmt?: string },
+  config: WorkdayConfig = getWorkdayConfig()
+): string {
+  if (!order.date_created_gmt) {
+    return order.date_created.split('T')[0];
+  }
+
+  // WooCommerce returns GMT timestamps without zone designator
+  const gmt = order.date_created_gmt.endsWith('Z')
+    ? order.date_created_gmt
+    : `${order.date_created_gmt}Z`;
+
+  return getWorkdayForInstant(new Date(gmt), config);
+}
+
+/**
+ * UTC window of orders for a range of days: from the cutoff before the first day
+ * up to the cutoff of the last day (midnight to midnight without a cutoff)
+ */
+export function getWorkdayWindow(
+  startDate: string,
+  endDate: string,
+  config: WorkdayConfig = getWorkdayConfig()
+): { after: Date; before: Date } {
+  const cutoff = toMinutes(config.cutoffTime);
+
+  if (cutoff === 0) {
+    return {
+      after: zonedTimeToUtc(startDate, 0, config.timeZone),
+      before: zonedTimeToUtc(addDays(endDate, 1), 0, config.timeZone),
+    };
+  }
+
+  return {
+    after: zonedTimeToUtc(addDays(startDate, -1), cutoff, config.timeZone),
+    before: zonedTimeToUtc(endDate, cutoff, config.timeZone),
+  };
+}
@@ -0,0 +1,234 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { ROLE_HEADER, USER_HEADER } from '@/lib/services/auth/permissions';
+import { AuditEntry, StoreId } from '@/types/woocommerce-api';
+
+interface AuditLogRow {
+  id: string;
+  created_at: string;
+  actor: string;
+  actor_role: string | null;
+  action: AuditEntry['action'];
+  entity_type: AuditEntry['entityType'];
+  entity_id: string;
+  entity_name: string | null;
+  store: StoreId | null;
+  source: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Who made a change and from which screen
+export interface AuditActor {
+  actor: string;
+  actorRole?: string;
+  source: string;
+}
+
+// One changed entity; only fields that differ between before and after are stored
+export interface AuditChange {
+  action: AuditEntry['action'];
+  entityType: AuditEntry['entityType'];
+  entityId: string | number;
+  entityName?: string;
+  store?: StoreId;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+function toAuditEntry(row: AuditLogRow): AuditEntry {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    actor: row.actor,
+    actorRole: row.actor_role || undefined,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    entityName: row.entity_name || undefined,
+    store: row.store || undefined,
+    source: row.source || undefined,
+    before: row.before || undefined,
+    after: row.after || undefined,
+  };
+}
+
+/**
+ * Actor of an API request, as set by the middleware, and the screen it came from
+ * The screen is the path of the page that made the request (Referer), 'api' for direct calls.
+ */
+export function getAuditActor(request: Request): AuditActor {
+  let source = 'api';
+  const referer = request.headers.get('referer');
+
+  if (referer) {
+    try {
+      source = new URL(referer).pathname;
+    } catch {
+      // Keep 'api' for malformed referers
+    }
+  }
+
+  return {
+    actor: request.headers.get(USER_HEADER) || 'unknown',
+    actorRole: request.headers.get(ROLE_HEADER) || undefined,
+    source,
+  };
+}
+
+// Audited fields of an entity, e.g. pickFields(product, ['stock_status', 'price'])
+export function pickFields<T extends object>(
+  source: T,
+  keys: (keyof T)[]
+): Record<string, unknown> {
+  return Object.fromEntries(keys.map(key => [key, source[key] ?? null]));
+}
+
+// Audited WooCommerce meta values of a product, e.g. the DM price
+export function pickMeta(
+  metaData: Array<{ key: string; value: unknown }> | undefined,
+  keys: string[]
+): Record<string, unknown> {
+  return Object.fromEntries(
+    keys.map(key => [key, metaData?.find(meta => meta.key === key)?.value ?? null])
+  );
+}
+
+// Reduce before/after to the fields that changed, null when nothing did
+function diffChange(change: AuditChange): Pick<AuditChange, 'before' | 'after'> | null {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+
+  for (const key of new Set([...Object.keys(change.before), ...Object.keys(change.after)])) {
+    const oldValue = change.before[key] ?? null;
+    const newValue = change.after[key] ?? null;
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      before[key] = oldValue;
+      after[key] = newValue;
+    }
+  }
+
+  return Object.keys(after).length > 0 ? { before, after } : null;
+}
+
+/**
+ * Record changes in the audit log
+ * Changes that didn't change anything are skipped. Never throws - a failing audit write is
+ * logged and must not undo or fail the change itself.
+ */
+export async function recordAudit(actor: AuditActor, changes: AuditChange[]): Promise<void> {
+  const rows = changes.flatMap(change => {
+    const diff = diffChange(change);
+    if (!diff) return [];
+
+    return [
+      {
+        actor: actor.actor,
+        actor_role: actor.actorRole || null,
+        action: change.action,
+        entity_type: change.entityType,
+        entity_id: String(change.entityId),
+        entity_name: change.entityName || null,
+        store: change.store || null,
+        source: actor.source,
+        before: diff.before,
+        after: diff.after,
+      },
+    ];
+  });
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+
+    try {
+      const { error } = await getSupabaseServiceClient().from('audit_log').insert(batch);
+      if (error) {
+        throw new Error(error.message);
+      }
+    } catch (error) {
+      console.error(`Error writing ${batch.length} audit log entries by ${actor.actor}:`, error);
+    }
+  }
+
+  if (rows.length > 0) {
+    console.log(`Audit: ${actor.actor} ${changes[0].action} on ${rows.length} entities`);
+  }
+}
+
+/**
+ * Search the audit log, newest first
+ * `entityId` is a SKU or order ID; `search` also matches entity names
+ */
+export async function listAuditLog(
+  filter: {
+    entityType?: AuditEntry['entityType'];
+    entityId?: string;
+    store?: StoreId;
+    actor?: string;
+    action?: AuditEntry['action'];
+    search?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+  } = {}
+): Promise<AuditResult<AuditEntry[]>> {
+  try {
+    let query = getSupabaseServiceClient()
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(Math.min(filter.limit || 100, 500));
+
+    if (filter.entityType) {
+      query = query.eq('entity_type', filter.entityType);
+    }
+    if (filter.entityId) {
+      query = query.eq('entity_id', filter.entityId);
+    }
+    if (filter.store) {
+      query = query.eq('store', filter.store);
+    }
+    if (filter.actor) {
+      query = query.eq('actor', filter.actor.trim().toLowerCase());
+    }
+    if (filter.action) {
+      query = query.eq('action', filter.action);
+    }
+    if (filter.since) {
+      query = query.gte('created_at', filter.since);
+    }
+    if (filter.until) {
+      query = query.lte('created_at', filter.until);
+    }
+
+    const search = filter.search
+      ?.trim()
+      .replace(/^#/, '')
+      .replace(/[,(){}%]/g, '');
+    if (search) {
+      query = query.or(`entity_id.eq.${search},entity_name.ilike.%${search}%`);
+    }
+
+    const { data, error } = await query.overrideTypes<AuditLogRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load audit log');
+    }
+
+    return { success: true, data: data.map(toAuditEntry) };
+  } catch (error) {
+    console.error('Error listing audit log:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
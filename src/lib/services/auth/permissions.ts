@@ -0,0 +1,122 @@
+// API access rules, shared by the middleware and the UI
+// Kept free of server-only imports so the middleware (edge runtime) can use it
+
+export const USER_ROLES = ['packer', 'buyer', 'manager', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Set by the middleware on authorized API requests (incoming values are dropped)
+export const USER_HEADER = 'x-welmora-user';
+export const ROLE_HEADER = 'x-welmora-role';
+
+// Signed-in name of scheduled workflows using MACHINE_API_TOKEN
+export const MACHINE_USER = 'machine';
+
+/**
+ * How a request to an API route is authenticated
+ * - public: no check (sign-in itself)
+ * - webhook: the route verifies the WooCommerce signature
+ * - roles: a session of one of these roles, or the machine token where `machine` is set
+ */
+export type ApiAccess =
+  | { type: 'public' }
+  | { type: 'webhook' }
+  | { type: 'roles'; roles: readonly UserRole[]; machine?: boolean };
+
+interface AccessRule {
+  path: RegExp;
+  methods?: string[]; // All methods when omitted
+  access: ApiAccess;
+}
+
+const STAFF: readonly UserRole[] = USER_ROLES;
+const PACKING: readonly UserRole[] = ['packer', 'manager', 'admin'];
+const BUYING: readonly UserRole[] = ['buyer', 'manager', 'admin'];
+const MANAGEMENT: readonly UserRole[] = ['manager', 'admin'];
+const ADMIN: readonly UserRole[] = ['admin'];
+
+const READ_METHODS = ['GET', 'HEAD'];
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const roles = (allowed: readonly UserRole[], machine?: boolean): ApiAccess => ({
+  type: 'roles',
+  roles: allowed,
+  machine,
+});
+
+// First matching rule wins; anything unmatched falls through to the defaults below
+const ACCESS_RULES: AccessRule[] = [
+  { path: /^\/api\/auth\//, access: { type: 'public' } },
+  {
+    path: /^\/api\/webhooks\/(order-created|order-updated|product-updated)$/,
+    methods: ['POST'],
+    access: { type: 'webhook' },
+  },
+  { path: /^\/api\/webhooks\//, access: roles(ADMIN) },
+  { path: /^\/api\/users(\/|$)/, access: roles(ADMIN) },
+  { path: /^\/api\/test-/, access: roles(ADMIN) },
+  { path: /^\/api\/stickers\/test-single$/, access: roles(ADMIN) },
+
+  // Scheduled workflows
+  { path: /^\/api\/jobs\/run$/, methods: ['POST'], access: roles(MANAGEMENT, true) },
+  { path: /^\/api\/stickers\/index$/, methods: ['POST'], access: roles(MANAGEMENT, true) },
+  // Competitor price scraping and clean-up (update_prices, clean_competitor_data, ...)
+  { path: /^\/api\/products\/compare$/, methods: ['POST'], access: roles(MANAGEMENT, true) },
+
+  // Back office
+  { path: /^\/api\/(jobs|emails)(\/|$)/, access: roles(MANAGEMENT) },
+  // Lists the whole stickers bucket in debug mode
+  { path: /^\/api\/declarations\//, access: roles(MANAGEMENT) },
+
+  // Floor work
+  { path: /^\/api\/(packing|scan)(\/|$)/, methods: WRITE_METHODS, access: roles(PACKING) },
+  { path: /^\/api\/barcodes$/, methods: ['POST'], access: roles(PACKING) },
+  { path: /^\/api\/shopping(\/|$)/, methods: WRITE_METHODS, access: roles(BUYING) },
+  {
+    path: /^\/api\/(products\/update-stock|inventory)$/,
+    methods: ['POST', 'PUT'],
+    access: roles(BUYING),
+  },
+];
+
+/**
+ * Access rule of an API request
+ * Reads are open to every role and writes need a manager unless a rule says otherwise.
+ */
+export function getApiAccess(pathname: string, method: string): ApiAccess {
+  const rule = ACCESS_RULES.find(
+    candidate =>
+      candidate.path.test(pathname) && (!candidate.methods || candidate.methods.includes(method))
+  );
+
+  if (rule) {
+    return rule.access;
+  }
+
+  return READ_METHODS.includes(method) ? roles(STAFF) : roles(MANAGEMENT);
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Whether the request carries the machine token of scheduled workflows
+ * (Authorization: Bearer MACHINE_API_TOKEN), compared in constant time
+ */
+export function hasMachineToken(request: Request): boolean {
+  const expected = process.env.MACHINE_API_TOKEN;
+  const header = request.headers.get('authorization');
+
+  if (!expected || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const given = new TextEncoder().encode(header.substring('Bearer '.length));
+  const wanted = new TextEncoder().encode(expected);
+  let difference = given.length ^ wanted.length;
+  for (let i = 0; i < wanted.length; i++) {
+    difference |= (given[i] ?? 0) ^ wanted[i];
+  }
+
+  return difference === 0;
+}
@@ -0,0 +1,218 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import type { UserRole } from '@/lib/services/auth/permissions';
+import type { AuthResult } from '@/lib/services/auth/users';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  refreshed_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  app_users: { id: string; username: string; role: UserRole; disabled: boolean };
+}
+
+export interface AuthSession {
+  id: string;
+  userId: string;
+  username: string;
+  role: UserRole;
+  refreshedAt: string;
+  expiresAt: string;
+}
+
+export const SESSION_COOKIE = 'welmora_session';
+
+const DEFAULT_SESSION_DAYS = 7;
+const DEFAULT_REFRESH_HOURS = 24;
+
+// Lifetime of a session without activity, AUTH_SESSION_DAYS
+function getSessionLifetimeMs(): number {
+  const days = Number(process.env.AUTH_SESSION_DAYS) || DEFAULT_SESSION_DAYS;
+  return days * 24 * 60 * 60 * 1000;
+}
+
+// How often an active session gets a new expiry, AUTH_SESSION_REFRESH_HOURS
+function getSessionRefreshMs(): number {
+  const hours = Number(process.env.AUTH_SESSION_REFRESH_HOURS) || DEFAULT_REFRESH_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+// Only the hash of the cookie token is stored
+// Web Crypto rather than node:crypto, so sessions can be checked in the middleware (edge runtime)
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function toAuthSession(row: SessionRow): AuthSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    username: row.app_users.username,
+    role: row.app_users.role,
+    refreshedAt: row.refreshed_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Start a session for a signed-in user
+ *
+ * @returns Token for the session cookie and when it expires
+ */
+export async function createSession(
+  userId: string,
+  userAgent?: string | null
+): Promise<AuthResult<{ token: string; expiresAt: Date }>> {
+  try {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + getSessionLifetimeMs());
+
+    const { error } = await getSupabaseServiceClient()
+      .from('auth_sessions')
+      .insert({
+        user_id: userId,
+        token_hash: await hashToken(token),
+        user_agent: userAgent?.substring(0, 300) || null,
+        expires_at: expiresAt.toISOString(),
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { success: true, data: { token, expiresAt } };
+  } catch (error) {
+    console.error(`Error creating session for user ${userId}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Session of a cookie token
+ *
+ * @returns The session, null when it is unknown, expired, revoked or its account disabled
+ */
+export async function getSession(token: string): Promise<AuthSession | null> {
+  const { data, error } = await getSupabaseServiceClient()
+    .from('auth_sessions')
+    .select(
+      'id, user_id, refreshed_at, expires_at, revoked_at, app_users!inner(id, username, role, disabled)'
+    )
+    .eq('token_hash', await hashToken(token))
+    .maybeSingle()
+    .overrideTypes<SessionRow, { merge: false }>();
+
+  if (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
+
+  if (
+    !data ||
+    data.revoked_at ||
+    data.app_users.disabled ||
+    new Date(data.expires_at).getTime() <= Date.now()
+  ) {
+    return null;
+  }
+
+  return toAuthSession(data);
+}
+
+// Session of the request's cookie, null when signed out
+export async function getRequestSession(request: NextRequest): Promise<AuthSession | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getSession(token) : null;
+}
+
+/**
+ * Push the expiry of an active session forward, at most once per refresh interval
+ *
+ * @returns The new expiry, null when the session didn't need a refresh
+ */
+export async function refreshSession(session: AuthSession): Promise<Date | null> {
+  if (Date.now() - new Date(session.refreshedAt).getTime() < getSessionRefreshMs()) {
+    return null;
+  }
+
+  const expiresAt = new Date(Date.now() + getSessionLifetimeMs());
+  const { error } = await getSupabaseServiceClient()
+    .from('auth_sessions')
+    .update({ refreshed_at: new Date().toISOString(), expires_at: expiresAt.toISOString() })
+    .eq('id', session.id);
+
+  if (error) {
+    console.error(`Error refreshing session ${session.id}:`, error);
+    return null;
+  }
+
+  return expiresAt;
+}
+
+// Logout: the token stops working on every request from now on
+export async function revokeSession(token: string): Promise<void> {
+  const { error } = await getSupabaseServiceClient()
+    .from('auth_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('token_hash', await hashToken(token))
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Error revoking session:', error);
+  }
+}
+
+/**
+ * Sign an account out everywhere, e.g. after a password change or when it is disabled
+ *
+ * @param exceptSessionId - Session to keep (the one making the change)
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+  let query = getSupabaseServiceClient()
+    .from('auth_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error(`Error revoking sessions of user ${userId}:`, error);
+  }
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
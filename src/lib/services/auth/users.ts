@@ -0,0 +1,276 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from '@/lib/services/auth/passwords';
+import { isUserRole, UserRole } from '@/lib/services/auth/permissions';
+import { AppUser } from '@/types/woocommerce-api';
+import { randomBytes } from 'crypto';
+
+interface AppUserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  role: UserRole;
+  disabled: boolean;
+  created_at: string;
+  last_login_at: string | null;
+}
+
+export interface AuthResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const USER_COLUMNS = 'id, username, password_hash, role, disabled, created_at, last_login_at';
+
+// Verified when a username doesn't exist, so unknown users take as long as wrong passwords
+let dummyHash: Promise<string> | null = null;
+
+function getDummyHash(): Promise<string> {
+  dummyHash ||= hashPassword(randomBytes(16).toString('hex'));
+  return dummyHash;
+}
+
+function toAppUser(row: AppUserRow): AppUser {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    disabled: row.disabled,
+    createdAt: row.created_at,
+    lastLoginAt: row.last_login_at || undefined,
+  };
+}
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+function validateCredentials(username: string, password: string): string | null {
+  if (!/^[a-z0-9._-]{2,50}$/.test(username)) {
+    return 'Username must be 2-50 characters: letters, digits, dot, dash or underscore';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+async function findUserRow(username: string): Promise<AppUserRow | null> {
+  const { data, error } = await getSupabaseServiceClient()
+    .from('app_users')
+    .select(USER_COLUMNS)
+    .eq('username', normalizeUsername(username))
+    .maybeSingle()
+    .overrideTypes<AppUserRow, { merge: false }>();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data;
+}
+
+/**
+ * First account from AUTH_ADMIN_USER/AUTH_ADMIN_PASSWORD (server-only), created on the first
+ * matching login while no account exists yet
+ */
+async function bootstrapAdmin(username: string, password: string): Promise<AppUserRow | null> {
+  const adminUser = process.env.AUTH_ADMIN_USER;
+  const adminPassword = process.env.AUTH_ADMIN_PASSWORD;
+
+  if (
+    !adminUser ||
+    !adminPassword ||
+    normalizeUsername(username) !== normalizeUsername(adminUser) ||
+    password !== adminPassword
+  ) {
+    return null;
+  }
+
+  const { count, error } = await getSupabaseServiceClient()
+    .from('app_users')
+    .select('id', { count: 'exact', head: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (count) {
+    return null;
+  }
+
+  console.log(`No accounts yet - creating ${adminUser} from AUTH_ADMIN_USER`);
+  const created = await createUser(adminUser, adminPassword, 'admin');
+  if (!created.success) {
+    throw new Error(created.error);
+  }
+
+  return findUserRow(adminUser);
+}
+
+/**
+ * Check a username and password
+ *
+ * @returns The account, or an error that doesn't tell whether the username exists
+ */
+export async function authenticateUser(
+  username: string,
+  password: string
+): Promise<AuthResult<AppUser>> {
+  try {
+    const row = (await findUserRow(username)) || (await bootstrapAdmin(username, password));
+    const valid = await verifyPassword(password, row?.password_hash || (await getDummyHash()));
+
+    if (!row || !valid || row.disabled) {
+      return { success: false, error: 'Invalid username or password' };
+    }
+
+    await getSupabaseServiceClient()
+      .from('app_users')
+      .update({ last_login_at: new Date().toISOString() })
+      .eq('id', row.id);
+
+    return { success: true, data: toAppUser(row) };
+  } catch (error) {
+    console.error('Error authenticating user:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export async function listUsers(): Promise<AuthResult<AppUser[]>> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from('app_users')
+      .select(USER_COLUMNS)
+      .order('username')
+      .overrideTypes<AppUserRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load users');
+    }
+
+    return { success: true, data: data.map(toAppUser) };
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export async function createUser(
+  username: string,
+  password: string,
+  role: UserRole = 'packer'
+): Promise<AuthResult<AppUser>> {
+  try {
+    const normalized = normalizeUsername(username);
+    const invalid = validateCredentials(normalized, password);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    if (!isUserRole(role)) {
+      return { success: false, error: `Unknown role ${role}` };
+    }
+
+    const { data, error } = await getSupabaseServiceClient()
+      .from('app_users')
+      .insert({ username: normalized, password_hash: await hashPassword(password), role })
+      .select(USER_COLUMNS)
+      .single()
+      .overrideTypes<AppUserRow, { merge: false }>();
+
+    if (error?.code === '23505') {
+      return { success: false, error: `User ${normalized} already exists` };
+    }
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create user');
+    }
+
+    console.log(`Created ${role} user ${normalized}`);
+    return { success: true, data: toAppUser(data) };
+  } catch (error) {
+    console.error(`Error creating user ${username}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Change the password or role, or disable/enable an account
+ * Callers revoke the account's sessions, so the change applies to every device
+ */
+export async function updateUser(
+  id: string,
+  changes: { password?: string; role?: UserRole; disabled?: boolean }
+): Promise<AuthResult<AppUser>> {
+  try {
+    const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (changes.password !== undefined) {
+      if (changes.password.length < MIN_PASSWORD_LENGTH) {
+        return {
+          success: false,
+          error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        };
+      }
+      update.password_hash = await hashPassword(changes.password);
+    }
+    if (changes.role !== undefined) {
+      if (!isUserRole(changes.role)) {
+        return { success: false, error: `Unknown role ${changes.role}` };
+      }
+      update.role = changes.role;
+    }
+    if (changes.disabled !== undefined) {
+      update.disabled = changes.disabled;
+    }
+
+    const { data, error } = await getSupabaseServiceClient()
+      .from('app_users')
+      .update(update)
+      .eq('id', id)
+      .select(USER_COLUMNS)
+      .maybeSingle()
+      .overrideTypes<AppUserRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return { success: false, error: `User ${id} not found` };
+    }
+
+    return { success: true, data: toAppUser(data) };
+  } catch (error) {
+    console.error(`Error updating user ${id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Sessions of the account are deleted with it (on delete cascade)
+export async function deleteUser(id: string): Promise<AuthResult<void>> {
+  try {
+    const { error } = await getSupabaseServiceClient().from('app_users').delete().eq('id', id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(`Error deleting user ${id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,286 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { BarcodeMapping } from '@/types/woocommerce-api';
+
+interface BarcodeMappingRow {
+  id: string;
+  barcode: string;
+  sku: string;
+  product_name: string | null;
+  variant: string | null;
+  source: BarcodeMapping['source'];
+  updated_at: string;
+}
+
+export interface BarcodeMappingResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const CSV_COLUMNS = ['barcode', 'sku', 'product_name', 'variant'];
+
+function toBarcodeMapping(row: BarcodeMappingRow): BarcodeMapping {
+  return {
+    id: row.id,
+    barcode: row.barcode,
+    sku: row.sku,
+    productName: row.product_name || undefined,
+    variant: row.variant || undefined,
+    source: row.source,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRow(mapping: Omit<BarcodeMapping, 'id' | 'updatedAt'>) {
+  return {
+    barcode: mapping.barcode.trim(),
+    sku: mapping.sku.trim(),
+    product_name: mapping.productName?.trim() || null,
+    variant: mapping.variant?.trim() || null,
+    source: mapping.source,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Find the Welmora SKU a scanned barcode is mapped to
+ * Returns null when the barcode is unknown or the lookup fails
+ */
+export async function findSkuByBarcode(barcode: string): Promise<string | null> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from('barcode_mappings')
+      .select('sku')
+      .eq('barcode', barcode.trim())
+      .maybeSingle()
+      .overrideTypes<{ sku: string }, { merge: false }>();
+
+    if (error) {
+      console.error(`Error looking up barcode ${barcode}:`, error);
+      return null;
+    }
+
+    return data?.sku || null;
+  } catch (error) {
+    console.error(`Exception looking up barcode ${barcode}:`, error);
+    return null;
+  }
+}
+
+/**
+ * List mappings, optionally filtered by barcode, SKU or product name
+ */
+export async function listBarcodeMappings(
+  search?: string
+): Promise<BarcodeMappingResult<BarcodeMapping[]>> {
+  try {
+    let query = getSupabaseServiceClient()
+      .from('barcode_mappings')
+      .select('*')
+      .order('sku', { ascending: true })
+      .order('barcode', { ascending: true });
+
+    if (search) {
+      const term = search.replace(/[,()]/g, ' ').trim();
+      query = query.or(`barcode.ilike.%${term}%,sku.ilike.%${term}%,product_name.ilike.%${term}%`);
+    }
+
+    const { data, error } = await query.overrideTypes<BarcodeMappingRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load barcode mappings');
+    }
+
+    return { success: true, data: data.map(toBarcodeMapping) };
+  } catch (error) {
+    console.error('Error listing barcode mappings:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Create or update the mapping of a barcode
+ * A barcode can only point to one SKU, so saving an existing barcode re-points it
+ */
+export async function saveBarcodeMapping(
+  mapping: Omit<BarcodeMapping, 'id' | 'updatedAt'>
+): Promise<BarcodeMappingResult<BarcodeMapping>> {
+  try {
+    if (!mapping.barcode?.trim() || !mapping.sku?.trim()) {
+      return { success: false, error: 'Barcode and SKU are required' };
+    }
+
+    const { data, error } = await getSupabaseServiceClient()
+      .from('barcode_mappings')
+      .upsert(toRow(mapping), { onConflict: 'barcode' })
+      .select()
+      .single()
+      .overrideTypes<BarcodeMappingRow, { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to save barcode mapping');
+    }
+
+    console.log(`Barcode ${data.barcode} mapped to SKU ${data.sku} (${data.source})`);
+
+    return { success: true, data: toBarcodeMapping(data) };
+  } catch (error) {
+    console.error(`Error saving barcode mapping ${mapping.barcode}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export async function deleteBarcodeMapping(barcode: string): Promise<BarcodeMappingResult<void>> {
+  try {
+    const { error } = await getSupabaseServiceClient()
+      .from('barcode_mappings')
+      .delete()
+      .eq('barcode', barcode);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(`Error deleting barcode mapping ${barcode}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Import mappings from CSV
+ * Expects a header row with at least `barcode` and `sku`; `product_name` and `variant` are optional.
+ * Comma and semicolon separators are accepted (Excel exports use semicolons).
+ */
+export async function importBarcodeMappingsCsv(
+  csv: string
+): Promise<BarcodeMappingResult<{ imported: number; skipped: string[] }>> {
+  try {
+    const lines = csv
+      .replace(/^\uFEFF/, '') // Excel adds a byte order mark
+      .split(/\r?\n/)
+      .filter(line => line.trim());
+
+    if (lines.length === 0) {
+      return { success: false, error: 'CSV file is empty' };
+    }
+
+    const separator = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+    const header = parseCsvLine(lines[0], separator).map(column => column.trim().toLowerCase());
+    const barcodeIndex = header.indexOf('barcode');
+    const skuIndex = header.indexOf('sku');
+
+    if (barcodeIndex === -1 || skuIndex === -1) {
+      return { success: false, error: 'CSV header must contain barcode and sku columns' };
+    }
+
+    const skipped: string[] = [];
+    const rows = new Map<string, ReturnType<typeof toRow>>();
+
+    lines.slice(1).forEach((line, index) => {
+      const values = parseCsvLine(line, separator);
+      const barcode = values[barcodeIndex]?.trim();
+      const sku = values[skuIndex]?.trim();
+
+      if (!barcode || !sku) {
+        skipped.push(`Line ${index + 2}: missing barcode or SKU`);
+        return;
+      }
+
+      // Later lines win when a barcode appears twice
+      rows.set(
+        barcode,
+        toRow({
+          barcode,
+          sku,
+          productName: values[header.indexOf('product_name')],
+          variant: values[header.indexOf('variant')],
+          source: 'csv',
+        })
+      );
+    });
+
+    if (rows.size > 0) {
+      const { error } = await getSupabaseServiceClient()
+        .from('barcode_mappings')
+        .upsert(Array.from(rows.values()), { onConflict: 'barcode' });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    console.log(`Imported ${rows.size} barcode mappings, skipped ${skipped.length} lines`);
+
+    return { success: true, data: { imported: rows.size, skipped } };
+  } catch (error) {
+    console.error('Error importing barcode mappings:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Export all mappings in the same CSV format the import accepts
+export async function exportBarcodeMappingsCsv(): Promise<BarcodeMappingResult<string>> {
+  const result = await listBarcodeMappings();
+
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error };
+  }
+
+  const lines = result.data.map(mapping =>
+    [mapping.barcode, mapping.sku, mapping.productName || '', mapping.variant || '']
+      .map(escapeCsvValue)
+      .join(',')
+  );
+
+  return { success: true, data: [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n' };
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\n;]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Split one CSV line, honouring double-quoted values
+function parseCsvLine(line: string, separator: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current);
+  return values;
+}
@@ -0,0 +1,99 @@
+import { calculatePackageWeight } from '@/lib/utils/packageWeight';
+import { Package } from '@/types/woocommerce-api';
+import axios from 'axios';
+import { CarrierAdapter, CarrierResult, Shipment } from '@/lib/services/carriers/types';
+
+/**
+ * Hrvatska pošta B2B shipment API
+ * The endpoint is issued with the contract: HP_API_URL and HP_API_KEY
+ */
+export class HrvatskaPostaAdapter implements CarrierAdapter {
+  readonly id = 'hrvatska-posta' as const;
+  readonly name = 'Hrvatska pošta';
+  readonly sandbox = false;
+
+  static isConfigured(): boolean {
+    return !!(process.env.HP_API_URL && process.env.HP_API_KEY);
+  }
+
+  async createShipment(pkg: Package): Promise<CarrierResult<Shipment>> {
+    try {
+      const address = pkg.shippingAddress;
+
+      const response = await this.client().post('/shipments', {
+        reference: String(pkg.orderId),
+        service: process.env.HP_SERVICE_CODE || 'PAKET24',
+        weight: Number(calculatePackageWeight(pkg).toFixed(2)),
+        recipient: {
+          name: [address.first_name, address.last_name].filter(Boolean).join(' '),
+          company: address.company || undefined,
+          street: [address.address_1, address.address_2].filter(Boolean).join(', '),
+          postcode: address.postcode,
+          city: address.city,
+          country: address.country || 'HR',
+          phone: address.phone || undefined,
+          email: pkg.customerEmail,
+        },
+      });
+
+      const shipment = response.data;
+      if (!shipment?.id) {
+        return { success: false, error: 'Hrvatska pošta: no shipment id returned' };
+      }
+
+      return {
+        success: true,
+        data: {
+          carrier: this.id,
+          shipmentId: String(shipment.id),
+          trackingNumber: shipment.barcode || shipment.trackingNumber,
+          labelPdf: shipment.label,
+        },
+      };
+    } catch (error) {
+      console.error(`Hrvatska pošta shipment for order ${pkg.orderId} failed:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async getTrackingNumber(shipmentId: string): Promise<CarrierResult<string>> {
+    try {
+      const response = await this.client().get(`/shipments/${encodeURIComponent(shipmentId)}`);
+      const trackingNumber = response.data?.barcode || response.data?.trackingNumber;
+
+      if (!trackingNumber) {
+        return { success: false, error: `No tracking number yet for shipment ${shipmentId}` };
+      }
+
+      return { success: true, data: trackingNumber };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async cancelShipment(shipmentId: string): Promise<CarrierResult<void>> {
+    try {
+      await this.client().delete(`/shipments/${encodeURIComponent(shipmentId)}`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private client() {
+    return axios.create({
+      baseURL: process.env.HP_API_URL,
+      headers: { Authorization: `Bearer ${process.env.HP_API_KEY}` },
+      timeout: 30000,
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { HrvatskaPostaAdapter } from '@/lib/services/carriers/hrvatska-posta';
+import { MockCarrierAdapter } from '@/lib/services/carriers/mock-carrier';
+import { SwissPostAdapter } from '@/lib/services/carriers/swiss-post';
+import { CarrierAdapter, CarrierId } from '@/lib/services/carriers/types';
+import { Package } from '@/types/woocommerce-api';
+
+export type {
+  CarrierAdapter,
+  CarrierId,
+  CarrierResult,
+  Shipment,
+} from '@/lib/services/carriers/types';
+
+// off: no shipments are created (default), mock: offline adapters, live: real carrier APIs
+export type CarrierMode = 'off' | 'mock' | 'live';
+
+export const CARRIER_IDS: CarrierId[] = ['swiss-post', 'hrvatska-posta'];
+
+const CARRIER_NAMES: Record<CarrierId, string> = {
+  'swiss-post': 'Swiss Post',
+  'hrvatska-posta': 'Hrvatska pošta',
+};
+
+const liveAdapters: Partial<Record<CarrierId, CarrierAdapter>> = {};
+
+export function getCarrierMode(): CarrierMode {
+  const mode = process.env.CARRIER_MODE;
+  return mode === 'mock' || mode === 'live' ? mode : 'off';
+}
+
+export function isCarrierId(value: unknown): value is CarrierId {
+  return typeof value === 'string' && CARRIER_IDS.includes(value as CarrierId);
+}
+
+/**
+ * Pick the carrier for a package - Welmora.hr orders go with Hrvatska pošta,
+ * everything else with Swiss Post
+ */
+export function getCarrierIdForPackage(pkg: Pick<Package, 'store'>): CarrierId {
+  return pkg.store === 'hr' ? 'hrvatska-posta' : 'swiss-post';
+}
+
+/**
+ * Get the adapter for a carrier in the configured mode
+ * Live mode fails loudly when credentials are missing instead of falling back to the mock,
+ * so fake tracking numbers never end up on real orders
+ */
+export function getCarrierAdapter(id: CarrierId): CarrierAdapter {
+  const mode = getCarrierMode();
+
+  if (mode !== 'live') {
+    return new MockCarrierAdapter(id, CARRIER_NAMES[id]);
+  }
+
+  if (!liveAdapters[id]) {
+    switch (id) {
+      case 'hrvatska-posta':
+        if (!HrvatskaPostaAdapter.isConfigured()) {
+          throw new Error('Hrvatska pošta is not configured (HP_API_URL, HP_API_KEY)');
+        }
+        liveAdapters[id] = new HrvatskaPostaAdapter();
+        break;
+      case 'swiss-post':
+      default:
+        if (!SwissPostAdapter.isConfigured()) {
+          throw new Error(
+            'Swiss Post is not configured (SWISS_POST_CLIENT_ID, SWISS_POST_CLIENT_SECRET, SWISS_POST_FRANKING_LICENSE)'
+          );
+        }
+        liveAdapters[id] = new SwissPostAdapter();
+    }
+  }
+
+  return liveAdapters[id]!;
+}
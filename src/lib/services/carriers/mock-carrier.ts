@@ -0,0 +1,77 @@
+import { Package } from '@/types/woocommerce-api';
+import { CarrierAdapter, CarrierId, CarrierResult, Shipment } from '@/lib/services/carriers/types';
+
+/**
+ * Offline carrier used for development, tests and CARRIER_MODE=mock
+ * Shipments live in memory and get tracking numbers in the carrier's format
+ */
+export class MockCarrierAdapter implements CarrierAdapter {
+  readonly sandbox = true;
+
+  private static shipments: Map<string, Shipment & { cancelled: boolean }> = new Map();
+
+  constructor(
+    readonly id: CarrierId,
+    readonly name: string
+  ) {}
+
+  async createShipment(pkg: Package): Promise<CarrierResult<Shipment>> {
+    if (!pkg.shippingAddress.address_1 || !pkg.shippingAddress.postcode) {
+      return { success: false, error: `Package ${pkg.id} has no complete shipping address` };
+    }
+
+    const shipment: Shipment = {
+      carrier: this.id,
+      shipmentId: `mock-${this.id}-${pkg.orderId}-${Date.now()}`,
+      trackingNumber: this.generateTrackingNumber(pkg.orderId),
+    };
+
+    MockCarrierAdapter.shipments.set(shipment.shipmentId, { ...shipment, cancelled: false });
+    console.log(
+      `[mock ${this.id}] Created shipment ${shipment.shipmentId} for order ${pkg.orderId}`
+    );
+
+    return { success: true, data: shipment };
+  }
+
+  async getTrackingNumber(shipmentId: string): Promise<CarrierResult<string>> {
+    const shipment = MockCarrierAdapter.shipments.get(shipmentId);
+    if (!shipment || shipment.cancelled) {
+      return { success: false, error: `Shipment ${shipmentId} not found` };
+    }
+    return { success: true, data: shipment.trackingNumber };
+  }
+
+  async cancelShipment(shipmentId: string): Promise<CarrierResult<void>> {
+    const shipment = MockCarrierAdapter.shipments.get(shipmentId);
+    if (!shipment || shipment.cancelled) {
+      return { success: false, error: `Shipment ${shipmentId} not found` };
+    }
+
+    shipment.cancelled = true;
+    console.log(`[mock ${this.id}] Cancelled shipment ${shipmentId}`);
+    return { success: true };
+  }
+
+  private generateTrackingNumber(orderId: number): string {
+    const serial = String(orderId).padStart(8, '0').slice(-8);
+
+    if (this.id === 'hrvatska-posta') {
+      // UPU S10 format: 2 letters, 8 digits, check digit, country code
+      return `CP${serial}${getS10CheckDigit(serial)}HR`;
+    }
+
+    // Swiss Post parcel numbers: 99.xx.xxxxxx.xxxxxxxx
+    return `99.00.${String(Date.now()).slice(-6)}.${serial}`;
+  }
+}
+
+function getS10CheckDigit(serial: string): number {
+  const weights = [8, 6, 4, 2, 3, 5, 9, 7];
+  const sum = Array.from(serial).reduce(
+    (total, digit, index) => total + Number(digit) * weights[index],
+    0
+  );
+  const check = 11 - (sum % 11);
+  return check === 10 ? 0 : check === 11 ? 5 : check;
+}
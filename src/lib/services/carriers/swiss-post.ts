@@ -0,0 +1,132 @@
+import { calculatePackageWeight } from '@/lib/utils/packageWeight';
+import { Package } from '@/types/woocommerce-api';
+import axios from 'axios';
+import { CarrierAdapter, CarrierResult, Shipment } from '@/lib/services/carriers/types';
+
+const TOKEN_URL = 'https://api.post.ch/OAuth/token';
+const LABEL_URL = 'https://dcapi.apis.post.ch/barcode/v1/generateAddressLabel';
+
+/**
+ * Swiss Post Digital Commerce API (barcode / address label service)
+ * Needs SWISS_POST_CLIENT_ID, SWISS_POST_CLIENT_SECRET and SWISS_POST_FRANKING_LICENSE
+ */
+export class SwissPostAdapter implements CarrierAdapter {
+  readonly id = 'swiss-post' as const;
+  readonly name = 'Swiss Post';
+  readonly sandbox = false;
+
+  private token: { value: string; expiresAt: number } | null = null;
+
+  static isConfigured(): boolean {
+    return !!(
+      process.env.SWISS_POST_CLIENT_ID &&
+      process.env.SWISS_POST_CLIENT_SECRET &&
+      process.env.SWISS_POST_FRANKING_LICENSE
+    );
+  }
+
+  async createShipment(pkg: Package): Promise<CarrierResult<Shipment>> {
+    try {
+      const address = pkg.shippingAddress;
+      const token = await this.getAccessToken();
+
+      const response = await axios.post(
+        LABEL_URL,
+        {
+          language: 'DE',
+          frankingLicense: process.env.SWISS_POST_FRANKING_LICENSE,
+          ppFranking: false,
+          customer: {
+            name1: process.env.SWISS_POST_SENDER_NAME || 'Welmora',
+            street: process.env.SWISS_POST_SENDER_STREET,
+            zip: process.env.SWISS_POST_SENDER_ZIP,
+            city: process.env.SWISS_POST_SENDER_CITY,
+            country: 'CH',
+          },
+          labelDefinition: {
+            labelLayout: 'A6',
+            printAddresses: 'RECIPIENT_AND_CUSTOMER',
+            imageFileType: 'PDF',
+            imageResolution: 300,
+          },
+          item: {
+            itemID: String(pkg.orderId),
+            recipient: {
+              name1: [address.first_name, address.last_name].filter(Boolean).join(' '),
+              name2: address.company || undefined,
+              street: address.address_1,
+              addressSuffix: address.address_2 || undefined,
+              zip: address.postcode,
+              city: address.city,
+              country: address.country || 'CH',
+              phone: address.phone || undefined,
+            },
+            attributes: {
+              przl: ['PRI'],
+              weight: Math.round(calculatePackageWeight(pkg) * 1000), // grams
+            },
+          },
+        },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      const item = response.data?.item;
+      if (!item?.identCode) {
+        const message = item?.errors?.[0]?.message || 'No ident code returned';
+        return { success: false, error: `Swiss Post: ${message}` };
+      }
+
+      // The ident code is both the shipment reference and the tracking number
+      return {
+        success: true,
+        data: {
+          carrier: this.id,
+          shipmentId: item.identCode,
+          trackingNumber: item.identCode,
+          labelPdf: item.label?.[0],
+        },
+      };
+    } catch (error) {
+      console.error(`Swiss Post shipment for order ${pkg.orderId} failed:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async getTrackingNumber(shipmentId: string): Promise<CarrierResult<string>> {
+    return { success: true, data: shipmentId };
+  }
+
+  async cancelShipment(shipmentId: string): Promise<CarrierResult<void>> {
+    // The label API has no cancellation - labels that are never handed over are not billed
+    console.log(`Swiss Post label ${shipmentId} discarded (not handed over, not billed)`);
+    return { success: true };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt) {
+      return this.token.value;
+    }
+
+    const response = await axios.post(
+      TOKEN_URL,
+      new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: process.env.SWISS_POST_CLIENT_ID || '',
+        client_secret: process.env.SWISS_POST_CLIENT_SECRET || '',
+        scope: 'DCAPI_BARCODE_READ',
+      }),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+
+    this.token = {
+      value: response.data.access_token,
+      // Renew a minute early
+      expiresAt: Date.now() + (response.data.expires_in - 60) * 1000,
+    };
+
+    return this.token.value;
+  }
+}
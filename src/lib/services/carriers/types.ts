@@ -0,0 +1,29 @@
+import { Package } from '@/types/woocommerce-api';
+
+export type CarrierId = 'swiss-post' | 'hrvatska-posta';
+
+export interface Shipment {
+  carrier: CarrierId;
+  shipmentId: string;
+  trackingNumber?: string;
+  labelPdf?: string; // Base64 label returned by the carrier, when it provides one
+}
+
+export interface CarrierResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * A carrier integration - one implementation per carrier API, plus the mock used offline
+ */
+export interface CarrierAdapter {
+  readonly id: CarrierId;
+  readonly name: string;
+  readonly sandbox: boolean;
+
+  createShipment(pkg: Package): Promise<CarrierResult<Shipment>>;
+  getTrackingNumber(shipmentId: string): Promise<CarrierResult<string>>;
+  cancelShipment(shipmentId: string): Promise<CarrierResult<void>>;
+}
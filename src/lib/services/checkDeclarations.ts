@@ -1,29 +1,5 @@
-import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
-import { getWooCommerceProducts } from '@/lib/api/woocommerce/client';
-
-// Extended interface for WooCommerce products with additional fields
-interface ExtendedWooCommerceProduct {
-  id: number;
-  name: string;
-  sku: string;
-  price: string;
-  weight?: string;
-  images: Array<{ src: string }>;
-  categories?: Array<{ name: string }>;
-  stock_status?: string;
-  date_modified?: string;
-  date_created?: string;
-}
-
-// Interface for Supabase storage file objects
-interface StorageFile {
-  name: string;
-  id?: string;
-  updated_at?: string;
-  created_at?: string;
-  last_accessed_at?: string;
-  metadata?: Record<string, unknown>;
-}
+import { listCatalogProducts } from '@/lib/services/productCatalog';
+import { loadStickerIndex } from '@/lib/services/stickerIndex';
 
 export interface DeclarationStatus {
   sku: string;
@@ -52,7 +28,8 @@ export interface DeclarationReport {
 
 /**
  * Comprehensive check of all products and their declaration status
- * Fetches all products from WooCommerce and checks if they have PDF declarations in Supabase
+ * Fetches all products from WooCommerce and checks if they have PDF declarations in Supabase,
+ * using the sticker index
  */
 export async function checkAllProductDeclarations(): Promise<DeclarationReport> {
   console.log('Starting comprehensive product declaration check...');
@@ -71,9 +48,13 @@ export async function checkAllProductDeclarations(): Promise<DeclarationReport>
   };
 
   try {
-    // Step 1: Get all products from WooCommerce
-    console.log('Fetching all products from WooCommerce...');
-    const allProducts = await getAllWooCommerceProducts();
+    // Step 1: Get all products from the catalogue mirror
+    console.log('Fetching all products from catalogue...');
+    const catalogResult = await listCatalogProducts('ch', { status: 'publish' });
+    if (!catalogResult.success || !catalogResult.data) {
+      throw new Error(catalogResult.error || 'Failed to load product catalogue');
+    }
+    const allProducts = catalogResult.data.products;
 
     if (allProducts.length === 0) {
       console.warn('No products found in WooCommerce');
@@ -83,6 +64,13 @@ export async function checkAllProductDeclarations(): Promise<DeclarationReport>
     console.log(`Found ${allProducts.length} products in WooCommerce`);
     report.totalProducts = allProducts.length;
 
+    // One index read instead of a bucket search per product
+    const indexResult = await loadStickerIndex();
+    if (!indexResult.success || !indexResult.data) {
+      throw new Error(indexResult.error || 'Failed to load sticker index');
+    }
+    const stickerIndex = indexResult.data;
+
     // Step 2: Check each product for declarations
     console.log('Checking declaration status for each product...');
 
@@ -102,26 +90,18 @@ export async function checkAllProductDeclarations(): Promise<DeclarationReport>
         lastModified: product.date_modified || product.date_created || 'unknown',
       };
 
-      try {
-        // Check if PDF exists in Supabase storage
-        const pdfPath = await findDeclarationPdf(product.sku);
+      const pdfPath = stickerIndex.get(product.sku)?.path;
 
-        if (pdfPath) {
-          declarationStatus.hasDeclaration = true;
-          declarationStatus.declarationPath = pdfPath;
-          report.withDeclarations++;
-          report.summary.productsWithDeclarations.push(declarationStatus);
-          console.log(`  ✅ Declaration found: ${pdfPath}`);
-        } else {
-          report.missingDeclarations++;
-          report.summary.productsWithoutDeclarations.push(declarationStatus);
-          console.log(`  ❌ No declaration found`);
-        }
-      } catch (error) {
-        declarationStatus.error = error instanceof Error ? error.message : 'Unknown error';
+      if (pdfPath) {
+        declarationStatus.hasDeclaration = true;
+        declarationStatus.declarationPath = pdfPath;
+        report.withDeclarations++;
+        report.summary.productsWithDeclarations.push(declarationStatus);
+        console.log(`  ✅ Declaration found: ${pdfPath}`);
+      } else {
         report.missingDeclarations++;
         report.summary.productsWithoutDeclarations.push(declarationStatus);
-        console.error(`  ⚠️ Error checking declaration: ${declarationStatus.error}`);
+        console.log(`  ❌ No declaration found`);
       }
 
       report.products.push(declarationStatus);
@@ -148,145 +128,6 @@ export async function checkAllProductDeclarations(): Promise<DeclarationReport>
   }
 }
 
-/**
- * Get all products from WooCommerce (handles pagination)
- */
-async function getAllWooCommerceProducts(): Promise<ExtendedWooCommerceProduct[]> {
-  const allProducts: ExtendedWooCommerceProduct[] = [];
-  let page = 1;
-  const perPage = 100; // Maximum allowed by WooCommerce API
-
-  while (true) {
-    console.log(`Fetching products page ${page}...`);
-
-    const response = await getWooCommerceProducts({
-      page,
-      per_page: perPage,
-      status: 'publish',
-    });
-
-    if (!response.success || !response.data) {
-      console.error(`Failed to fetch products page ${page}:`, response.error);
-      break;
-    }
-
-    // Cast to extended interface to access additional properties
-    const products = response.data as ExtendedWooCommerceProduct[];
-    allProducts.push(...products);
-
-    console.log(`  Retrieved ${products.length} products from page ${page}`);
-
-    // If we got fewer products than requested, we've reached the end
-    if (products.length < perPage) {
-      break;
-    }
-
-    page++;
-  }
-
-  return allProducts;
-}
-
-/**
- * Search for declaration PDF in Supabase storage
- * Uses the same logic as the ZIP generation function
- */
-async function findDeclarationPdf(sku: string): Promise<string | null> {
-  if (!sku) {
-    return null;
-  }
-
-  try {
-    // Use the same search logic as generateZipFromSkus
-    const { data, error } = await getSupabaseServiceClient()
-      .storage.from('stickers')
-      .list('', {
-        limit: 2000,
-        search: sku,
-        sortBy: { column: 'name', order: 'asc' },
-      });
-
-    if (error) {
-      console.error(`Error searching for SKU ${sku}:`, error);
-      return null;
-    }
-
-    if (!data || data.length === 0) {
-      // Try recursive search as fallback
-      return await searchRecursively('stickers', sku, '');
-    }
-
-    // Look for exact match first
-    const exactMatch = data.find((file: StorageFile) => file.name === `${sku}.pdf`);
-    if (exactMatch) {
-      return exactMatch.name;
-    }
-
-    // Look for path match
-    const pathMatch = data.find((file: StorageFile) => file.name.endsWith(`/${sku}.pdf`));
-    if (pathMatch) {
-      return pathMatch.name;
-    }
-
-    // Look for partial match
-    const partialMatch = data.find(
-      (file: StorageFile) => file.name.includes(sku) && file.name.endsWith('.pdf')
-    );
-    if (partialMatch) {
-      return partialMatch.name;
-    }
-
-    return null;
-  } catch (error) {
-    console.error(`Exception searching for SKU ${sku}:`, error);
-    return null;
-  }
-}
-
-/**
- * Recursive search through folders
- */
-async function searchRecursively(
-  bucket: string,
-  sku: string,
-  folder: string = ''
-): Promise<string | null> {
-  try {
-    const { data, error } = await getSupabaseServiceClient()
-      .storage.from(bucket)
-      .list(folder, {
-        limit: 1000,
-        sortBy: { column: 'name', order: 'asc' },
-      });
-
-    if (error || !data) {
-      return null;
-    }
-
-    // Check files in current folder
-    const pdfFile = data.find((item: StorageFile) => item.name === `${sku}.pdf`);
-    if (pdfFile) {
-      return folder ? `${folder}/${pdfFile.name}` : pdfFile.name;
-    }
-
-    // Search subfolders
-    const subFolders = data.filter(
-      (item: StorageFile) => !item.name.includes('.') && item.name !== '.'
-    );
-    for (const subFolder of subFolders) {
-      const subPath = folder ? `${folder}/${subFolder.name}` : subFolder.name;
-      const found = await searchRecursively(bucket, sku, subPath);
-      if (found) {
-        return found;
-      }
-    }
-
-    return null;
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Export declaration report to CSV format
  */
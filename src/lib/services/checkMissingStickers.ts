@@ -1,19 +1,5 @@
-import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
-import { getWooCommerceProducts } from '@/lib/api/woocommerce/client';
-
-// Extended interface for WooCommerce products with additional fields
-interface ExtendedWooCommerceProduct {
-    id: number;
-    name: string;
-    sku: string;
-    price: string;
-    weight?: string;
-    images: Array<{ src: string }>;
-    categories?: Array<{ name: string }>;
-    stock_status?: string;
-    date_modified?: string;
-    date_created?: string;
-}
+import { listCatalogProducts } from '@/lib/services/productCatalog';
+import { loadStickerIndex } from '@/lib/services/stickerIndex';
 
 export interface MissingStickerProduct {
     sku: string;
@@ -22,6 +8,7 @@ export interface MissingStickerProduct {
     price: string;
     stockStatus: string;
     lastModified: string;
+    uploadUrl: string; // Sticker page with the upload form for this SKU
 }
 
 export interface MissingStickersReport {
@@ -35,7 +22,8 @@ export interface MissingStickersReport {
 
 /**
  * Check all WooCommerce products for missing stickers in Supabase storage
- * Returns a list of products that don't have corresponding PDF files in the stickers bucket
+ * Returns a list of products that don't have corresponding PDF files in the stickers bucket,
+ * according to the sticker index (new uploads show up once it has been rebuilt)
  */
 export async function checkMissingStickers(quick: boolean = false): Promise<MissingStickersReport> {
     console.log('Starting missing stickers check...');
@@ -50,9 +38,13 @@ export async function checkMissingStickers(quick: boolean = false): Promise<Miss
     };
 
     try {
-        // Step 1: Get all products from WooCommerce
-        console.log('Fetching all products from WooCommerce...');
-        const allProducts = await getAllWooCommerceProducts();
+        // Step 1: Get all products from the catalogue mirror
+        console.log('Fetching all products from catalogue...');
+        const catalogResult = await listCatalogProducts('ch', { status: 'publish' });
+        if (!catalogResult.success || !catalogResult.data) {
+            throw new Error(catalogResult.error || 'Failed to load product catalogue');
+        }
+        const allProducts = catalogResult.data.products;
 
         if (allProducts.length === 0) {
             console.warn('No products found in WooCommerce');
@@ -65,6 +57,13 @@ export async function checkMissingStickers(quick: boolean = false): Promise<Miss
         console.log(`Found ${allProducts.length} products in WooCommerce${quick ? ' (testing first 10)' : ''}`);
         report.totalProducts = productsToCheck.length;
 
+        // One index read instead of a bucket search per product
+        const indexResult = await loadStickerIndex();
+        if (!indexResult.success || !indexResult.data) {
+            throw new Error(indexResult.error || 'Failed to load sticker index');
+        }
+        const stickerIndex = indexResult.data;
+
         // Step 2: Check each product for stickers
         console.log('Checking sticker availability for each product...');
 
@@ -74,27 +73,12 @@ export async function checkMissingStickers(quick: boolean = false): Promise<Miss
 
             console.log(`[${progress}] Checking product: ${product.sku} - ${product.name}`);
 
-            try {
-                // Check if PDF exists in Supabase storage
-                const pdfPath = await findStickerInStorage(product.sku);
+            const pdfPath = stickerIndex.get(product.sku)?.path;
 
-                if (pdfPath) {
-                    report.productsWithStickers++;
-                    console.log(`  ✅ Sticker found: ${pdfPath}`);
-                } else {
-                    report.productsWithoutStickers++;
-                    const missingProduct: MissingStickerProduct = {
-                        sku: product.sku,
-                        name: product.name,
-                        productId: product.id,
-                        price: product.price,
-                        stockStatus: product.stock_status || 'unknown',
-                        lastModified: product.date_modified || product.date_created || 'unknown',
-                    };
-                    report.missingStickers.push(missingProduct);
-                    console.log(`  ❌ No sticker found`);
-                }
-            } catch {
+            if (pdfPath) {
+                report.productsWithStickers++;
+                console.log(`  ✅ Sticker found: ${pdfPath}`);
+            } else {
                 report.productsWithoutStickers++;
                 const missingProduct: MissingStickerProduct = {
                     sku: product.sku,
@@ -103,9 +87,10 @@ export async function checkMissingStickers(quick: boolean = false): Promise<Miss
                     price: product.price,
                     stockStatus: product.stock_status || 'unknown',
                     lastModified: product.date_modified || product.date_created || 'unknown',
+                    uploadUrl: `/stickers?sku=${encodeURIComponent(product.sku)}`,
                 };
                 report.missingStickers.push(missingProduct);
-                console.error(`  ⚠️ Error checking sticker: Unknown error`);
+                console.log(`  ❌ No sticker found`);
             }
         }
 
@@ -128,170 +113,3 @@ export async function checkMissingStickers(quick: boolean = false): Promise<Miss
         throw error;
     }
 }
-
-/**
- * Get all products from WooCommerce (handles pagination)
- */
-async function getAllWooCommerceProducts(): Promise<ExtendedWooCommerceProduct[]> {
-    const allProducts: ExtendedWooCommerceProduct[] = [];
-    let page = 1;
-    const perPage = 100; // Maximum allowed by WooCommerce API
-
-    while (true) {
-        console.log(`Fetching products page ${page}...`);
-
-        const response = await getWooCommerceProducts({
-            page,
-            per_page: perPage,
-            status: 'publish',
-        });
-
-        if (!response.success || !response.data) {
-            console.error(`Failed to fetch products page ${page}:`, response.error);
-            break;
-        }
-
-        // Cast to extended interface to access additional properties
-        const products = response.data as ExtendedWooCommerceProduct[];
-        allProducts.push(...products);
-
-        console.log(`  Retrieved ${products.length} products from page ${page}`);
-
-        // If we got fewer products than requested, we've reached the end
-        if (products.length < perPage) {
-            break;
-        }
-
-        page++;
-    }
-
-    return allProducts;
-}
-
-/**
- * Search for sticker PDF in Supabase storage
- * Enhanced version that relies on comprehensive recursive search since Supabase search API is unreliable
- */
-async function findStickerInStorage(sku: string): Promise<string | null> {
-    try {
-        // Use comprehensive recursive search as primary method
-        const recursiveResult = await comprehensiveRecursiveSearch(sku);
-        if (recursiveResult) {
-            return recursiveResult;
-        }
-
-        // Fallback to direct search API (though it's less reliable)
-        const { data: searchResults, error: searchError } = await getSupabaseServiceClient()
-            .storage.from('stickers')
-            .list('', {
-                limit: 1000,
-                search: sku
-            });
-
-        if (searchError) {
-            console.error(`❌ Search error for ${sku}: ${searchError.message}`);
-            return null;
-        }
-
-        const pdfFile = searchResults?.find(file =>
-            file.name.toLowerCase().includes(sku.toLowerCase()) &&
-            file.name.toLowerCase().endsWith('.pdf')
-        );
-
-        if (pdfFile) {
-            return pdfFile.name;
-        }
-
-        return null;
-    } catch {
-        return null;
-    }
-}
-
-/**
- * Comprehensive search that checks all known brand folders and their subfolders
- */
-async function comprehensiveRecursiveSearch(sku: string): Promise<string | null> {
-    const targetFileName = `${sku}.pdf`;
-
-    try {
-        // Get all top-level folders
-        const { data: topFolders, error: topError } = await getSupabaseServiceClient()
-            .storage.from('stickers')
-            .list('', { limit: 100 });
-
-        if (topError) {
-            console.error(`❌ Error listing top folders: ${topError.message}`);
-            return null;
-        }
-
-        // Filter to get only folders (not files) - folders don't end with file extensions
-        const folders = topFolders?.filter(item =>
-            !item.name.endsWith('.pdf') &&
-            !item.name.endsWith('.jpg') &&
-            !item.name.endsWith('.png') &&
-            !item.name.endsWith('.txt') &&
-            item.name !== '.'
-        ) || [];
-
-        for (const folder of folders) {
-            const result = await searchInFolder(folder.name, targetFileName);
-            if (result) {
-                return result;
-            }
-        }
-
-        return null;
-    } catch (error) {
-        console.error(`❌ Error in comprehensive search:`, error);
-        return null;
-    }
-}
-
-/**
- * Recursive search through folders - enhanced version with detailed logging
- */
-async function searchInFolder(folderPath: string, targetFileName: string): Promise<string | null> {
-    try {
-        const { data: items, error } = await getSupabaseServiceClient()
-            .storage.from('stickers')
-            .list(folderPath, { limit: 1000 });
-
-        if (error) {
-            return null;
-        }
-
-        if (!items) return null;
-
-        // Check for the target file in current folder
-        const targetFile = items.find(item =>
-            item.name.toLowerCase() === targetFileName.toLowerCase()
-        );
-
-        if (targetFile) {
-            const fullPath = `${folderPath}/${targetFile.name}`;
-            return fullPath;
-        }
-
-        // Recursively search subfolders - fix folder filtering logic
-        const subFolders = items.filter(item =>
-            !item.name.endsWith('.pdf') &&
-            !item.name.endsWith('.jpg') &&
-            !item.name.endsWith('.png') &&
-            !item.name.endsWith('.txt') &&
-            item.name !== '.'
-        );
-
-        for (const subFolder of subFolders) {
-            const subPath = `${folderPath}/${subFolder.name}`;
-            const result = await searchInFolder(subPath, targetFileName);
-            if (result) {
-                return result;
-            }
-        }
-
-        return null;
-    } catch {
-        return null;
-    }
-} 
\ No newline at end of file
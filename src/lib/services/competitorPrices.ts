@@ -0,0 +1,197 @@
+import WooCommerce from '@/lib/api/woocommerce/client';
+import { AuditActor, AuditChange, pickMeta, recordAudit } from '@/lib/services/auditLog';
+import { enqueueJob } from '@/lib/services/jobs/queue';
+import { recordPriceHistory } from '@/lib/services/priceHistory';
+import { upsertCatalogProduct } from '@/lib/services/productCatalog';
+import { getCompetitorMetaKeys, getCompetitorScraper } from '@/lib/services/scrapers/registry';
+import { CompetitorId } from '@/lib/services/scrapers/types';
+import { CatalogProduct } from '@/types/woocommerce-api';
+
+export interface CompetitorUpdateStats {
+  total: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+}
+
+// Products per scraping job, small enough to finish well within one job runner call
+const PRICE_JOB_BATCH_SIZE = 10;
+
+// Audit entry of a competitor meta write; timestamps are left out of the audit log
+function metaChange(
+  action: AuditChange['action'],
+  product: CatalogProduct,
+  updated: CatalogProduct,
+  id: CompetitorId
+): AuditChange {
+  const keys = getCompetitorMetaKeys(id);
+
+  return {
+    action,
+    entityType: 'product',
+    entityId: product.sku,
+    entityName: product.name,
+    store: 'ch',
+    before: pickMeta(product.meta_data, [keys.price, keys.url]),
+    after: pickMeta(updated.meta_data, [keys.price, keys.url]),
+  };
+}
+
+/**
+ * Scrape a competitor's prices for the products and store them
+ * Every scraped GTIN gets a price history row; products the competitor has get their price,
+ * URL and scrape time as WooCommerce meta (_dm_price, _mueller_price, ...).
+ */
+export async function updateCompetitorPrices(
+  id: CompetitorId,
+  products: CatalogProduct[],
+  actor: AuditActor
+): Promise<CompetitorUpdateStats> {
+  const scraper = getCompetitorScraper(id);
+  const keys = getCompetitorMetaKeys(id);
+
+  // Extract GTINs from products (use SKU as GTIN)
+  const gtins = products.map(product => product.sku).filter(sku => sku && sku.length > 0);
+  console.log(`Processing ${gtins.length} GTINs for ${scraper.name} scraping`);
+
+  const results = await scraper.scrapeProducts(gtins);
+  console.log(
+    `${scraper.name} scraping completed. Processing ${Object.keys(results).length} results`
+  );
+
+  await recordPriceHistory(
+    id,
+    Object.fromEntries(gtins.map(gtin => [gtin, results[gtin] || { error: 'No result' }]))
+  );
+
+  const stats: CompetitorUpdateStats = {
+    total: products.length,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+  };
+  const changes: AuditChange[] = [];
+
+  for (const product of products) {
+    try {
+      const data = results[product.sku];
+
+      if (data && (data.price || data.productUrl)) {
+        console.log(`Updating ${scraper.name} data for: ${product.name} (${product.sku})`);
+
+        const response = await WooCommerce.put(`products/${product.id}`, {
+          meta_data: [
+            { key: keys.price, value: data.price?.toString() || '' },
+            { key: keys.url, value: data.productUrl || '' },
+            { key: keys.lastUpdated, value: new Date().toISOString() },
+          ],
+        });
+        await upsertCatalogProduct('ch', response.data);
+        changes.push(metaChange(`${id}-prices`, product, response.data as CatalogProduct, id));
+        stats.updated++;
+        console.log(`✓ Updated ${scraper.name} data for ${product.name}: €${data.price}`);
+      } else {
+        stats.skipped++;
+        if (data?.error) {
+          console.log(`⚠ Skipped ${product.name}: ${data.error}`);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to update ${scraper.name} data for ${product.name}:`, error);
+      stats.errors++;
+    }
+  }
+
+  await recordAudit(actor, changes);
+  return stats;
+}
+
+/**
+ * Enqueue the price update of the products as background jobs of PRICE_JOB_BATCH_SIZE products
+ * Scraping a whole catalogue takes hours, far longer than one request may run; the job runner
+ * works through the batches. Every competitor gets its own jobs, so one slow or failing shop
+ * does not hold up the others.
+ *
+ * @returns Number of jobs enqueued
+ */
+export async function enqueueCompetitorPriceJobs(
+  sources: CompetitorId[],
+  products: CatalogProduct[],
+  actor: AuditActor
+): Promise<number> {
+  const productIds = products.filter(product => product.sku).map(product => product.id);
+  let enqueued = 0;
+
+  for (const source of sources) {
+    for (let i = 0; i < productIds.length; i += PRICE_JOB_BATCH_SIZE) {
+      const result = await enqueueJob('competitor-prices', {
+        source,
+        productIds: productIds.slice(i, i + PRICE_JOB_BATCH_SIZE),
+        actor,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to enqueue ${source} price update`);
+      }
+      enqueued++;
+    }
+  }
+
+  console.log(
+    `Enqueued ${enqueued} ${sources.join(', ')} price jobs for ${productIds.length} products`
+  );
+  return enqueued;
+}
+
+/**
+ * Empty a competitor's price meta on every product that has it
+ * The price history is kept.
+ */
+export async function cleanCompetitorData(
+  id: CompetitorId,
+  products: CatalogProduct[],
+  actor: AuditActor
+): Promise<CompetitorUpdateStats> {
+  const keys = getCompetitorMetaKeys(id);
+  const stats: CompetitorUpdateStats = {
+    total: products.length,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+  };
+  const changes: AuditChange[] = [];
+
+  for (const product of products) {
+    try {
+      const hasData = (product.meta_data || []).some(meta =>
+        [keys.price, keys.url, keys.lastUpdated].includes(meta.key)
+      );
+
+      if (!hasData) {
+        stats.skipped++;
+        continue;
+      }
+
+      console.log(`Cleaning ${id} data for: ${product.name}`);
+
+      // Remove the meta data by setting it to empty
+      const response = await WooCommerce.put(`products/${product.id}`, {
+        meta_data: [
+          { key: keys.price, value: '' },
+          { key: keys.url, value: '' },
+          { key: keys.lastUpdated, value: '' },
+        ],
+      });
+      await upsertCatalogProduct('ch', response.data);
+      changes.push(metaChange(`${id}-clean`, product, response.data as CatalogProduct, id));
+      stats.updated++;
+      console.log(`✓ Cleaned ${id} data for ${product.name}`);
+    } catch (error) {
+      console.error(`Failed to clean ${id} data for ${product.name}:`, error);
+      stats.errors++;
+    }
+  }
+
+  await recordAudit(actor, changes);
+  return stats;
+}
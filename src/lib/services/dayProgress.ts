@@ -0,0 +1,66 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { DayProgress, StoreId } from '@/types/woocommerce-api';
+
+/**
+ * Count open shopping items and packages for a day
+ * Based on the shared progress tables, so it only covers days someone has opened
+ */
+export async function getDayProgress(
+  date: string,
+  stores: StoreId[]
+): Promise<{ success: boolean; data?: DayProgress; error?: string }> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const [shoppingResult, packingResult] = await Promise.all([
+      supabase
+        .from('shopping_progress')
+        .select('sku, needed, purchased')
+        .eq('date', date)
+        .in('store', stores)
+        .overrideTypes<
+          Array<{ sku: string; needed: number; purchased: number }>,
+          { merge: false }
+        >(),
+      supabase
+        .from('packing_packages')
+        .select('status, packing_sessions!inner(date)')
+        .eq('packing_sessions.date', date)
+        .in('store', stores)
+        .overrideTypes<Array<{ status: string }>, { merge: false }>(),
+    ]);
+
+    if (shoppingResult.error || packingResult.error) {
+      throw new Error(shoppingResult.error?.message || packingResult.error?.message);
+    }
+
+    // A SKU is open while any webshop still needs units of it
+    const openBySku = new Map<string, boolean>();
+    (shoppingResult.data || []).forEach(row => {
+      openBySku.set(row.sku, openBySku.get(row.sku) || false || row.purchased < row.needed);
+    });
+
+    const packages = packingResult.data || [];
+
+    return {
+      success: true,
+      data: {
+        date,
+        shopping: {
+          remaining: Array.from(openBySku.values()).filter(Boolean).length,
+          total: openBySku.size,
+        },
+        packing: {
+          remaining: packages.filter(pkg => pkg.status !== 'completed').length,
+          total: packages.length,
+        },
+      },
+    };
+  } catch (error) {
+    console.error(`Error getting day progress for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { broadcastDayUpdate } from '@/lib/api/supabase/realtime';
+import { generateDailySnapshot, getPackagesForDate } from '@/lib/api/woocommerce/client';
+import { STORE_IDS } from '@/lib/api/woocommerce/stores';
+import {
+  getOrderWorkday,
+  getWorkdayConfig,
+  getWorkdayForInstant,
+} from '@/lib/api/woocommerce/workday';
+import { getDayProgress } from '@/lib/services/dayProgress';
+import { getPackingDaysForOrder, syncPackingSession } from '@/lib/services/packingSessions';
+import { syncShoppingProgress } from '@/lib/services/shoppingProgress';
+import { SnapshotInvalidation, StoreId } from '@/types/woocommerce-api';
+
+export interface DayRefreshResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Re-read one webshop's orders of a day into the stored shopping and packing progress,
+ * then tell every open device to reload the day
+ * Only days someone has opened have stored progress; for other days just the broadcast is sent.
+ *
+ * @param date - Day in YYYY-MM-DD format
+ * @param change - What changed, passed on to the devices
+ */
+export async function refreshDay(
+  date: string,
+  change: SnapshotInvalidation
+): Promise<DayRefreshResult<{ synced: boolean }>> {
+  try {
+    const progress = await getDayProgress(date, STORE_IDS);
+    const opened =
+      progress.success &&
+      !!progress.data &&
+      progress.data.shopping.total + progress.data.packing.total > 0;
+
+    if (opened) {
+      const [packages, snapshot] = await Promise.all([
+        getPackagesForDate(date, change.store),
+        generateDailySnapshot(date, change.store),
+      ]);
+
+      if (!packages.success || !packages.data || !snapshot.success || !snapshot.data) {
+        throw new Error(packages.error || snapshot.error || 'Failed to fetch orders');
+      }
+
+      const [packing, shopping] = await Promise.all([
+        syncPackingSession(date, change.store, packages.data),
+        syncShoppingProgress(date, change.store, snapshot.data.products),
+      ]);
+
+      if (!packing.success || !shopping.success) {
+        throw new Error(packing.error || shopping.error);
+      }
+    }
+
+    await broadcastDayUpdate(date, 'snapshot', change);
+
+    return { success: true, data: { synced: opened } };
+  } catch (error) {
+    console.error(`Error refreshing ${change.store} orders for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Refresh every day an order belongs to after order.updated / order.deleted
+ * Uses the days whose packing session contains the order plus, when the payload has one,
+ * the day of its creation time - deleted orders only carry their id.
+ */
+export async function refreshDaysForOrder(
+  store: StoreId,
+  order: { id: number; date_created?: string; date_created_gmt?: string },
+  topic: string
+): Promise<DayRefreshResult<{ dates: string[] }>> {
+  try {
+    const dates = new Set(await getPackingDaysForOrder(store, order.id));
+    if (order.date_created) {
+      dates.add(
+        getOrderWorkday({
+          date_created: order.date_created,
+          date_created_gmt: order.date_created_gmt,
+        })
+      );
+    }
+
+    for (const date of dates) {
+      const result = await refreshDay(date, { store, topic, orderId: order.id });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    }
+
+    console.log(`Order ${store}-${order.id} (${topic}) refreshed days:`, Array.from(dates));
+
+    return { success: true, data: { dates: Array.from(dates) } };
+  } catch (error) {
+    console.error(`Error refreshing days for ${store} order ${order.id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Refresh the current day after a product change (stock, price or SKU)
+ * Shopping lists and packages carry product names, SKUs and weights from the catalogue.
+ */
+export async function refreshCurrentDayForProduct(
+  store: StoreId,
+  productId: number,
+  topic: string
+): Promise<DayRefreshResult<{ synced: boolean }>> {
+  const today = getWorkdayForInstant(new Date(), getWorkdayConfig());
+  return refreshDay(today, { store, topic, productId });
+}
@@ -0,0 +1,118 @@
+import { downloadFileAsBuffer } from '@/lib/api/supabase/client';
+import { DocumentLocale, generateStickerCoverPdf } from '@/lib/services/printDocuments';
+import { findStickerPath, STICKER_BUCKET } from '@/lib/services/stickerIndex';
+import { StickerManifest } from '@/types/woocommerce-api';
+import { PDFDocument } from 'pdf-lib';
+
+interface StickerLine {
+  sku: string;
+  quantity: number;
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+
+/**
+ * Generate one print-ready PDF with the stickers of an order
+ * Stickers follow the order lines and each one is repeated by the line's quantity,
+ * so the PDF can be printed as-is instead of opening every file of the ZIP
+ *
+ * @param lines - SKUs and quantities from the order's line_items, in order
+ * @param orderId - Order ID for logging and the cover page
+ * @param options - Cover page listing missing SKUs, and its language
+ * @returns PDF buffer and the manifest of which SKUs were included or missing
+ */
+export async function generateStickerPdf(
+  lines: StickerLine[],
+  orderId: number,
+  options: { coverPage?: boolean; locale: DocumentLocale }
+): Promise<{ pdfBuffer: Buffer; manifest: StickerManifest }> {
+  const merged = await PDFDocument.create();
+  const manifest: StickerManifest = { skus: [], included: [], missing: [], quantities: [] };
+  // Same SKU on several lines is downloaded once
+  const stickers = new Map<string, PDFDocument | null>();
+
+  console.log(`Generating sticker PDF for order ${orderId} with ${lines.length} lines`);
+
+  for (let index = 0; index < lines.length; index++) {
+    const { sku } = lines[index];
+    const quantity = Math.max(1, Math.floor(lines[index].quantity) || 1);
+
+    if (!sku) {
+      console.log(`Skipping line ${index + 1} - no SKU found`);
+      continue;
+    }
+
+    manifest.skus.push(sku);
+    manifest.quantities!.push(quantity);
+
+    if (!stickers.has(sku)) {
+      stickers.set(sku, await loadSticker(sku));
+    }
+
+    const sticker = stickers.get(sku);
+    if (!sticker) {
+      console.log(`❌ Sticker not found for SKU: ${sku} (line ${index + 1})`);
+      manifest.missing.push(sku);
+      continue;
+    }
+
+    // Copied pages can only be added once, so every repetition gets its own copy
+    for (let copy = 0; copy < quantity; copy++) {
+      const pages = await merged.copyPages(sticker, sticker.getPageIndices());
+      pages.forEach(page => merged.addPage(page));
+    }
+
+    manifest.included.push(sku);
+    console.log(`✅ Added ${sku} x${quantity} (${sticker.getPageCount()} page(s) each)`);
+  }
+
+  // Without any sticker the cover page is the whole document
+  if ((options.coverPage && manifest.missing.length > 0) || merged.getPageCount() === 0) {
+    const firstPage = merged.getPageCount() > 0 ? merged.getPage(0).getSize() : null;
+    const coverBuffer = await generateStickerCoverPdf(
+      orderId,
+      manifest.missing,
+      options.locale,
+      firstPage
+        ? {
+            width: `${(firstPage.width / POINTS_PER_MM).toFixed(1)}mm`,
+            height: `${(firstPage.height / POINTS_PER_MM).toFixed(1)}mm`,
+          }
+        : undefined
+    );
+
+    const cover = await PDFDocument.load(coverBuffer);
+    const coverPages = await merged.copyPages(cover, cover.getPageIndices());
+    coverPages.forEach((page, index) => merged.insertPage(index, page));
+  }
+
+  const pdfBuffer = Buffer.from(await merged.save());
+
+  console.log(
+    `Sticker PDF completed for order ${orderId}: ${merged.getPageCount()} pages, ` +
+      `${manifest.missing.length} SKU(s) missing`
+  );
+
+  return { pdfBuffer, manifest };
+}
+
+// Sticker PDF of a SKU from storage, null when it doesn't exist or can't be read
+async function loadSticker(sku: string): Promise<PDFDocument | null> {
+  try {
+    const foundPath = await findStickerPath(sku);
+    if (!foundPath) {
+      return null;
+    }
+
+    const pdfBuffer = await downloadFileAsBuffer(STICKER_BUCKET, foundPath);
+    if (!pdfBuffer) {
+      console.log(`❌ Failed to download PDF from path: ${foundPath}`);
+      return null;
+    }
+
+    return await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+  } catch (error) {
+    console.error(`Error loading sticker for SKU ${sku}:`, error);
+    return null;
+  }
+}
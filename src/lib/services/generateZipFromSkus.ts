@@ -1,4 +1,6 @@
-import { downloadFileAsBuffer, findPdfBySku } from '@/lib/api/supabase/client';
+import { downloadFileAsBuffer } from '@/lib/api/supabase/client';
+import { findStickerPath, STICKER_BUCKET } from '@/lib/services/stickerIndex';
+import { StickerManifest } from '@/types/woocommerce-api';
 import JSZip from 'jszip';
 
 interface SkuItem {
@@ -7,16 +9,21 @@ interface SkuItem {
 
 /**
  * Generate ZIP file containing sticker PDFs ONLY for products in the specific order
- * Uses SKU-only search across entire bucket (ignores folder structure)
+ * Sticker paths come from the sticker index (any folder of the bucket, see stickerIndex.ts)
  * Preserves the original order from the WooCommerce order by using sequential prefixes
  *
  * @param skuItems - Array of SKUs from the order's line_items
  * @param orderId - Order ID for naming the ZIP file
- * @returns ZIP buffer containing only the PDFs for ordered products in the correct order
+ * @returns ZIP buffer containing only the PDFs for ordered products in the correct order,
+ * and the manifest of which SKUs were included or missing
  */
-export async function generateZipFromSkus(skuItems: SkuItem[], orderId: number): Promise<Buffer> {
+export async function generateZipFromSkus(
+  skuItems: SkuItem[],
+  orderId: number
+): Promise<{ zipBuffer: Buffer; manifest: StickerManifest }> {
   const zip = new JSZip();
   let addedFiles = 0;
+  const manifest: StickerManifest = { skus: [], included: [], missing: [] };
 
   console.log(
     `Generating ZIP for order ${orderId} with ${skuItems.length} SKUs (preserving order)`
@@ -31,14 +38,16 @@ export async function generateZipFromSkus(skuItems: SkuItem[], orderId: number):
       continue;
     }
 
+    manifest.skus.push(sku);
+
     try {
       console.log(`Processing item ${index + 1}/${skuItems.length} - SKU: ${sku}`);
 
-      // Search for PDF by SKU across entire bucket (no folder structure needed)
-      const foundPath = await findPdfBySku('stickers', sku);
+      // Look up the sticker path in the index (no folder structure needed)
+      const foundPath = await findStickerPath(sku);
 
       if (foundPath) {
-        const pdfBuffer = await downloadFileAsBuffer('stickers', foundPath);
+        const pdfBuffer = await downloadFileAsBuffer(STICKER_BUCKET, foundPath);
 
         if (pdfBuffer) {
           // Add sequential prefix to preserve order (001_, 002_, etc.)
@@ -47,16 +56,20 @@ export async function generateZipFromSkus(skuItems: SkuItem[], orderId: number):
 
           zip.file(fileName, pdfBuffer);
           addedFiles++;
+          manifest.included.push(sku);
 
           console.log(`✅ Added ${fileName} (${pdfBuffer.length} bytes) from ${foundPath}`);
         } else {
           console.log(`❌ Failed to download PDF from path: ${foundPath}`);
+          manifest.missing.push(sku);
         }
       } else {
         console.log(`❌ PDF not found for SKU: ${sku} (position ${index + 1})`);
+        manifest.missing.push(sku);
       }
     } catch (error) {
       console.error(`Error processing SKU ${sku} at position ${index + 1}:`, error);
+      manifest.missing.push(sku);
     }
   }
 
@@ -64,7 +77,7 @@ export async function generateZipFromSkus(skuItems: SkuItem[], orderId: number):
     console.warn(`No PDF files were added to ZIP for order ${orderId}`);
     zip.file(
       '000_README.txt',
-      `Nema pronađenih PDF stickersa za narudžbu #${orderId}.\n\nTraženi SKU-ovi (po redoslijedu):\n${skuItems.map((item, idx) => `${idx + 1}. ${item.sku}`).join('\n')}\n\nMoguci razlozi:\n- PDF-ovi ne postoje u Supabase storage za ove SKU-ove\n- Nazivi SKU-ova se ne podudaraju točno s nazivima PDF datoteka\n- Datoteke nisu u očekivanom .pdf formatu\n\nNapomena: Ovaj ZIP sadrži samo PDF-ove za proizvode iz ove specifične narudžbe.\nSustav pretražuje cijeli bucket za svaki SKU i čuva redoslijed iz narudžbe.`
+      `Nema pronađenih PDF stickersa za narudžbu #${orderId}.\n\nTraženi SKU-ovi (po redoslijedu):\n${skuItems.map((item, idx) => `${idx + 1}. ${item.sku}`).join('\n')}\n\nMoguci razlozi:\n- PDF-ovi ne postoje u Supabase storage za ove SKU-ove\n- Nazivi SKU-ova se ne podudaraju točno s nazivima PDF datoteka\n- Datoteke nisu u očekivanom .pdf formatu\n- Indeks naljepnica još nije osvježen nakon uploada\n\nNapomena: Ovaj ZIP sadrži samo PDF-ove za proizvode iz ove specifične narudžbe.\nSustav traži svaki SKU u indeksu naljepnica i čuva redoslijed iz narudžbe.`
     );
   }
 
@@ -81,5 +94,5 @@ export async function generateZipFromSkus(skuItems: SkuItem[], orderId: number):
     },
   });
 
-  return zipBuffer;
+  return { zipBuffer, manifest };
 }
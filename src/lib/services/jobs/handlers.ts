@@ -0,0 +1,141 @@
+import { updateCompetitorPrices } from '@/lib/services/competitorPrices';
+import { generateStickerPdf } from '@/lib/services/generateStickerPdf';
+import { generateZipFromSkus } from '@/lib/services/generateZipFromSkus';
+import { JobHandler, JobType } from '@/lib/services/jobs/types';
+import { getMailLocale, getMailRecipients } from '@/lib/services/mail';
+import { hasSentEmail } from '@/lib/services/mail/log';
+import { getCatalogProductsByIds, syncProductCatalog } from '@/lib/services/productCatalog';
+import {
+  groupRecipientsByFormat,
+  isStickerCoverPageEnabled,
+  sendEmailWithAttachment,
+} from '@/lib/services/sendEmailWithAttachment';
+import { rebuildStickerIndex } from '@/lib/services/stickerIndex';
+import { StickerManifest } from '@/types/woocommerce-api';
+
+/**
+ * Build the stickers in the format each recipient wants (ZIP, merged PDF or both) and send them
+ * A failed download or SMTP error throws so the job is retried; recipients that already
+ * got their email in an earlier attempt are skipped
+ */
+const sendDeclarationEmail: JobHandler<'declaration-email'> = async (payload, job) => {
+  console.log(`[job ${job.id}] Declaration email for ${payload.store} order ${payload.orderId}`, {
+    attempt: job.attempts,
+    skus: payload.skus,
+  });
+
+  const groups = groupRecipientsByFormat(getMailRecipients('declarations'));
+  if (groups.length === 0) {
+    throw new Error('No recipients for declarations (MAIL_TO_DECLARATIONS or EMAIL_TO)');
+  }
+
+  let zipBuffer: Buffer | null = null;
+  let manifest: StickerManifest | undefined;
+  if (groups.some(group => group.format !== 'pdf')) {
+    ({ zipBuffer, manifest } =
+      payload.skus.length > 0
+        ? await generateZipFromSkus(
+            payload.skus.map(sku => ({ sku })),
+            payload.orderId
+          )
+        : {
+            zipBuffer: Buffer.from('No valid SKUs found for this order'),
+            manifest: { skus: [], included: [], missing: [] },
+          });
+  }
+
+  // Jobs queued before quantities were stored print one sticker per line
+  const stickerPdf = groups.some(group => group.format !== 'zip')
+    ? await generateStickerPdf(
+        payload.items || payload.skus.map(sku => ({ sku, quantity: 1 })),
+        payload.orderId,
+        { coverPage: isStickerCoverPageEnabled(), locale: getMailLocale() }
+      )
+    : undefined;
+
+  for (const group of groups) {
+    const alreadySent = await hasSentEmail({
+      event: 'declarations',
+      orderId: payload.orderId,
+      recipients: group.to,
+      since: job.createdAt,
+    });
+    if (alreadySent) {
+      console.log(`[job ${job.id}] Already sent to ${group.to.join(', ')}, skipping`);
+      continue;
+    }
+
+    const emailResult = await sendEmailWithAttachment(
+      group.format === 'pdf' ? null : zipBuffer,
+      payload.orderId,
+      payload.orderDetails,
+      payload.store,
+      {
+        manifest,
+        stickerPdf: group.format === 'zip' ? undefined : stickerPdf,
+        to: group.to,
+      }
+    );
+
+    if (!emailResult.success) {
+      console.error(`[job ${job.id}] Email debug info:`, emailResult.debug);
+      throw new Error(emailResult.error || 'Failed to send email');
+    }
+
+    console.log(
+      `[job ${job.id}] ${group.format} email sent with messageId:`,
+      emailResult.messageId
+    );
+  }
+};
+
+// Walk the stickers bucket and update the index; a failed listing throws so the job is retried
+const rebuildIndex: JobHandler<'sticker-index'> = async (payload, job) => {
+  console.log(`[job ${job.id}] Sticker index rebuild (${payload.reason})`);
+
+  const result = await rebuildStickerIndex();
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to rebuild sticker index');
+  }
+
+  console.log(`[job ${job.id}] Sticker index rebuilt:`, result.data);
+};
+
+// Pull changed products into the mirror; a failed sync throws so the job is retried
+const syncCatalog: JobHandler<'catalog-sync'> = async (payload, job) => {
+  console.log(`[job ${job.id}] ${payload.store} product catalogue sync`);
+
+  const result = await syncProductCatalog(payload.store);
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to sync product catalogue');
+  }
+
+  console.log(`[job ${job.id}] Product catalogue synced:`, result.data);
+};
+
+/**
+ * Scrape the batch's products at the job's competitor and store the prices
+ * Products that fail are counted and skipped; only a batch where nothing could be written throws
+ */
+const scrapeCompetitorPrices: JobHandler<'competitor-prices'> = async (payload, job) => {
+  console.log(`[job ${job.id}] ${payload.source} prices of ${payload.productIds.length} products`);
+
+  const catalogResult = await getCatalogProductsByIds('ch', payload.productIds);
+  if (!catalogResult.success || !catalogResult.data) {
+    throw new Error(catalogResult.error || 'Failed to load product catalogue');
+  }
+
+  const stats = await updateCompetitorPrices(payload.source, catalogResult.data, payload.actor);
+  console.log(`[job ${job.id}] ${payload.source} prices updated:`, stats);
+
+  if (stats.total > 0 && stats.errors === stats.total) {
+    throw new Error(`Failed to store ${payload.source} prices of all ${stats.total} products`);
+  }
+};
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  'declaration-email': sendDeclarationEmail,
+  'sticker-index': rebuildIndex,
+  'catalog-sync': syncCatalog,
+  'competitor-prices': scrapeCompetitorPrices,
+};
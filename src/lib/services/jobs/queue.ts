@@ -0,0 +1,244 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { JobPayloads, JobResult, JobType } from '@/lib/services/jobs/types';
+import { BackgroundJob } from '@/types/woocommerce-api';
+
+interface JobRow {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: BackgroundJob['status'];
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+function toBackgroundJob(row: JobRow): BackgroundJob {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    lockedBy: row.locked_by || undefined,
+    lastError: row.last_error || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at || undefined,
+  };
+}
+
+// Exponential backoff: JOB_RETRY_BASE_SECONDS, doubled per attempt, at most 6 hours
+export function getJobRetryDelayMs(attempts: number): number {
+  const base = Number(process.env.JOB_RETRY_BASE_SECONDS) || DEFAULT_RETRY_BASE_SECONDS;
+  const seconds = Math.min(base * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+  return seconds * 1000;
+}
+
+/**
+ * Persist a job; runners pick it up from runAt (default now)
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { maxAttempts?: number; runAt?: Date } = {}
+): Promise<JobResult<BackgroundJob>> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from('jobs')
+      .insert({
+        type,
+        payload,
+        max_attempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        run_at: (options.runAt || new Date()).toISOString(),
+      })
+      .select()
+      .single()
+      .overrideTypes<JobRow, { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to enqueue job');
+    }
+
+    console.log(`Enqueued ${type} job ${data.id}`);
+    return { success: true, data: toBackgroundJob(data) };
+  } catch (error) {
+    console.error(`Error enqueueing ${type} job:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Lock up to `limit` due jobs for a runner (see claim_jobs)
+ */
+export async function claimDueJobs(
+  runner: string,
+  limit: number,
+  lockTimeoutSeconds: number
+): Promise<BackgroundJob[]> {
+  const { data, error } = await getSupabaseServiceClient().rpc('claim_jobs', {
+    p_runner: runner,
+    p_limit: limit,
+    p_lock_timeout_seconds: lockTimeoutSeconds,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return Array.isArray(data) ? data.map(row => toBackgroundJob(row as JobRow)) : [];
+}
+
+/**
+ * Mark a job succeeded
+ * Only while this runner still holds the lock: after a lock timeout the job may have been
+ * claimed by another runner, whose state must not be overwritten.
+ */
+export async function completeJob(job: BackgroundJob): Promise<void> {
+  const now = new Date().toISOString();
+  const { data, error } = await getSupabaseServiceClient()
+    .from('jobs')
+    .update({
+      status: 'succeeded',
+      locked_at: null,
+      locked_by: null,
+      last_error: null,
+      updated_at: now,
+      finished_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.lockedBy || '')
+    .select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) {
+    console.warn(`Job ${job.id} is no longer locked by ${job.lockedBy}, completion ignored`);
+  }
+}
+
+/**
+ * Schedule the next attempt with backoff, or dead-letter the job after its last attempt
+ * Like completeJob, only while this runner still holds the lock.
+ */
+export async function failJob(
+  job: BackgroundJob,
+  errorMessage: string
+): Promise<BackgroundJob['status']> {
+  const now = new Date();
+  const dead = job.attempts >= job.maxAttempts;
+
+  const { data, error } = await getSupabaseServiceClient()
+    .from('jobs')
+    .update({
+      status: dead ? 'dead' : 'queued',
+      run_at: dead
+        ? job.runAt
+        : new Date(now.getTime() + getJobRetryDelayMs(job.attempts)).toISOString(),
+      locked_at: null,
+      locked_by: null,
+      last_error: errorMessage,
+      updated_at: now.toISOString(),
+      finished_at: dead ? now.toISOString() : null,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.lockedBy || '')
+    .select('id');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) {
+    console.warn(`Job ${job.id} is no longer locked by ${job.lockedBy}, failure ignored`);
+  }
+
+  return dead ? 'dead' : 'queued';
+}
+
+/**
+ * List jobs for the admin view, newest activity first
+ */
+export async function listJobs(
+  filter: { status?: BackgroundJob['status']; type?: string; limit?: number } = {}
+): Promise<JobResult<BackgroundJob[]>> {
+  try {
+    let query = getSupabaseServiceClient()
+      .from('jobs')
+      .select('*')
+      .order('updated_at', { ascending: false })
+      .limit(filter.limit || 100);
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.type) {
+      query = query.eq('type', filter.type);
+    }
+
+    const { data, error } = await query.overrideTypes<JobRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load jobs');
+    }
+
+    return { success: true, data: data.map(toBackgroundJob) };
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Queue a dead job again with a fresh set of attempts
+ */
+export async function replayJob(id: string): Promise<JobResult<BackgroundJob>> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from('jobs')
+      .update({
+        status: 'queued',
+        attempts: 0,
+        run_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        finished_at: null,
+      })
+      .eq('id', id)
+      .eq('status', 'dead')
+      .select()
+      .maybeSingle()
+      .overrideTypes<JobRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return { success: false, error: 'Job not found or not dead' };
+    }
+
+    console.log(`Replaying ${data.type} job ${id}`);
+    return { success: true, data: toBackgroundJob(data) };
+  } catch (error) {
+    console.error(`Error replaying job ${id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { jobHandlers } from '@/lib/services/jobs/handlers';
+import { claimDueJobs, completeJob, failJob } from '@/lib/services/jobs/queue';
+import { JobHandler, JobResult, JobType } from '@/lib/services/jobs/types';
+import { BackgroundJob } from '@/types/woocommerce-api';
+import { hostname } from 'os';
+
+export interface JobRunSummary {
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_POLL_SECONDS = 15;
+// A job running longer than this is assumed to belong to a crashed runner
+const LOCK_TIMEOUT_SECONDS = 10 * 60;
+
+const runnerId = `${hostname()}-${process.pid}`;
+let localRunnerTimer: ReturnType<typeof setInterval> | null = null;
+let localRunInProgress = false;
+
+function isJobType(type: string): type is JobType {
+  return type in jobHandlers;
+}
+
+async function runJob(job: BackgroundJob): Promise<BackgroundJob['status']> {
+  try {
+    if (!isJobType(job.type)) {
+      throw new Error(`Unknown job type: ${job.type}`);
+    }
+
+    const handler = jobHandlers[job.type] as JobHandler<JobType>;
+    await handler(job.payload as never, job);
+    await completeJob(job);
+    return 'succeeded';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed:`, message);
+    return failJob(job, message);
+  }
+}
+
+/**
+ * Claim and run due jobs one after another
+ * Called by the local runner, the /api/jobs/run cron endpoint and right after webhooks enqueue work.
+ * Jobs are claimed one at a time, so with a time budget no job is claimed that can't be started
+ * before the budget is spent (unstarted claimed jobs would wait for their lock to expire).
+ *
+ * @param options.budgetMs - Stop claiming new jobs after this long, e.g. below a function timeout
+ */
+export async function runDueJobs(
+  limit: number = DEFAULT_BATCH_SIZE,
+  options: { budgetMs?: number } = {}
+): Promise<JobResult<JobRunSummary>> {
+  try {
+    const deadline = options.budgetMs ? Date.now() + options.budgetMs : Infinity;
+    const summary: JobRunSummary = { claimed: 0, succeeded: 0, retried: 0, dead: 0 };
+
+    while (summary.claimed < limit && Date.now() < deadline) {
+      const [job] = await claimDueJobs(runnerId, 1, LOCK_TIMEOUT_SECONDS);
+      if (!job) break;
+      summary.claimed++;
+
+      const status = await runJob(job);
+      if (status === 'succeeded') summary.succeeded++;
+      else if (status === 'dead') summary.dead++;
+      else summary.retried++;
+    }
+
+    if (summary.claimed > 0) {
+      console.log('Job run finished:', summary);
+    }
+
+    return { success: true, data: summary };
+  } catch (error) {
+    console.error('Error running jobs:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Poll the queue every JOB_RUNNER_POLL_SECONDS in this process
+ * Started from instrumentation when JOB_RUNNER=local (long-running servers and development)
+ */
+export function startLocalJobRunner(): void {
+  if (localRunnerTimer) return;
+
+  const seconds = Number(process.env.JOB_RUNNER_POLL_SECONDS) || DEFAULT_POLL_SECONDS;
+  console.log(`Starting local job runner ${runnerId}, polling every ${seconds}s`);
+
+  localRunnerTimer = setInterval(async () => {
+    if (localRunInProgress) return;
+
+    localRunInProgress = true;
+    try {
+      await runDueJobs();
+    } finally {
+      localRunInProgress = false;
+    }
+  }, seconds * 1000);
+}
@@ -0,0 +1,59 @@
+import type { AuditActor } from '@/lib/services/auditLog';
+import { CompetitorId } from '@/lib/services/scrapers/types';
+import { BackgroundJob, StoreId } from '@/types/woocommerce-api';
+
+export interface JobResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Declaration email of a new order: sticker ZIP and/or merged sticker PDF of its SKUs
+export interface DeclarationEmailPayload {
+  store: StoreId;
+  orderId: number;
+  skus: string[]; // Without SKUs the notification is sent without stickers
+  items?: Array<{ sku: string; quantity: number }>; // Order lines with quantities, missing in older jobs
+  orderDetails: {
+    customerName: string;
+    customerEmail: string;
+    totalValue: string;
+    itemCount: number;
+  };
+}
+
+// Rebuild of the sticker index, scheduled hourly and after uploads
+export interface StickerIndexPayload {
+  reason: string;
+}
+
+// Incremental sync of a webshop's product catalogue mirror, enqueued by reads of a stale mirror
+export interface CatalogSyncPayload {
+  store: StoreId;
+}
+
+// Competitor price scrape of a small batch of products at one competitor, enqueued by the weekly
+// price update
+export interface CompetitorPricesPayload {
+  source: CompetitorId;
+  productIds: number[]; // Welmora.ch product ids
+  actor: AuditActor; // Who started the update, for the audit log
+}
+
+// Payload of each job type
+export interface JobPayloads {
+  'declaration-email': DeclarationEmailPayload;
+  'sticker-index': StickerIndexPayload;
+  'catalog-sync': CatalogSyncPayload;
+  'competitor-prices': CompetitorPricesPayload;
+}
+
+export type JobType = keyof JobPayloads;
+
+/**
+ * Runs one job - throwing schedules a retry (or dead-letters the job after its last attempt)
+ */
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloads[T],
+  job: BackgroundJob
+) => Promise<void>;
@@ -0,0 +1,54 @@
+import { MailMessage, MailResult, MailTransport } from '@/lib/services/mail/types';
+import axios from 'axios';
+
+/**
+ * Transactional mail provider with a JSON send endpoint (Resend-style request body)
+ * MAIL_API_URL is the send endpoint, MAIL_API_KEY is sent as bearer token
+ */
+export class HttpApiTransport implements MailTransport {
+  readonly id = 'http' as const;
+  readonly name = 'HTTP API';
+
+  static isConfigured(): boolean {
+    return !!(process.env.MAIL_API_URL && process.env.MAIL_API_KEY);
+  }
+
+  async send(message: MailMessage): Promise<MailResult<{ messageId: string }>> {
+    try {
+      const response = await axios.post(
+        process.env.MAIL_API_URL!,
+        {
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          attachments: (message.attachments || []).map(attachment => ({
+            filename: attachment.filename,
+            content: attachment.content.toString('base64'),
+            content_type: attachment.contentType,
+          })),
+        },
+        {
+          headers: { Authorization: `Bearer ${process.env.MAIL_API_KEY}` },
+          timeout: 30000,
+        }
+      );
+
+      const messageId = response.data?.id || response.data?.messageId;
+
+      return { success: true, data: { messageId: messageId ? String(messageId) : 'accepted' } };
+    } catch (error) {
+      const detail = axios.isAxiosError(error) ? JSON.stringify(error.response?.data) : undefined;
+      console.error(
+        'Mail API send failed:',
+        error instanceof Error ? error.message : error,
+        detail
+      );
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import type { DocumentLocale } from '@/lib/services/printDocuments';
+import { HttpApiTransport } from '@/lib/services/mail/http-api';
+import { createEmailLogEntry, finishEmailLogEntry } from '@/lib/services/mail/log';
+import { OutboxTransport } from '@/lib/services/mail/outbox';
+import { SmtpTransport } from '@/lib/services/mail/smtp';
+import { renderMailTemplate } from '@/lib/services/mail/templates';
+import {
+  MailAttachment,
+  MailContext,
+  MailEvent,
+  MailResult,
+  MailTemplateData,
+  MailTransport,
+  MailTransportId,
+} from '@/lib/services/mail/types';
+
+export type {
+  MailAttachment,
+  MailContext,
+  MailEvent,
+  MailResult,
+  MailTemplateData,
+  MailTransport,
+  MailTransportId,
+} from '@/lib/services/mail/types';
+
+export const MAIL_EVENTS: MailEvent[] = ['declarations', 'low-stock', 'daily-summary'];
+
+const MAIL_LOCALES: DocumentLocale[] = ['hr', 'de', 'en'];
+
+// Env variable with the recipients of each event, EMAIL_TO is the fallback for all of them
+const RECIPIENT_VARIABLES: Record<MailEvent, string> = {
+  declarations: 'MAIL_TO_DECLARATIONS',
+  'low-stock': 'MAIL_TO_LOW_STOCK',
+  'daily-summary': 'MAIL_TO_DAILY_SUMMARY',
+};
+
+let transport: MailTransport | null = null;
+
+// smtp (default), http (provider API) or outbox (.eml files for local testing)
+export function getMailTransportId(): MailTransportId {
+  const id = process.env.MAIL_TRANSPORT;
+  return id === 'http' || id === 'outbox' ? id : 'smtp';
+}
+
+/**
+ * Get the configured transport
+ * Fails loudly when its settings are missing instead of silently writing to the outbox
+ */
+export function getMailTransport(): MailTransport {
+  const id = getMailTransportId();
+
+  if (!transport || transport.id !== id) {
+    switch (id) {
+      case 'outbox':
+        transport = new OutboxTransport();
+        break;
+      case 'http':
+        if (!HttpApiTransport.isConfigured()) {
+          throw new Error('Mail API is not configured (MAIL_API_URL, MAIL_API_KEY)');
+        }
+        transport = new HttpApiTransport();
+        break;
+      case 'smtp':
+      default:
+        if (!SmtpTransport.isConfigured()) {
+          throw new Error('SMTP is not configured (SMTP_USER, SMTP_PASS)');
+        }
+        transport = new SmtpTransport();
+    }
+  }
+
+  return transport;
+}
+
+/**
+ * Recipients of an event from MAIL_TO_<EVENT> (comma separated), falling back to EMAIL_TO
+ */
+export function getMailRecipients(event: MailEvent): string[] {
+  const value = process.env[RECIPIENT_VARIABLES[event]] || process.env.EMAIL_TO || '';
+
+  return value
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+}
+
+// Language of outgoing mail from MAIL_LOCALE, Croatian by default
+export function getMailLocale(): DocumentLocale {
+  const locale = process.env.MAIL_LOCALE as DocumentLocale;
+  return MAIL_LOCALES.includes(locale) ? locale : 'hr';
+}
+
+/**
+ * Render an event's template and send it to the event's recipients
+ * Every email is recorded in the email log (email_log) before it is sent, with its outcome after.
+ *
+ * @param event - Which email to send
+ * @param data - Values shown in the email
+ * @param options - Attachments, log context, and locale or recipients overriding the configuration
+ */
+export async function sendMail<E extends MailEvent>(
+  event: E,
+  data: MailTemplateData[E],
+  options: {
+    attachments?: MailAttachment[];
+    context?: MailContext;
+    locale?: DocumentLocale;
+    to?: string[];
+  } = {}
+): Promise<
+  MailResult<{ messageId: string; transport: MailTransportId; to: string[]; logId?: string }>
+> {
+  let logId: string | undefined;
+
+  try {
+    const from = process.env.EMAIL_FROM;
+    const to = options.to || getMailRecipients(event);
+    const locale = options.locale || getMailLocale();
+    const rendered = await renderMailTemplate(event, data, locale);
+
+    // Logged first so configuration errors show up in the log as well;
+    // a failing log must not stop the email itself
+    const logEntry = await createEmailLogEntry({
+      event,
+      context: options.context || {},
+      recipients: to,
+      subject: rendered.subject,
+      locale,
+      transport: getMailTransportId(),
+      templateData: data,
+      attachments: options.attachments || [],
+    });
+    logId = logEntry.data?.id;
+
+    if (!from) {
+      throw new Error('Missing environment variable: EMAIL_FROM');
+    }
+    if (to.length === 0) {
+      throw new Error(`No recipients for ${event} (${RECIPIENT_VARIABLES[event]} or EMAIL_TO)`);
+    }
+
+    const mailTransport = getMailTransport();
+
+    console.log(`Sending ${event} mail via ${mailTransport.name}:`, {
+      to,
+      subject: rendered.subject,
+      attachments: (options.attachments || []).map(
+        attachment => `${attachment.filename} (${attachment.content.length} bytes)`
+      ),
+    });
+
+    const result = await mailTransport.send({
+      from: `"${process.env.MAIL_FROM_NAME || 'Welmora Logistics'}" <${from}>`,
+      to,
+      ...rendered,
+      attachments: options.attachments,
+    });
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to send mail');
+    }
+
+    if (logId) {
+      await finishEmailLogEntry(logId, { messageId: result.data.messageId });
+    }
+
+    return {
+      success: true,
+      data: { messageId: result.data.messageId, transport: mailTransport.id, to, logId },
+    };
+  } catch (error) {
+    console.error(`Error sending ${event} mail:`, error);
+    if (logId) {
+      await finishEmailLogEntry(logId, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,225 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { MailAttachment, MailContext, MailResult } from '@/lib/services/mail/types';
+import { EmailAttachmentInfo, EmailLogEntry, StoreId } from '@/types/woocommerce-api';
+
+interface EmailLogRow {
+  id: string;
+  event: string;
+  store: StoreId | null;
+  order_id: number | null;
+  recipients: string[];
+  subject: string;
+  locale: string;
+  transport: string;
+  template_data: Record<string, unknown>;
+  attachments: EmailAttachmentInfo[];
+  status: EmailLogEntry['status'];
+  message_id: string | null;
+  error: string | null;
+  resent_from: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+function toEmailLogEntry(row: EmailLogRow): EmailLogEntry {
+  return {
+    id: row.id,
+    event: row.event,
+    store: row.store || undefined,
+    orderId: row.order_id || undefined,
+    recipients: row.recipients,
+    subject: row.subject,
+    locale: row.locale,
+    transport: row.transport,
+    templateData: row.template_data,
+    attachments: row.attachments || [],
+    status: row.status,
+    messageId: row.message_id || undefined,
+    error: row.error || undefined,
+    resentFrom: row.resent_from || undefined,
+    createdAt: row.created_at,
+    sentAt: row.sent_at || undefined,
+  };
+}
+
+/**
+ * Record an email before it is handed to the transport
+ * Attachments are logged by name, size and sticker manifest - not their content
+ */
+export async function createEmailLogEntry(entry: {
+  event: string;
+  context: MailContext;
+  recipients: string[];
+  subject: string;
+  locale: string;
+  transport: string;
+  templateData: object;
+  attachments: MailAttachment[];
+}): Promise<MailResult<EmailLogEntry>> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from('email_log')
+      .insert({
+        event: entry.event,
+        store: entry.context.store || null,
+        order_id: entry.context.orderId || null,
+        resent_from: entry.context.resentFrom || null,
+        recipients: entry.recipients,
+        subject: entry.subject,
+        locale: entry.locale,
+        transport: entry.transport,
+        template_data: entry.templateData,
+        attachments: entry.attachments.map(attachment => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          size: attachment.content.length,
+          ...attachment.manifest,
+        })),
+      })
+      .select()
+      .single()
+      .overrideTypes<EmailLogRow, { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to write email log');
+    }
+
+    return { success: true, data: toEmailLogEntry(data) };
+  } catch (error) {
+    console.error(`Error logging ${entry.event} email:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Store the outcome of a logged email
+ */
+export async function finishEmailLogEntry(
+  id: string,
+  outcome: { messageId: string } | { error: string }
+): Promise<void> {
+  const { error } = await getSupabaseServiceClient()
+    .from('email_log')
+    .update(
+      'messageId' in outcome
+        ? { status: 'sent', message_id: outcome.messageId, sent_at: new Date().toISOString() }
+        : { status: 'failed', error: outcome.error }
+    )
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error updating email log ${id}:`, error);
+  }
+}
+
+/**
+ * Whether an email of an order already went out to exactly these recipients
+ * Lets a retried job skip the recipients that were served by an earlier attempt
+ */
+export async function hasSentEmail(filter: {
+  event: string;
+  orderId: number;
+  recipients: string[];
+  since: string;
+}): Promise<boolean> {
+  const { count, error } = await getSupabaseServiceClient()
+    .from('email_log')
+    .select('id', { count: 'exact', head: true })
+    .eq('event', filter.event)
+    .eq('order_id', filter.orderId)
+    .eq('status', 'sent')
+    .contains('recipients', filter.recipients)
+    .containedBy('recipients', filter.recipients)
+    .gte('created_at', filter.since);
+
+  if (error) {
+    console.error(`Error checking email log for order ${filter.orderId}:`, error);
+    return false;
+  }
+
+  return (count || 0) > 0;
+}
+
+export async function getEmailLogEntry(id: string): Promise<MailResult<EmailLogEntry>> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from('email_log')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+      .overrideTypes<EmailLogRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return { success: false, error: `Email ${id} not found` };
+    }
+
+    return { success: true, data: toEmailLogEntry(data) };
+  } catch (error) {
+    console.error(`Error loading email log ${id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Search the email log, newest first
+ * `search` matches an order number exactly, otherwise subject and recipients
+ */
+export async function listEmailLog(
+  filter: {
+    search?: string;
+    status?: EmailLogEntry['status'];
+    event?: string;
+    since?: string;
+    limit?: number;
+  } = {}
+): Promise<MailResult<EmailLogEntry[]>> {
+  try {
+    let query = getSupabaseServiceClient()
+      .from('email_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 100);
+
+    const search = filter.search
+      ?.trim()
+      .replace(/^#/, '')
+      .replace(/[,(){}]/g, '');
+    if (search) {
+      query = /^\d+$/.test(search)
+        ? query.eq('order_id', Number(search))
+        : query.or(`subject.ilike.%${search}%,recipients.cs.{${search}}`);
+    }
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+    if (filter.event) {
+      query = query.eq('event', filter.event);
+    }
+    if (filter.since) {
+      query = query.gte('created_at', filter.since);
+    }
+
+    const { data, error } = await query.overrideTypes<EmailLogRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load email log');
+    }
+
+    return { success: true, data: data.map(toEmailLogEntry) };
+  } catch (error) {
+    console.error('Error listing email log:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { MailMessage, MailResult, MailTransport } from '@/lib/services/mail/types';
+import { mkdir, writeFile } from 'fs/promises';
+import nodemailer from 'nodemailer';
+import path from 'path';
+
+/**
+ * Writes every message as .eml file instead of sending it, for local testing
+ * Files go to MAIL_OUTBOX_DIR (default .outbox) and open in any mail client
+ */
+export class OutboxTransport implements MailTransport {
+  readonly id = 'outbox' as const;
+  readonly name = 'Outbox';
+
+  async send(message: MailMessage): Promise<MailResult<{ messageId: string }>> {
+    try {
+      const directory = process.env.MAIL_OUTBOX_DIR || '.outbox';
+
+      const info = await nodemailer
+        .createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+        .sendMail({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          attachments: (message.attachments || []).map(({ filename, content, contentType }) => ({
+            filename,
+            content,
+            contentType,
+          })),
+        });
+
+      const slug = message.subject
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+        .slice(0, 60);
+      const file = path.join(directory, `${Date.now()}-${slug || 'message'}.eml`);
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(file, info.message as Buffer);
+
+      console.log(`Mail written to outbox: ${file}`);
+
+      return { success: true, data: { messageId: info.messageId } };
+    } catch (error) {
+      console.error('Outbox write failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { DocumentLocale } from '@/lib/services/printDocuments';
+import { generateStickerPdf } from '@/lib/services/generateStickerPdf';
+import { generateZipFromSkus } from '@/lib/services/generateZipFromSkus';
+import { MAIL_EVENTS, sendMail } from '@/lib/services/mail';
+import { getEmailLogEntry } from '@/lib/services/mail/log';
+import { MailAttachment, MailEvent, MailResult, MailTemplateData } from '@/lib/services/mail/types';
+import { isStickerCoverPageEnabled } from '@/lib/services/sendEmailWithAttachment';
+
+/**
+ * Send a logged email again, to the same recipients and in the same language
+ * Sticker ZIPs and PDFs are rebuilt from the logged SKUs, so stickers uploaded since then are included.
+ * The new email gets its own log entry pointing back to the original.
+ */
+export async function resendEmail(
+  id: string
+): Promise<MailResult<{ messageId: string; logId?: string }>> {
+  try {
+    const entry = await getEmailLogEntry(id);
+    if (!entry.success || !entry.data) {
+      return { success: false, error: entry.error };
+    }
+
+    const original = entry.data;
+    if (!MAIL_EVENTS.includes(original.event as MailEvent)) {
+      return { success: false, error: `Unknown email event ${original.event}` };
+    }
+
+    const attachments: MailAttachment[] = [];
+    for (const info of original.attachments) {
+      if (!info.skus) {
+        return { success: false, error: `Attachment ${info.filename} cannot be rebuilt` };
+      }
+
+      if (info.skus.length === 0 && info.contentType !== 'application/pdf') {
+        attachments.push({
+          filename: info.filename,
+          content: Buffer.from('No valid SKUs found for this order'),
+          contentType: info.contentType,
+          manifest: { skus: [], included: [], missing: [] },
+        });
+        continue;
+      }
+
+      // Merged PDFs keep their quantities; the cover page follows the current setting
+      if (info.contentType === 'application/pdf') {
+        const { pdfBuffer, manifest } = await generateStickerPdf(
+          info.skus.map((sku, index) => ({ sku, quantity: info.quantities?.[index] || 1 })),
+          original.orderId || 0,
+          { coverPage: isStickerCoverPageEnabled(), locale: original.locale as DocumentLocale }
+        );
+        attachments.push({
+          filename: info.filename,
+          content: pdfBuffer,
+          contentType: info.contentType,
+          manifest,
+        });
+        continue;
+      }
+
+      const { zipBuffer, manifest } = await generateZipFromSkus(
+        info.skus.map(sku => ({ sku })),
+        original.orderId || 0
+      );
+      attachments.push({
+        filename: info.filename,
+        content: zipBuffer,
+        contentType: info.contentType,
+        manifest,
+      });
+    }
+
+    console.log(`Resending ${original.event} email ${id} to`, original.recipients);
+
+    const result = await sendMail(
+      original.event as MailEvent,
+      original.templateData as unknown as MailTemplateData[MailEvent],
+      {
+        attachments,
+        locale: original.locale as DocumentLocale,
+        to: original.recipients,
+        context: { store: original.store, orderId: original.orderId, resentFrom: id },
+      }
+    );
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, data: { messageId: result.data.messageId, logId: result.data.logId } };
+  } catch (error) {
+    console.error(`Error resending email ${id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
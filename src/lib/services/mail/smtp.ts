@@ -0,0 +1,67 @@
+import { MailMessage, MailResult, MailTransport } from '@/lib/services/mail/types';
+import nodemailer, { Transporter } from 'nodemailer';
+
+/**
+ * Plain SMTP - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+ * Defaults to Gmail on port 587 with STARTTLS; SMTP_DEBUG=true logs the SMTP conversation
+ */
+export class SmtpTransport implements MailTransport {
+  readonly id = 'smtp' as const;
+  readonly name = 'SMTP';
+
+  private transporter: Transporter | null = null;
+
+  static isConfigured(): boolean {
+    return !!(process.env.SMTP_USER && process.env.SMTP_PASS);
+  }
+
+  async send(message: MailMessage): Promise<MailResult<{ messageId: string }>> {
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: (message.attachments || []).map(({ filename, content, contentType }) => ({
+          filename,
+          content,
+          contentType,
+        })),
+      });
+
+      if (info.rejected.length > 0) {
+        console.warn('SMTP rejected recipients:', info.rejected);
+      }
+
+      return { success: true, data: { messageId: info.messageId } };
+    } catch (error) {
+      console.error('SMTP send failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const port = Number(process.env.SMTP_PORT) || 587;
+      const debug = process.env.SMTP_DEBUG === 'true';
+
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST || 'smtp.gmail.com',
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+        },
+        debug,
+        logger: debug,
+      });
+    }
+
+    return this.transporter;
+  }
+}
@@ -0,0 +1,149 @@
+import type { DocumentLocale } from '@/lib/services/printDocuments';
+import { MailEvent, MailTemplateData, RenderedMail } from '@/lib/services/mail/types';
+import { escapeHtml } from '@/lib/utils/html';
+
+type MailLabels = Record<string, string>;
+
+interface MailTexts {
+  footer: string;
+  declarations: MailLabels;
+  lowStock: MailLabels;
+  dailySummary: MailLabels;
+}
+
+// Texts of the `emails` section in messages/<locale>.json
+async function getMailTexts(locale: DocumentLocale): Promise<MailTexts> {
+  const messages = (await import(`../../../../messages/${locale}.json`)).default;
+  return messages.emails;
+}
+
+// Fill {placeholders} the way next-intl does for simple arguments
+function format(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) =>
+    key in values ? String(values[key]) : match
+  );
+}
+
+// Label/value rows, leaving out values that are not set
+type Rows = Array<[string, string | number | undefined]>;
+
+function renderHtml(heading: string, rows: Rows, body: string, footer: string): string {
+  const table = rows
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:2px 12px 2px 0;color:#555">${escapeHtml(label)}</td><td><strong>${escapeHtml(String(value))}</strong></td></tr>`
+    )
+    .join('');
+
+  return `<div style="font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#111">
+<h2 style="margin:0 0 12px">${escapeHtml(heading)}</h2>
+${table ? `<table>${table}</table>` : ''}
+${body}
+<p style="color:#777"><em>${escapeHtml(footer)}</em></p>
+</div>`;
+}
+
+function renderText(heading: string, rows: Rows, body: string, footer: string): string {
+  const lines = rows
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([label, value]) => `${label}: ${value}`);
+
+  return [heading, '', ...lines, '', body, '', footer]
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Render the subject, HTML and plain text of an event's email in a locale
+ *
+ * @param event - Which email to render
+ * @param data - Values shown in the email
+ * @param locale - Language of the texts (hr, de or en)
+ */
+export async function renderMailTemplate<E extends MailEvent>(
+  event: E,
+  data: MailTemplateData[E],
+  locale: DocumentLocale
+): Promise<RenderedMail> {
+  const texts = await getMailTexts(locale);
+  const sentAt = new Date().toLocaleString(locale);
+
+  switch (event) {
+    case 'low-stock': {
+      const { products, store } = data as MailTemplateData['low-stock'];
+      const labels = texts.lowStock;
+      const rows: Rows = [[labels.store, store]];
+      const tableRows = products
+        .map(
+          product =>
+            `<tr><td>${escapeHtml(product.sku)}</td><td>${escapeHtml(product.name)}</td><td style="text-align:right">${product.stock}</td></tr>`
+        )
+        .join('');
+
+      return {
+        subject: format(labels.subject, { count: products.length }),
+        html: renderHtml(
+          labels.heading,
+          rows,
+          `<p>${escapeHtml(labels.intro)}</p>
+<table cellpadding="4" style="border-collapse:collapse"><tr><th align="left">${escapeHtml(labels.sku)}</th><th align="left">${escapeHtml(labels.product)}</th><th align="right">${escapeHtml(labels.stock)}</th></tr>${tableRows}</table>`,
+          texts.footer
+        ),
+        text: renderText(
+          labels.heading,
+          rows,
+          [
+            labels.intro,
+            ...products.map(product => `- ${product.sku} ${product.name}: ${product.stock}`),
+          ].join('\n'),
+          texts.footer
+        ),
+      };
+    }
+
+    case 'daily-summary': {
+      const summary = data as MailTemplateData['daily-summary'];
+      const labels = texts.dailySummary;
+      const rows: Rows = [
+        [labels.date, summary.date],
+        [labels.orders, summary.orders],
+        [labels.packages, `${summary.packages.completed}/${summary.packages.total}`],
+        [labels.shopping, `${summary.shopping.purchased}/${summary.shopping.total}`],
+      ];
+
+      return {
+        subject: format(labels.subject, { date: summary.date }),
+        html: renderHtml(labels.heading, rows, '', texts.footer),
+        text: renderText(labels.heading, rows, '', texts.footer),
+      };
+    }
+
+    case 'declarations':
+    default: {
+      const order = data as MailTemplateData['declarations'];
+      const labels = texts.declarations;
+      const rows: Rows = [
+        [labels.orderNumber, `#${order.orderId}`],
+        [labels.store, order.store],
+        [labels.time, sentAt],
+        [labels.customer, order.customerName],
+        [labels.email, order.customerEmail],
+        [labels.totalValue, order.totalValue],
+        [labels.itemCount, order.itemCount || undefined],
+      ];
+
+      return {
+        subject: format(labels.subject, { orderId: order.orderId }),
+        html: renderHtml(
+          labels.heading,
+          rows,
+          `<p>${escapeHtml(labels.attachment)}</p>`,
+          texts.footer
+        ),
+        text: renderText(labels.heading, rows, labels.attachment, texts.footer),
+      };
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { StickerManifest, StoreId } from '@/types/woocommerce-api';
+
+export type MailTransportId = 'smtp' | 'http' | 'outbox';
+
+// Events that send email, each with its own recipients (MAIL_TO_<EVENT>)
+export type MailEvent = 'declarations' | 'low-stock' | 'daily-summary';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  manifest?: StickerManifest; // Sticker ZIPs: which SKU PDFs are inside, for the email log
+}
+
+// What an email is about, stored with it in the email log
+export interface MailContext {
+  store?: StoreId;
+  orderId?: number;
+  resentFrom?: string; // Email log id of the email this one repeats
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * A way of delivering mail - SMTP, a provider's HTTP API or the local outbox
+ */
+export interface MailTransport {
+  readonly id: MailTransportId;
+  readonly name: string;
+
+  send(message: MailMessage): Promise<MailResult<{ messageId: string }>>;
+}
+
+// Data rendered into the template of each event
+export interface MailTemplateData {
+  declarations: {
+    orderId: number;
+    store?: string;
+    customerName?: string;
+    customerEmail?: string;
+    totalValue?: string;
+    itemCount?: number;
+  };
+  'low-stock': {
+    store?: string;
+    products: Array<{ sku: string; name: string; stock: number }>;
+  };
+  'daily-summary': {
+    date: string;
+    orders: number;
+    packages: { completed: number; total: number };
+    shopping: { purchased: number; total: number };
+  };
+}
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
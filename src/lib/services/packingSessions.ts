@@ -0,0 +1,733 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { broadcastDayUpdate } from '@/lib/api/supabase/realtime';
+import { AuditActor } from '@/lib/services/auditLog';
+import { USER_HEADER } from '@/lib/services/auth/permissions';
+import { completeOrderWithShipment, reopenOrder } from '@/lib/services/shipments';
+import {
+  Package,
+  PackingActor,
+  PackingPackageState,
+  PackingScanEvent,
+  StoreId,
+} from '@/types/woocommerce-api';
+
+interface PackingSessionRow {
+  id: string;
+  date: string;
+}
+
+interface PackingPackageRow {
+  id: string;
+  session_id: string;
+  package_id: string;
+  store: StoreId;
+  order_id: number;
+  status: Package['status'];
+}
+
+interface PackingLineRow {
+  id: string;
+  package_row_id: string;
+  sku: string;
+  needed: number;
+  scanned: number;
+}
+
+interface PackingScanEventRow {
+  id: string;
+  session_id: string;
+  package_id: string;
+  sku: string;
+  action: PackingScanEvent['action'];
+  delta: number;
+  scanned_after: number;
+  actor: string | null;
+  device_id: string | null;
+  device_label: string | null;
+  undone_event_id: string | null;
+  created_at: string;
+}
+
+// How many recent scans undo-last looks at before giving up
+const UNDO_CANDIDATE_LIMIT = 20;
+
+export interface PackingSessionResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  conflict?: boolean; // Scan rejected because the line was already complete (or empty for undo)
+}
+
+// Order status changes made by re-reading edited orders, not by a packer
+const ORDER_SYNC_AUDIT_ACTOR: AuditActor = { actor: 'system', source: 'order-sync' };
+
+/**
+ * Read actor and device fields of a packing request
+ * The actor is the signed-in user (set by the middleware), the body's actor only without one.
+ */
+export function getPackingActor(request: Request, body: Record<string, unknown>): PackingActor {
+  const text = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : undefined;
+
+  return {
+    actor: text(request.headers.get(USER_HEADER)) || text(body.actor),
+    deviceId: text(body.deviceId),
+    deviceLabel: text(body.deviceLabel),
+  };
+}
+
+/**
+ * Start (or resume) the packing session for a day
+ * Registers every package and line so scans can be counted server-side,
+ * then returns the packages with the scan progress already stored for them
+ *
+ * @param date - Packing day in YYYY-MM-DD format
+ * @param packages - Packages built from WooCommerce orders for that day
+ */
+export async function startPackingSession(
+  date: string,
+  packages: Package[]
+): Promise<PackingSessionResult<{ sessionId: string; packages: Package[] }>> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('packing_sessions')
+      .upsert({ date, updated_at: new Date().toISOString() }, { onConflict: 'date' })
+      .select()
+      .single()
+      .overrideTypes<PackingSessionRow, { merge: false }>();
+
+    if (sessionError || !session) {
+      throw new Error(sessionError?.message || 'Failed to create packing session');
+    }
+
+    const sessionId = session.id;
+
+    if (packages.length === 0) {
+      return { success: true, data: { sessionId, packages } };
+    }
+
+    // Register packages - status is left out so existing progress is preserved
+    const { data: packageRows, error: packagesError } = await supabase
+      .from('packing_packages')
+      .upsert(
+        packages.map(pkg => ({
+          session_id: sessionId,
+          package_id: pkg.id,
+          store: pkg.store,
+          order_id: pkg.orderId,
+        })),
+        { onConflict: 'session_id,package_id' }
+      )
+      .select()
+      .overrideTypes<PackingPackageRow[], { merge: false }>();
+
+    if (packagesError || !packageRows) {
+      throw new Error(packagesError?.message || 'Failed to register packages');
+    }
+
+    const rowsByPackageId = new Map(packageRows.map(row => [row.package_id, row]));
+
+    // Register lines - needed follows the order, scanned is left untouched
+    const lines = packages.flatMap(pkg => {
+      const packageRow = rowsByPackageId.get(pkg.id)!;
+      const neededBySku = new Map<string, number>();
+      pkg.items.forEach(item => {
+        neededBySku.set(item.sku, (neededBySku.get(item.sku) || 0) + item.needed);
+      });
+
+      return Array.from(neededBySku.entries()).map(([sku, needed]) => ({
+        package_row_id: packageRow.id,
+        sku,
+        needed,
+      }));
+    });
+
+    const { data: lineRows, error: linesError } = await supabase
+      .from('packing_lines')
+      .upsert(lines, { onConflict: 'package_row_id,sku' })
+      .select()
+      .overrideTypes<PackingLineRow[], { merge: false }>();
+
+    if (linesError || !lineRows) {
+      throw new Error(linesError?.message || 'Failed to register package lines');
+    }
+
+    const scannedByLine = new Map(
+      lineRows.map(line => [`${line.package_row_id}:${line.sku}`, line])
+    );
+
+    const packagesWithProgress = packages.map(pkg => {
+      const packageRow = rowsByPackageId.get(pkg.id)!;
+      return {
+        ...pkg,
+        status: packageRow.status,
+        items: pkg.items.map(item => ({
+          ...item,
+          scanned: Math.min(
+            scannedByLine.get(`${packageRow.id}:${item.sku}`)?.scanned || 0,
+            item.needed
+          ),
+        })),
+      };
+    });
+
+    console.log(`Packing session ${sessionId} ready for ${date}: ${packages.length} packages`);
+
+    return { success: true, data: { sessionId, packages: packagesWithProgress } };
+  } catch (error) {
+    console.error(`Error starting packing session for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Record one scanned unit of a SKU for a package
+ * Marks the WooCommerce order completed when this scan completes the package
+ */
+export async function recordPackingScan(
+  date: string,
+  packageId: string,
+  sku: string,
+  actor: PackingActor = {}
+): Promise<PackingSessionResult<PackingPackageState>> {
+  return adjustPackingLine(date, packageId, sku, 1, 'scan', actor);
+}
+
+/**
+ * Take back one scanned unit of a SKU for a package (per-line correction)
+ * Puts a completed order back to processing when the package is no longer complete
+ */
+export async function decrementPackingLine(
+  date: string,
+  packageId: string,
+  sku: string,
+  actor: PackingActor = {}
+): Promise<PackingSessionResult<PackingPackageState>> {
+  return adjustPackingLine(date, packageId, sku, -1, 'decrement', actor);
+}
+
+/**
+ * Undo the most recent scan of the day that is not undone yet
+ * Can be narrowed to one package and/or the scans of one device
+ */
+export async function undoLastPackingScan(
+  date: string,
+  filter: { packageId?: string; deviceId?: string },
+  actor: PackingActor = {}
+): Promise<PackingSessionResult<{ state: PackingPackageState; event: PackingScanEvent }>> {
+  try {
+    const supabase = getSupabaseServiceClient();
+    const session = await findSession(date);
+
+    let query = supabase
+      .from('packing_scan_events')
+      .select('*')
+      .eq('session_id', session.id)
+      .eq('action', 'scan');
+
+    if (filter.packageId) {
+      query = query.eq('package_id', filter.packageId);
+    }
+    if (filter.deviceId) {
+      query = query.eq('device_id', filter.deviceId);
+    }
+
+    const { data: scans, error: scansError } = await query
+      .order('created_at', { ascending: false })
+      .limit(UNDO_CANDIDATE_LIMIT)
+      .overrideTypes<PackingScanEventRow[], { merge: false }>();
+
+    if (scansError || !scans) {
+      throw new Error(scansError?.message || 'Failed to load scan history');
+    }
+
+    if (scans.length === 0) {
+      return { success: false, error: 'Nothing to undo' };
+    }
+
+    const { data: undos, error: undosError } = await supabase
+      .from('packing_scan_events')
+      .select('undone_event_id')
+      .in(
+        'undone_event_id',
+        scans.map(scan => scan.id)
+      )
+      .overrideTypes<Array<{ undone_event_id: string }>, { merge: false }>();
+
+    if (undosError) {
+      throw new Error(undosError.message);
+    }
+
+    const undoneIds = new Set((undos || []).map(undo => undo.undone_event_id));
+
+    for (const scan of scans.filter(scan => !undoneIds.has(scan.id))) {
+      const { data, error } = await supabase.rpc('undo_packing_scan', {
+        p_event_id: scan.id,
+        p_actor: actor.actor ?? null,
+        p_device_id: actor.deviceId ?? null,
+        p_device_label: actor.deviceLabel ?? null,
+      });
+
+      // 23505: another device undid this scan at the same moment - try the next one
+      if (error?.code === '23505') {
+        continue;
+      }
+      if (error) {
+        throw new Error(error.message);
+      }
+      // Line was corrected to zero in the meantime - nothing left to take back for this scan
+      if (!Array.isArray(data) || data.length === 0) {
+        continue;
+      }
+
+      const packageRow = await findPackageRow(date, scan.package_id);
+      const { state, statusChanged } = await refreshPackageStatus(packageRow);
+      await syncOrderStatus(packageRow, state, statusChanged, getPackingAuditActor(actor));
+      await broadcastDayUpdate(date, 'packing', state);
+
+      console.log(`Undid scan of ${scan.sku} in package ${scan.package_id} for ${date}`);
+
+      return { success: true, data: { state, event: toScanEvent(data[0] as PackingScanEventRow) } };
+    }
+
+    return { success: false, error: 'Nothing to undo' };
+  } catch (error) {
+    console.error(`Error undoing last scan for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Reset all scan counts of a package and put the order back to processing
+ */
+export async function resetPackingPackage(
+  date: string,
+  packageId: string,
+  actor: PackingActor = {}
+): Promise<PackingSessionResult<PackingPackageState>> {
+  try {
+    const packageRow = await findPackageRow(date, packageId);
+
+    const { error: resetError } = await getSupabaseServiceClient().rpc('reset_packing_package', {
+      p_session_id: packageRow.session_id,
+      p_package_id: packageId,
+      p_actor: actor.actor ?? null,
+      p_device_id: actor.deviceId ?? null,
+      p_device_label: actor.deviceLabel ?? null,
+    });
+
+    if (resetError) {
+      throw new Error(resetError.message);
+    }
+
+    const { state } = await refreshPackageStatus(packageRow);
+
+    // Same behaviour as the manual reset button had before: order goes back to processing
+    await reopenOrder(packageRow.order_id, packageRow.store, getPackingAuditActor(actor));
+    await broadcastDayUpdate(date, 'packing', state);
+
+    return { success: true, data: state };
+  } catch (error) {
+    console.error(`Error resetting package ${packageId} for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Get the scan log of a packing day, newest first
+ *
+ * @param date - Packing day in YYYY-MM-DD format
+ * @param packageId - Only return the timeline of this package
+ */
+export async function getPackingHistory(
+  date: string,
+  packageId?: string
+): Promise<PackingSessionResult<PackingScanEvent[]>> {
+  try {
+    const session = await findSession(date);
+
+    let query = getSupabaseServiceClient()
+      .from('packing_scan_events')
+      .select('*')
+      .eq('session_id', session.id);
+
+    if (packageId) {
+      query = query.eq('package_id', packageId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .overrideTypes<PackingScanEventRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load scan history');
+    }
+
+    return { success: true, data: data.map(toScanEvent) };
+  } catch (error) {
+    console.error(`Error loading packing history for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Get the stored scan count for a single package line
+ * Returns 0 when no session or line exists yet
+ */
+export async function getPackingLineScanned(
+  date: string,
+  packageId: string,
+  sku: string
+): Promise<number> {
+  try {
+    const packageRow = await findPackageRow(date, packageId);
+
+    const { data } = await getSupabaseServiceClient()
+      .from('packing_lines')
+      .select('scanned')
+      .eq('package_row_id', packageRow.id)
+      .eq('sku', sku)
+      .maybeSingle();
+
+    return (data as { scanned: number } | null)?.scanned || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Packing days whose session contains an order, e.g. to refresh them when the order changes
+ */
+export async function getPackingDaysForOrder(store: StoreId, orderId: number): Promise<string[]> {
+  const { data, error } = await getSupabaseServiceClient()
+    .from('packing_packages')
+    .select('packing_sessions!inner(date)')
+    .eq('store', store)
+    .eq('order_id', orderId)
+    .overrideTypes<Array<{ packing_sessions: { date: string } }>, { merge: false }>();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return Array.from(new Set((data || []).map(row => row.packing_sessions.date)));
+}
+
+/**
+ * Bring a started packing session in line with the current orders of one webshop
+ * Registers new packages and quantities, then drops packages whose order left the day
+ * (cancelled, refunded, deleted) and lines of SKUs removed from an order.
+ * Completed packages are kept; days without a session are left alone (data is null).
+ *
+ * @param date - Packing day in YYYY-MM-DD format
+ * @param store - Webshop the packages were built for
+ * @param packages - All current packages of that webshop for the day
+ */
+export async function syncPackingSession(
+  date: string,
+  store: StoreId,
+  packages: Package[]
+): Promise<PackingSessionResult<{ removedPackages: number; removedLines: number } | null>> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('packing_sessions')
+      .select('id, date')
+      .eq('date', date)
+      .maybeSingle()
+      .overrideTypes<PackingSessionRow, { merge: false }>();
+
+    if (sessionError) {
+      throw new Error(sessionError.message);
+    }
+    if (!session) {
+      return { success: true, data: null };
+    }
+
+    const started = await startPackingSession(date, packages);
+    if (!started.success) {
+      throw new Error(started.error);
+    }
+
+    const { data: packageRows, error: packagesError } = await supabase
+      .from('packing_packages')
+      .select('*')
+      .eq('session_id', session.id)
+      .eq('store', store)
+      .overrideTypes<PackingPackageRow[], { merge: false }>();
+
+    if (packagesError || !packageRows) {
+      throw new Error(packagesError?.message || 'Failed to load packages');
+    }
+
+    const packagesById = new Map(packages.map(pkg => [pkg.id, pkg]));
+    const stalePackages = packageRows.filter(
+      row => !packagesById.has(row.package_id) && row.status !== 'completed'
+    );
+    const currentRows = packageRows.filter(row => packagesById.has(row.package_id));
+
+    let staleLineIds: string[] = [];
+    if (currentRows.length > 0) {
+      const { data: lineRows, error: linesError } = await supabase
+        .from('packing_lines')
+        .select('*')
+        .in(
+          'package_row_id',
+          currentRows.map(row => row.id)
+        )
+        .overrideTypes<PackingLineRow[], { merge: false }>();
+
+      if (linesError || !lineRows) {
+        throw new Error(linesError?.message || 'Failed to load package lines');
+      }
+
+      const skusByRowId = new Map(
+        currentRows.map(row => [
+          row.id,
+          new Set(packagesById.get(row.package_id)!.items.map(item => item.sku)),
+        ])
+      );
+      staleLineIds = lineRows
+        .filter(line => !skusByRowId.get(line.package_row_id)?.has(line.sku))
+        .map(line => line.id);
+    }
+
+    if (stalePackages.length > 0) {
+      const { error } = await supabase
+        .from('packing_packages')
+        .delete()
+        .in(
+          'id',
+          stalePackages.map(row => row.id)
+        );
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    if (staleLineIds.length > 0) {
+      const { error } = await supabase.from('packing_lines').delete().in('id', staleLineIds);
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      // Removing a line can complete a package, which completes its order like a last scan would
+      await Promise.all(
+        currentRows.map(async row => {
+          const { state, statusChanged } = await refreshPackageStatus(row);
+          await syncOrderStatus(row, state, statusChanged, ORDER_SYNC_AUDIT_ACTOR);
+        })
+      );
+    }
+
+    console.log(
+      `Packing session ${date} synced for ${store}: ${stalePackages.length} packages and ${staleLineIds.length} lines removed`
+    );
+
+    return {
+      success: true,
+      data: { removedPackages: stalePackages.length, removedLines: staleLineIds.length },
+    };
+  } catch (error) {
+    console.error(`Error syncing packing session ${date} for ${store}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+async function adjustPackingLine(
+  date: string,
+  packageId: string,
+  sku: string,
+  delta: number,
+  action: 'scan' | 'decrement',
+  actor: PackingActor
+): Promise<PackingSessionResult<PackingPackageState>> {
+  try {
+    const packageRow = await findPackageRow(date, packageId);
+
+    // Adjusts the line and appends the scan log entry in one statement
+    const { data, error } = await getSupabaseServiceClient().rpc('record_packing_scan', {
+      p_session_id: packageRow.session_id,
+      p_package_id: packageId,
+      p_sku: sku,
+      p_delta: delta,
+      p_action: action,
+      p_actor: actor.actor ?? null,
+      p_device_id: actor.deviceId ?? null,
+      p_device_label: actor.deviceLabel ?? null,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const { state, statusChanged } = await refreshPackageStatus(packageRow);
+
+    if (!Array.isArray(data) || data.length === 0) {
+      if (!state.items.some(line => line.sku === sku)) {
+        return { success: false, error: `SKU ${sku} is not part of package ${packageId}` };
+      }
+
+      // Another device got there first (e.g. both scanned the last unit) - send back current state
+      return {
+        success: false,
+        conflict: true,
+        error:
+          delta > 0
+            ? `SKU ${sku} is already complete in package ${packageId}`
+            : `SKU ${sku} has no scanned units in package ${packageId}`,
+        data: state,
+      };
+    }
+
+    await syncOrderStatus(packageRow, state, statusChanged, getPackingAuditActor(actor));
+    await broadcastDayUpdate(date, 'packing', state);
+
+    return { success: true, data: state };
+  } catch (error) {
+    console.error(`Error adjusting ${sku} in package ${packageId} for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+async function findSession(date: string): Promise<PackingSessionRow> {
+  const { data: session, error } = await getSupabaseServiceClient()
+    .from('packing_sessions')
+    .select('id, date')
+    .eq('date', date)
+    .maybeSingle()
+    .overrideTypes<PackingSessionRow, { merge: false }>();
+
+  if (error || !session) {
+    throw new Error(error?.message || `No packing session started for ${date}`);
+  }
+
+  return session;
+}
+
+async function findPackageRow(date: string, packageId: string): Promise<PackingPackageRow> {
+  const session = await findSession(date);
+
+  const { data: packageRow, error: packageError } = await getSupabaseServiceClient()
+    .from('packing_packages')
+    .select('*')
+    .eq('session_id', session.id)
+    .eq('package_id', packageId)
+    .maybeSingle()
+    .overrideTypes<PackingPackageRow, { merge: false }>();
+
+  if (packageError || !packageRow) {
+    throw new Error(packageError?.message || `Package ${packageId} not found in session`);
+  }
+
+  return packageRow;
+}
+
+// Recalculate package status from its lines and persist it
+async function refreshPackageStatus(
+  packageRow: PackingPackageRow
+): Promise<{ state: PackingPackageState; statusChanged: boolean }> {
+  const supabase = getSupabaseServiceClient();
+
+  const { data: lines, error } = await supabase
+    .from('packing_lines')
+    .select('*')
+    .eq('package_row_id', packageRow.id)
+    .overrideTypes<PackingLineRow[], { merge: false }>();
+
+  if (error || !lines) {
+    throw new Error(error?.message || 'Failed to load package lines');
+  }
+
+  const allComplete = lines.length > 0 && lines.every(line => line.scanned >= line.needed);
+  const anyScanned = lines.some(line => line.scanned > 0);
+  const status: Package['status'] = allComplete
+    ? 'completed'
+    : anyScanned
+      ? 'in-progress'
+      : 'pending';
+
+  // Conditional update so concurrent requests see exactly one status change
+  const { data: changedRows, error: statusError } = await supabase
+    .from('packing_packages')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', packageRow.id)
+    .neq('status', status)
+    .select('id');
+
+  if (statusError) {
+    throw new Error(statusError.message);
+  }
+
+  return {
+    state: {
+      packageId: packageRow.package_id,
+      orderId: packageRow.order_id,
+      store: packageRow.store,
+      status,
+      items: lines.map(line => ({ sku: line.sku, needed: line.needed, scanned: line.scanned })),
+    },
+    statusChanged: (changedRows || []).length > 0,
+  };
+}
+
+// Keep the WooCommerce order in step with the package status.
+// Only the request that actually changed the status does this, even with concurrent scans.
+async function syncOrderStatus(
+  packageRow: PackingPackageRow,
+  state: PackingPackageState,
+  statusChanged: boolean,
+  auditActor: AuditActor
+): Promise<void> {
+  if (!statusChanged) return;
+
+  if (state.status === 'completed') {
+    // Creates the carrier shipment and stores its tracking number on the order
+    await completeOrderWithShipment(packageRow.order_id, packageRow.store, auditActor);
+  } else if (packageRow.status === 'completed') {
+    // A correction made a completed package incomplete again - its shipment is cancelled
+    await reopenOrder(packageRow.order_id, packageRow.store, auditActor);
+  }
+}
+
+// Order status changes of the packing screen are audited as the packer's
+function getPackingAuditActor(actor: PackingActor): AuditActor {
+  return { actor: actor.actor || 'unknown', source: 'packing' };
+}
+
+function toScanEvent(row: PackingScanEventRow): PackingScanEvent {
+  return {
+    id: row.id,
+    packageId: row.package_id,
+    sku: row.sku,
+    action: row.action,
+    delta: row.delta,
+    scannedAfter: row.scanned_after,
+    actor: row.actor || undefined,
+    deviceId: row.device_id || undefined,
+    deviceLabel: row.device_label || undefined,
+    undoneEventId: row.undone_event_id || undefined,
+    createdAt: row.created_at,
+  };
+}
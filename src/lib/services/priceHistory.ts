@@ -0,0 +1,177 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { CompetitorProductData } from '@/lib/services/scrapers/types';
+import { PriceChange, PriceHistoryEntry } from '@/types/woocommerce-api';
+
+interface PriceHistoryRow {
+  sku: string;
+  source: string;
+  price: number | string | null; // numeric columns can come back as strings
+  url: string | null;
+  status: PriceHistoryEntry['status'];
+  error: string | null;
+  scraped_at: string;
+}
+
+interface PriceChangeRow {
+  sku: string;
+  previous_price: number | string;
+  price: number | string;
+  changed_at: string;
+}
+
+export interface PriceHistoryResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+function toPriceHistoryEntry(row: PriceHistoryRow): PriceHistoryEntry {
+  return {
+    sku: row.sku,
+    source: row.source,
+    price: row.price !== null ? Number(row.price) : undefined,
+    url: row.url || undefined,
+    status: row.status,
+    error: row.error || undefined,
+    scrapedAt: row.scraped_at,
+  };
+}
+
+function toPriceChange(row: PriceChangeRow): PriceChange {
+  const previousPrice = Number(row.previous_price);
+  const price = Number(row.price);
+
+  return {
+    previousPrice,
+    price,
+    deltaPercent: Math.round(((price - previousPrice) / previousPrice) * 1000) / 10,
+    changedAt: row.changed_at,
+  };
+}
+
+function getScrapeStatus(result: CompetitorProductData): PriceHistoryEntry['status'] {
+  if (result.price) return 'found';
+  return result.error ? 'error' : 'not-found';
+}
+
+/**
+ * Record the results of a scrape run, one row per scraped SKU
+ * All rows of a run share the same timestamp, so a run can be told apart in the history.
+ */
+export async function recordPriceHistory(
+  source: string,
+  results: Record<string, CompetitorProductData>,
+  scrapedAt: Date = new Date()
+): Promise<PriceHistoryResult<{ recorded: number }>> {
+  try {
+    const rows = Object.entries(results).map(([sku, result]) => ({
+      sku,
+      source,
+      price: result.price || null,
+      url: result.productUrl || null,
+      status: getScrapeStatus(result),
+      error: result.error || null,
+      scraped_at: scrapedAt.toISOString(),
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const { error } = await getSupabaseServiceClient()
+        .from('price_history')
+        .insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    console.log(`Recorded ${rows.length} ${source} prices in the price history`);
+    return { success: true, data: { recorded: rows.length } };
+  } catch (error) {
+    console.error(`Error recording ${source} price history:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Scraped prices of a SKU, oldest first
+ *
+ * @param options.source - Only this competitor, all when omitted
+ * @param options.since - ISO timestamp of the oldest scrape to include
+ */
+export async function getPriceHistory(
+  sku: string,
+  options: { source?: string; since?: string; limit?: number } = {}
+): Promise<PriceHistoryResult<PriceHistoryEntry[]>> {
+  try {
+    let query = getSupabaseServiceClient()
+      .from('price_history')
+      .select('sku, source, price, url, status, error, scraped_at')
+      .eq('sku', sku)
+      .order('scraped_at', { ascending: false })
+      .limit(Math.min(options.limit || 200, PAGE_SIZE));
+
+    if (options.source) {
+      query = query.eq('source', options.source);
+    }
+    if (options.since) {
+      query = query.gte('scraped_at', options.since);
+    }
+
+    const { data, error } = await query.overrideTypes<PriceHistoryRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load price history');
+    }
+
+    return { success: true, data: data.map(toPriceHistoryEntry).reverse() };
+  } catch (error) {
+    console.error(`Error loading price history of ${sku}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Latest price change of every SKU of a competitor, keyed by SKU
+ * SKUs whose price never changed are missing from the map.
+ */
+export async function getLastPriceChanges(
+  source: string
+): Promise<PriceHistoryResult<Map<string, PriceChange>>> {
+  try {
+    const changes = new Map<string, PriceChange>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await getSupabaseServiceClient()
+        .from('price_last_changes')
+        .select('sku, previous_price, price, changed_at')
+        .eq('source', source)
+        .order('sku')
+        .range(from, from + PAGE_SIZE - 1)
+        .overrideTypes<PriceChangeRow[], { merge: false }>();
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to load price changes');
+      }
+
+      data.forEach(row => changes.set(row.sku, toPriceChange(row)));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return { success: true, data: changes };
+  } catch (error) {
+    console.error(`Error loading ${source} price changes:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
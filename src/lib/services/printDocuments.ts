@@ -0,0 +1,277 @@
+import { getStoreConfig } from '@/lib/api/woocommerce/stores';
+import { PdfPageOptions, renderHtmlToPdf } from '@/lib/services/renderPdf';
+import { escapeHtml } from '@/lib/utils/html';
+import { DailySnapshot, Package, ShoppingItem } from '@/types/woocommerce-api';
+
+export const DOCUMENT_LOCALES = ['hr', 'de', 'en'] as const;
+export type DocumentLocale = (typeof DOCUMENT_LOCALES)[number];
+
+type DocumentLabels = Record<string, string>;
+
+export function isDocumentLocale(value: unknown): value is DocumentLocale {
+  return typeof value === 'string' && DOCUMENT_LOCALES.includes(value as DocumentLocale);
+}
+
+/**
+ * First supported locale of the candidates (e.g. query parameter, then NEXT_LOCALE cookie)
+ * Defaults to Croatian like the rest of the app
+ */
+export function resolveDocumentLocale(...candidates: Array<string | null | undefined>) {
+  return candidates.find(isDocumentLocale) || 'hr';
+}
+
+// Texts of the `documents` section in messages/<locale>.json
+async function getDocumentLabels(locale: DocumentLocale): Promise<DocumentLabels> {
+  const messages = (await import(`../../../messages/${locale}.json`)).default;
+  return messages.documents;
+}
+
+/**
+ * Category order of the store we shop in, from PICK_LIST_AISLE_ORDER (comma separated)
+ * Categories that are not listed follow alphabetically
+ */
+function getAisleOrder(): string[] {
+  return (process.env.PICK_LIST_AISLE_ORDER || '')
+    .split(',')
+    .map(category => category.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function groupByAisle(products: ShoppingItem[], uncategorized: string) {
+  const aisleOrder = getAisleOrder();
+  const groups = new Map<string, ShoppingItem[]>();
+
+  products.forEach(product => {
+    const category = product.category || uncategorized;
+    groups.set(category, [...(groups.get(category) || []), product]);
+  });
+
+  const aisleIndex = (category: string) => {
+    const index = aisleOrder.indexOf(category.toLowerCase());
+    return index === -1 ? aisleOrder.length : index;
+  };
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => aisleIndex(a) - aisleIndex(b) || a.localeCompare(b))
+    .map(([category, items]) => ({
+      category,
+      items: items.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+function renderDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 10pt; color: #000; margin: 0; }
+  h1 { font-size: 16pt; margin: 0 0 2mm; }
+  h2 { font-size: 11pt; margin: 6mm 0 2mm; padding: 1mm 2mm; background: #fef3c7; text-transform: uppercase; }
+  .meta { color: #555; margin-bottom: 4mm; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 1.5mm 2mm; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { font-size: 9pt; color: #555; }
+  .check { width: 6mm; font-size: 12pt; }
+  .qty { width: 18mm; text-align: right; font-weight: bold; }
+  .sku { width: 35mm; color: #555; }
+  .slip { page-break-after: always; }
+  .slip:last-child { page-break-after: auto; }
+  .columns { display: flex; gap: 10mm; margin: 4mm 0; }
+  .columns > div { flex: 1; }
+  .note { margin-top: 6mm; padding: 3mm; border: 1px solid #000; }
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+}
+
+/**
+ * Consolidated pick list for a day as A4 PDF
+ * Products are grouped by category, categories follow the store aisles
+ *
+ * @param snapshot - Daily snapshot of one webshop or the merged view
+ * @param locale - Language of the document
+ */
+export async function generatePickListPdf(
+  snapshot: DailySnapshot,
+  locale: DocumentLocale
+): Promise<Buffer> {
+  const labels = await getDocumentLabels(locale);
+  const stores = snapshot.stores || [];
+  const showStores = stores.length > 1;
+  const title = `${labels.pickListTitle} ${snapshot.date}`;
+
+  const sections = groupByAisle(snapshot.products, labels.uncategorized)
+    .map(
+      ({ category, items }) => `
+      <h2>${escapeHtml(category)}</h2>
+      <table>
+        <tr>
+          <th class="check"></th>
+          <th>${labels.product}</th>
+          <th class="sku">SKU</th>
+          ${showStores ? `<th>${labels.stores}</th>` : ''}
+          <th class="qty">${labels.quantity}</th>
+        </tr>
+        ${items
+          .map(
+            item => `
+        <tr>
+          <td class="check">☐</td>
+          <td>${escapeHtml(item.name)}</td>
+          <td class="sku">${escapeHtml(item.sku)}</td>
+          ${
+            showStores
+              ? `<td>${Object.entries(item.stores || {})
+                  .map(([store, quantity]) => `${store.toUpperCase()}: ${quantity}`)
+                  .join(', ')}</td>`
+              : ''
+          }
+          <td class="qty">${item.quantity}</td>
+        </tr>`
+          )
+          .join('')}
+      </table>`
+    )
+    .join('');
+
+  const totalUnits = snapshot.products.reduce((sum, item) => sum + item.quantity, 0);
+  const body = `
+    <h1>${escapeHtml(title)}</h1>
+    <div class="meta">
+      ${stores.map(store => getStoreConfig(store).name).join(' + ')} ·
+      ${labels.orders}: ${snapshot.totalOrders} ·
+      ${labels.products}: ${snapshot.products.length} ·
+      ${labels.units}: ${totalUnits}
+    </div>
+    ${sections || `<p>${labels.empty}</p>`}`;
+
+  console.log(`Rendering pick list for ${snapshot.date}: ${snapshot.products.length} products`);
+
+  return renderHtmlToPdf(renderDocument(title, body), { format: 'A4' });
+}
+
+/**
+ * Packing slips as A4 PDF, one page per order
+ * Lists the line items with quantities and the customer's note
+ *
+ * @param packages - Packages to print, in print order
+ * @param locale - Language of the document
+ */
+export async function generatePackingSlipsPdf(
+  packages: Package[],
+  locale: DocumentLocale
+): Promise<Buffer> {
+  const labels = await getDocumentLabels(locale);
+
+  const slips = packages
+    .map(pkg => {
+      const address = pkg.shippingAddress;
+      const addressLines = [
+        [address.first_name, address.last_name].filter(Boolean).join(' ') || pkg.customerName,
+        address.company,
+        address.address_1,
+        address.address_2,
+        [address.postcode, address.city].filter(Boolean).join(' '),
+        address.country,
+      ]
+        .filter(Boolean)
+        .map(line => escapeHtml(line!))
+        .join('<br />');
+
+      return `
+      <section class="slip">
+        <h1>${labels.packingSlipTitle} #${escapeHtml(pkg.orderNumber)}</h1>
+        <div class="meta">
+          ${escapeHtml(getStoreConfig(pkg.store).name)} ·
+          ${labels.orderDate}: ${new Date(pkg.orderDate).toLocaleDateString(locale)} ·
+          ${escapeHtml(pkg.shippingMethod || 'Standard')}
+        </div>
+        <div class="columns">
+          <div><strong>${labels.shipTo}</strong><br />${addressLines}</div>
+          <div>
+            <strong>${labels.customer}</strong><br />
+            ${escapeHtml(pkg.customerName)}
+            ${pkg.customerEmail ? `<br />${escapeHtml(pkg.customerEmail)}` : ''}
+          </div>
+        </div>
+        <table>
+          <tr>
+            <th class="check"></th>
+            <th>${labels.product}</th>
+            <th class="sku">SKU</th>
+            <th class="qty">${labels.quantity}</th>
+          </tr>
+          ${pkg.items
+            .map(
+              item => `
+          <tr>
+            <td class="check">☐</td>
+            <td>${escapeHtml(item.name)}</td>
+            <td class="sku">${escapeHtml(item.sku)}</td>
+            <td class="qty">${item.needed}</td>
+          </tr>`
+            )
+            .join('')}
+          <tr>
+            <td></td>
+            <td colspan="2"><strong>${labels.units}</strong></td>
+            <td class="qty">${pkg.items.reduce((sum, item) => sum + item.needed, 0)}</td>
+          </tr>
+        </table>
+        ${
+          pkg.orderNotes
+            ? `<div class="note"><strong>${labels.customerNote}</strong><br />${escapeHtml(pkg.orderNotes)}</div>`
+            : ''
+        }
+      </section>`;
+    })
+    .join('');
+
+  console.log(`Rendering ${packages.length} packing slip(s)`);
+
+  return renderHtmlToPdf(renderDocument(labels.packingSlipTitle, slips), { format: 'A4' });
+}
+
+/**
+ * Cover page of a merged sticker PDF listing the SKUs whose sticker is missing
+ * Rendered in the size of the stickers so it goes through the same printer
+ *
+ * @param orderId - Order the stickers belong to
+ * @param missing - SKUs without a sticker PDF, in order-line order
+ * @param locale - Language of the page
+ * @param page - Page size of the stickers, A6 when none could be measured
+ */
+export async function generateStickerCoverPdf(
+  orderId: number,
+  missing: string[],
+  locale: DocumentLocale,
+  page: PdfPageOptions = { format: 'A6' }
+): Promise<Buffer> {
+  const labels = await getDocumentLabels(locale);
+
+  const body = `
+    <h1>${labels.stickerCoverTitle} #${orderId}</h1>
+    <div class="meta">${missing.length > 0 ? labels.stickerCoverMissing : labels.stickerCoverComplete}</div>
+    ${
+      missing.length > 0
+        ? `<table>${missing
+            .map(
+              sku => `
+          <tr>
+            <td class="check">☐</td>
+            <td>${escapeHtml(sku)}</td>
+          </tr>`
+            )
+            .join('')}
+        </table>`
+        : ''
+    }`;
+
+  console.log(`Rendering sticker cover page for order ${orderId} (${missing.length} missing)`);
+
+  return renderHtmlToPdf(renderDocument(labels.stickerCoverTitle, body), page);
+}
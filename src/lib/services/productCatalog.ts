@@ -0,0 +1,509 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { paginateWooCommerce } from '@/lib/api/woocommerce/client';
+import { enqueueJob } from '@/lib/services/jobs/queue';
+import { CatalogProduct, CatalogSyncState, StoreId } from '@/types/woocommerce-api';
+
+// Product as returned by the WooCommerce REST API (meta values can be any JSON)
+type WooCommerceProductPayload = Omit<CatalogProduct, 'meta_data'> & {
+  meta_data?: Array<{ key: string; value: unknown }>;
+};
+
+interface CatalogProductRow {
+  data: CatalogProduct;
+}
+
+interface CatalogSyncStateRow {
+  store: StoreId;
+  last_modified_gmt: string | null;
+  last_synced_at: string | null;
+  last_full_sync_at: string | null;
+}
+
+export interface CatalogResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface CatalogSyncSummary {
+  store: StoreId;
+  full: boolean;
+  synced: number;
+  removed: number;
+}
+
+export interface CatalogQuery {
+  search?: string;
+  status?: string; // WooCommerce product status, 'any' for all
+  page?: number;
+  perPage?: number; // Without perPage all matching products are returned
+}
+
+// Supabase returns at most 1000 rows per request
+const SUPABASE_PAGE_SIZE = 1000;
+const ID_LOOKUP_BATCH_SIZE = 200;
+// WooCommerce's per_page limit; also keeps the include= query string short
+const WOOCOMMERCE_INCLUDE_BATCH_SIZE = 100;
+const DEFAULT_MAX_AGE_MINUTES = 15;
+
+// Running syncs per webshop, so concurrent requests share one sync
+const runningSyncs = new Map<StoreId, Promise<CatalogResult<CatalogSyncSummary>>>();
+
+// When this process last enqueued a sync per webshop, so a stale mirror enqueues one job, not one per read
+const syncEnqueuedAt = new Map<StoreId, number>();
+const MIN_SYNC_ENQUEUE_INTERVAL_MS = 60000;
+
+// Age after which reads enqueue an incremental sync
+function getCatalogMaxAgeMs(): number {
+  const minutes = Number(process.env.PRODUCT_CATALOG_MAX_AGE_MINUTES ?? DEFAULT_MAX_AGE_MINUTES);
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_MAX_AGE_MINUTES) * 60000;
+}
+
+// Keep only the fields the app reads, meta data only with string values (DM/Müller prices etc.)
+function toCatalogProduct(product: WooCommerceProductPayload): CatalogProduct {
+  return {
+    id: product.id,
+    name: product.name,
+    sku: product.sku || '',
+    status: product.status,
+    price: product.price || '',
+    regular_price: product.regular_price,
+    weight: product.weight,
+    global_unique_id: product.global_unique_id || undefined,
+    stock_quantity: product.stock_quantity ?? null,
+    stock_status: product.stock_status,
+    backorders: product.backorders,
+    manage_stock: product.manage_stock,
+    images: (product.images || []).map(image => ({ src: image.src })),
+    categories: (product.categories || []).map(category => ({ name: category.name })),
+    meta_data: (product.meta_data || [])
+      .filter((meta): meta is { key: string; value: string } => typeof meta.value === 'string')
+      .map(meta => ({ key: meta.key, value: meta.value })),
+    date_created: product.date_created,
+    date_modified: product.date_modified,
+    date_modified_gmt: product.date_modified_gmt,
+  };
+}
+
+function toRow(store: StoreId, product: CatalogProduct, syncedAt: string) {
+  return {
+    store,
+    product_id: product.id,
+    sku: product.sku || null,
+    name: product.name,
+    status: product.status,
+    data: product,
+    date_modified_gmt: product.date_modified_gmt ? `${product.date_modified_gmt}Z` : null,
+    synced_at: syncedAt,
+  };
+}
+
+async function upsertProducts(
+  store: StoreId,
+  products: CatalogProduct[],
+  syncedAt = new Date().toISOString()
+): Promise<void> {
+  if (products.length === 0) return;
+
+  const { error } = await getSupabaseServiceClient()
+    .from('catalog_products')
+    .upsert(
+      products.map(product => toRow(store, product, syncedAt)),
+      { onConflict: 'store,product_id' }
+    );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+async function loadSyncState(store: StoreId): Promise<CatalogSyncStateRow | null> {
+  const { data, error } = await getSupabaseServiceClient()
+    .from('catalog_sync_state')
+    .select('*')
+    .eq('store', store)
+    .maybeSingle()
+    .overrideTypes<CatalogSyncStateRow, { merge: false }>();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data;
+}
+
+async function runSync(
+  store: StoreId,
+  forceFull: boolean
+): Promise<CatalogResult<CatalogSyncSummary>> {
+  try {
+    const supabase = getSupabaseServiceClient();
+    const state = await loadSyncState(store);
+    const full = forceFull || !state?.last_modified_gmt;
+    const startedAt = new Date().toISOString();
+    let lastModified = state?.last_modified_gmt ? Date.parse(state.last_modified_gmt) : 0;
+    let synced = 0;
+
+    const params: Record<string, unknown> = { status: 'any' };
+    if (!full) {
+      // A second earlier, modified_after is exclusive
+      params.modified_after = new Date(lastModified - 1000).toISOString();
+      params.dates_are_gmt = true;
+    }
+
+    console.log(`Syncing ${store} product catalogue:`, { full, ...params });
+
+    for await (const page of paginateWooCommerce<WooCommerceProductPayload>(
+      'products',
+      params,
+      store
+    )) {
+      const products = page.map(toCatalogProduct);
+      await upsertProducts(store, products, startedAt);
+      synced += products.length;
+
+      products.forEach(product => {
+        const modified = product.date_modified_gmt
+          ? Date.parse(`${product.date_modified_gmt}Z`)
+          : 0;
+        lastModified = Math.max(lastModified, modified || 0);
+      });
+    }
+
+    // A full sync touches every existing product, the rest was deleted or trashed in WooCommerce
+    let removed = 0;
+    if (full) {
+      const { data, error } = await supabase
+        .from('catalog_products')
+        .delete()
+        .eq('store', store)
+        .lt('synced_at', startedAt)
+        .select('product_id');
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      removed = data?.length || 0;
+    }
+
+    const { error } = await supabase.from('catalog_sync_state').upsert(
+      {
+        store,
+        last_modified_gmt: lastModified ? new Date(lastModified).toISOString() : null,
+        last_synced_at: startedAt,
+        ...(full ? { last_full_sync_at: startedAt } : {}),
+      },
+      { onConflict: 'store' }
+    );
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log(`Synced ${store} product catalogue:`, { full, synced, removed });
+
+    return { success: true, data: { store, full, synced, removed } };
+  } catch (error) {
+    console.error(`Error syncing ${store} product catalogue:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Pull products changed since the last sync (modified_after) into the mirror
+ * The first sync and `full` syncs fetch the whole catalogue and drop products gone from WooCommerce
+ */
+export async function syncProductCatalog(
+  store: StoreId,
+  options: { full?: boolean } = {}
+): Promise<CatalogResult<CatalogSyncSummary>> {
+  const running = runningSyncs.get(store);
+  if (running) {
+    return running;
+  }
+
+  const sync = runSync(store, options.full === true).finally(() => runningSyncs.delete(store));
+  runningSyncs.set(store, sync);
+  return sync;
+}
+
+/**
+ * Enqueue an incremental sync when the mirror is older than PRODUCT_CATALOG_MAX_AGE_MINUTES
+ * Reads never wait for WooCommerce: the mirror is served as it is and the job runner syncs it.
+ * Products missing from the mirror are looked up live by getCatalogProductsByIds and
+ * getCatalogProductBySku.
+ */
+export async function ensureProductCatalog(store: StoreId): Promise<void> {
+  try {
+    const maxAge = getCatalogMaxAgeMs();
+    const now = Date.now();
+    const enqueuedAt = syncEnqueuedAt.get(store) || 0;
+
+    if (
+      runningSyncs.has(store) ||
+      now - enqueuedAt < Math.max(maxAge, MIN_SYNC_ENQUEUE_INTERVAL_MS)
+    ) {
+      return;
+    }
+
+    const state = await loadSyncState(store);
+    const lastSynced = state?.last_synced_at ? Date.parse(state.last_synced_at) : 0;
+
+    if (now - lastSynced < maxAge) {
+      return;
+    }
+
+    syncEnqueuedAt.set(store, now);
+    const result = await enqueueJob('catalog-sync', { store });
+    if (!result.success) {
+      syncEnqueuedAt.delete(store);
+      console.warn(`Serving stale ${store} product catalogue:`, result.error);
+    }
+  } catch (error) {
+    console.warn(`Serving stale ${store} product catalogue:`, error);
+  }
+}
+
+export async function getCatalogSyncState(
+  store: StoreId
+): Promise<CatalogResult<CatalogSyncState>> {
+  try {
+    const state = await loadSyncState(store);
+
+    return {
+      success: true,
+      data: {
+        store,
+        lastModifiedAt: state?.last_modified_gmt || undefined,
+        lastSyncedAt: state?.last_synced_at || undefined,
+        lastFullSyncAt: state?.last_full_sync_at || undefined,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Save a product from a webhook or an API write into the mirror
+ * Takes the raw WooCommerce product (webhook body or REST response data)
+ */
+export async function upsertCatalogProduct(
+  store: StoreId,
+  product: unknown
+): Promise<CatalogResult<CatalogProduct>> {
+  const payload = product as WooCommerceProductPayload;
+
+  try {
+    const catalogProduct = toCatalogProduct(payload);
+    await upsertProducts(store, [catalogProduct]);
+    return { success: true, data: catalogProduct };
+  } catch (error) {
+    console.error(`Error saving ${store} product ${payload?.id} to catalogue:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export async function removeCatalogProduct(
+  store: StoreId,
+  productId: number
+): Promise<CatalogResult<boolean>> {
+  try {
+    const { error } = await getSupabaseServiceClient()
+      .from('catalog_products')
+      .delete()
+      .eq('store', store)
+      .eq('product_id', productId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error(`Error removing ${store} product ${productId} from catalogue:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * List mirrored products ordered by name, optionally filtered by status and name/SKU search
+ */
+export async function listCatalogProducts(
+  store: StoreId,
+  query: CatalogQuery = {}
+): Promise<CatalogResult<{ products: CatalogProduct[]; total: number }>> {
+  try {
+    await ensureProductCatalog(store);
+
+    const buildQuery = (from: number, to: number) => {
+      let request = getSupabaseServiceClient()
+        .from('catalog_products')
+        .select('data', { count: query.perPage ? 'exact' : undefined })
+        .eq('store', store)
+        .order('name', { ascending: true })
+        .order('product_id', { ascending: true })
+        .range(from, to);
+
+      if (query.status && query.status !== 'any') {
+        request = request.eq('status', query.status);
+      }
+
+      if (query.search) {
+        const term = query.search.replace(/[,()]/g, ' ').trim();
+        request = request.or(`name.ilike.%${term}%,sku.ilike.%${term}%`);
+      }
+
+      return request.overrideTypes<CatalogProductRow[], { merge: false }>();
+    };
+
+    if (query.perPage) {
+      const from = (Math.max(query.page || 1, 1) - 1) * query.perPage;
+      const { data, count, error } = await buildQuery(from, from + query.perPage - 1);
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to load catalogue');
+      }
+
+      return { success: true, data: { products: data.map(row => row.data), total: count || 0 } };
+    }
+
+    const products: CatalogProduct[] = [];
+    for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+      const { data, error } = await buildQuery(from, from + SUPABASE_PAGE_SIZE - 1);
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to load catalogue');
+      }
+
+      products.push(...data.map(row => row.data));
+      if (data.length < SUPABASE_PAGE_SIZE) break;
+    }
+
+    return { success: true, data: { products, total: products.length } };
+  } catch (error) {
+    console.error(`Error listing ${store} catalogue:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Get mirrored products by WooCommerce id
+ * Products missing from the mirror (created since the last sync) are fetched and saved
+ */
+export async function getCatalogProductsByIds(
+  store: StoreId,
+  productIds: number[]
+): Promise<CatalogResult<CatalogProduct[]>> {
+  try {
+    await ensureProductCatalog(store);
+
+    const ids = Array.from(new Set(productIds));
+    const products: CatalogProduct[] = [];
+
+    for (let i = 0; i < ids.length; i += ID_LOOKUP_BATCH_SIZE) {
+      const { data, error } = await getSupabaseServiceClient()
+        .from('catalog_products')
+        .select('data')
+        .eq('store', store)
+        .in('product_id', ids.slice(i, i + ID_LOOKUP_BATCH_SIZE))
+        .overrideTypes<CatalogProductRow[], { merge: false }>();
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to load catalogue');
+      }
+
+      products.push(...data.map(row => row.data));
+    }
+
+    const found = new Set(products.map(product => product.id));
+    const missing = ids.filter(id => !found.has(id));
+
+    if (missing.length > 0) {
+      console.log(`Fetching ${missing.length} ${store} products missing from catalogue`);
+
+      for (let i = 0; i < missing.length; i += WOOCOMMERCE_INCLUDE_BATCH_SIZE) {
+        for await (const page of paginateWooCommerce<WooCommerceProductPayload>(
+          'products',
+          { include: missing.slice(i, i + WOOCOMMERCE_INCLUDE_BATCH_SIZE).join(',') },
+          store
+        )) {
+          const fetched = page.map(toCatalogProduct);
+          await upsertProducts(store, fetched);
+          products.push(...fetched);
+        }
+      }
+    }
+
+    return { success: true, data: products };
+  } catch (error) {
+    console.error(`Error loading ${store} products from catalogue:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Find a mirrored product by SKU, falling back to WooCommerce for products not mirrored yet
+ */
+export async function getCatalogProductBySku(
+  store: StoreId,
+  sku: string
+): Promise<CatalogResult<CatalogProduct | null>> {
+  try {
+    await ensureProductCatalog(store);
+
+    const { data, error } = await getSupabaseServiceClient()
+      .from('catalog_products')
+      .select('data')
+      .eq('store', store)
+      .eq('sku', sku.trim())
+      .limit(1)
+      .overrideTypes<CatalogProductRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to load catalogue');
+    }
+
+    if (data.length > 0) {
+      return { success: true, data: data[0].data };
+    }
+
+    for await (const page of paginateWooCommerce<WooCommerceProductPayload>(
+      'products',
+      { sku: sku.trim() },
+      store
+    )) {
+      if (page.length > 0) {
+        const product = toCatalogProduct(page[0]);
+        await upsertProducts(store, [product]);
+        return { success: true, data: product };
+      }
+    }
+
+    return { success: true, data: null };
+  } catch (error) {
+    console.error(`Error finding ${store} product ${sku} in catalogue:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
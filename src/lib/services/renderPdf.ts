@@ -0,0 +1,35 @@
+import puppeteer from 'puppeteer';
+
+export interface PdfPageOptions {
+  width?: string; // CSS size, e.g. '100mm'
+  height?: string;
+  format?: 'A4' | 'A5' | 'A6';
+}
+
+/**
+ * Render a self-contained HTML document to PDF with headless Chrome
+ * A fresh browser is used per document so print jobs don't share state with the scrapers
+ *
+ * @param html - Complete HTML document (inline styles and SVG only, no external resources)
+ * @param page - Page size, either a named format or explicit width/height
+ */
+export async function renderHtmlToPdf(html: string, page: PdfPageOptions): Promise<Buffer> {
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+  });
+
+  try {
+    const tab = await browser.newPage();
+    await tab.setContent(html, { waitUntil: 'load' });
+
+    const pdf = await tab.pdf({
+      ...page,
+      printBackground: true,
+    });
+
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
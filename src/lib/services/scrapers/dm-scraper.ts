@@ -1,120 +1,18 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { SearchPageScraper } from '@/lib/services/scrapers/search-page-scraper';
+import { CompetitorProductData } from '@/lib/services/scrapers/types';
+import { Page } from 'puppeteer';
 
-export interface DMProductData {
-  price?: number;
-  productUrl?: string;
-  error?: string;
-}
-
-export class DMScraper {
-  private cache: Map<string, { data: DMProductData; timestamp: number }> = new Map();
-  private readonly cacheTTL = 30 * 60 * 1000; // 30 minutes
-
-  // Singleton browser instance
-  private static browserInstance: Browser | null = null;
-  private static browserPromise: Promise<Browser> | null = null;
-
-  async scrapeProduct(gtin: string): Promise<DMProductData> {
-    try {
-      console.log(`Starting DM scraper for GTIN: ${gtin} (guest mode)`);
-
-      // Check cache first
-      const cached = this.getFromCache(gtin);
-      if (cached) {
-        console.log(`Cache hit for GTIN: ${gtin}`);
-        return cached;
-      }
-
-      // Get shared browser instance
-      const browser = await this.getBrowser();
-      const page = await browser.newPage();
-
-      try {
-        // Set realistic user agent
-        await page.setUserAgent(
-          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-        );
+export type DMProductData = CompetitorProductData;
 
-        await page.setViewport({ width: 1366, height: 768 });
+export class DMScraper extends SearchPageScraper {
+  readonly id = 'dm' as const;
+  readonly name = 'DM';
 
-        // Re-enable optimized page setup (blocks only images/media, keeps CSS)
-        await this.setupPage(page);
-
-        // Navigate to DM search page
-        await page.goto(`https://www.dm.de/search?query=${gtin}`, {
-          waitUntil: 'networkidle2',
-          timeout: 30000,
-        });
-
-        console.log('Search page loaded, extracting product data...');
-
-        // Extract product data
-        const result = await this.extractProductData(page);
-
-        // Cache successful results (only if we found actual product data)
-        if (result.price || result.productUrl) {
-          this.setCache(gtin, result);
-        }
-
-        return result;
-      } finally {
-        // Close page but keep browser alive
-        await page.close();
-      }
-    } catch (error) {
-      console.error('DM scraper error:', error);
-      return { error: error instanceof Error ? error.message : 'Scraping failed' };
-    }
-  }
-
-  private async getBrowser(): Promise<Browser> {
-    // Return existing browser if available
-    if (DMScraper.browserInstance && DMScraper.browserInstance.connected) {
-      return DMScraper.browserInstance;
-    }
-
-    // If browser is already being launched, wait for it
-    if (DMScraper.browserPromise) {
-      return DMScraper.browserPromise;
-    }
-
-    // Launch new browser
-    DMScraper.browserPromise = puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-      ],
-    });
-
-    DMScraper.browserInstance = await DMScraper.browserPromise;
-    DMScraper.browserPromise = null;
-
-    console.log('✓ Browser instance created and ready for reuse');
-    return DMScraper.browserInstance;
-  }
-
-  // Temporarily removed setupPage function to test without resource blocking
-
-  private async setupPage(page: Page): Promise<void> {
-    // Block only heavy resources, keep CSS for proper DOM rendering
-    await page.setRequestInterception(true);
-    page.on('request', req => {
-      const resourceType = req.resourceType();
-      // Only block images and media, keep CSS and fonts for proper rendering
-      if (['image', 'media'].includes(resourceType)) {
-        req.abort();
-      } else {
-        req.continue();
-      }
-    });
+  protected getSearchUrl(gtin: string): string {
+    return `https://www.dm.de/search?query=${gtin}`;
   }
 
-  private async extractProductData(page: Page): Promise<DMProductData> {
+  protected async extractProductData(page: Page): Promise<DMProductData> {
     try {
       let price: number | undefined;
       let productUrl: string | undefined;
@@ -278,112 +176,6 @@ export class DMScraper {
       };
     }
   }
-
-  private getFromCache(gtin: string): DMProductData | null {
-    const cached = this.cache.get(gtin);
-    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
-      return cached.data;
-    }
-    if (cached) {
-      this.cache.delete(gtin); // Remove expired cache
-    }
-    return null;
-  }
-
-  private setCache(gtin: string, data: DMProductData): void {
-    this.cache.set(gtin, { data, timestamp: Date.now() });
-  }
-
-  clearCache(): void {
-    this.cache.clear();
-    console.log('DM scraper cache cleared');
-  }
-
-  // Batch processing for multiple products
-  async scrapeProducts(gtins: string[]): Promise<Record<string, DMProductData>> {
-    console.log(`Starting batch DM scraper for ${gtins.length} products`);
-
-    const results: Record<string, DMProductData> = {};
-    const browser = await this.getBrowser();
-
-    // Process products with controlled concurrency
-    const concurrency = 3; // Max 3 parallel pages
-
-    for (let i = 0; i < gtins.length; i += concurrency) {
-      const batch = gtins.slice(i, i + concurrency);
-      console.log(
-        `Processing batch ${Math.floor(i / concurrency) + 1}/${Math.ceil(gtins.length / concurrency)}`
-      );
-
-      const batchPromises = batch.map(async gtin => {
-        // Check cache first
-        const cached = this.getFromCache(gtin);
-        if (cached) {
-          console.log(`Cache hit for GTIN: ${gtin}`);
-          return { gtin, result: cached };
-        }
-
-        const page = await browser.newPage();
-        try {
-          // Set realistic user agent
-          await page.setUserAgent(
-            'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-          );
-
-          await page.setViewport({ width: 1366, height: 768 });
-
-          // Re-enable optimized page setup (blocks only images/media, keeps CSS)
-          await this.setupPage(page);
-
-          await page.goto(`https://www.dm.de/search?query=${gtin}`, {
-            waitUntil: 'networkidle2',
-            timeout: 30000,
-          });
-
-          const result = await this.extractProductData(page);
-
-          // Cache successful results
-          if (result.price || result.productUrl) {
-            this.setCache(gtin, result);
-          }
-
-          return { gtin, result };
-        } catch (error) {
-          console.error(`Error scraping ${gtin}:`, error);
-          return {
-            gtin,
-            result: { error: error instanceof Error ? error.message : 'Scraping failed' },
-          };
-        } finally {
-          await page.close();
-        }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-
-      // Add results to final object
-      batchResults.forEach(({ gtin, result }) => {
-        results[gtin] = result;
-      });
-
-      // Small delay between batches to be respectful
-      if (i + concurrency < gtins.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
-
-    console.log(`✓ Batch scraping completed: ${Object.keys(results).length} products processed`);
-    return results;
-  }
-
-  // Cleanup method for graceful shutdown
-  static async cleanup(): Promise<void> {
-    if (DMScraper.browserInstance) {
-      await DMScraper.browserInstance.close();
-      DMScraper.browserInstance = null;
-      console.log('✓ Browser instance closed');
-    }
-  }
 }
 
 export function createDMScraper(): DMScraper {
@@ -0,0 +1,21 @@
+import { SearchPageScraper } from '@/lib/services/scrapers/search-page-scraper';
+import { CompetitorProductData } from '@/lib/services/scrapers/types';
+import { Page } from 'puppeteer';
+
+// Metro (produkte.metro.de): guest prices as shown in the shop, product pages under /shop/pv/
+export class MetroScraper extends SearchPageScraper {
+  readonly id = 'metro' as const;
+  readonly name = 'Metro';
+
+  protected getSearchUrl(gtin: string): string {
+    return `https://produkte.metro.de/shop/search?q=${gtin}`;
+  }
+
+  protected extractProductData(page: Page, gtin: string): Promise<CompetitorProductData> {
+    return this.extractMatchingProduct(page, gtin, 'a[href*="/shop/pv/"]');
+  }
+}
+
+export function createMetroScraper(): MetroScraper {
+  return new MetroScraper();
+}
@@ -0,0 +1,21 @@
+import { SearchPageScraper } from '@/lib/services/scrapers/search-page-scraper';
+import { CompetitorProductData } from '@/lib/services/scrapers/types';
+import { Page } from 'puppeteer';
+
+// Müller (mueller.de): searching a GTIN usually opens the product page directly
+export class MuellerScraper extends SearchPageScraper {
+  readonly id = 'mueller' as const;
+  readonly name = 'Müller';
+
+  protected getSearchUrl(gtin: string): string {
+    return `https://www.mueller.de/suche/?query=${gtin}`;
+  }
+
+  protected extractProductData(page: Page, gtin: string): Promise<CompetitorProductData> {
+    return this.extractMatchingProduct(page, gtin, 'a[href*="/p/"]');
+  }
+}
+
+export function createMuellerScraper(): MuellerScraper {
+  return new MuellerScraper();
+}
@@ -0,0 +1,50 @@
+import { createDMScraper } from '@/lib/services/scrapers/dm-scraper';
+import { createMetroScraper } from '@/lib/services/scrapers/metro-scraper';
+import { createMuellerScraper } from '@/lib/services/scrapers/mueller-scraper';
+import { CompetitorId, CompetitorScraper } from '@/lib/services/scrapers/types';
+
+export const COMPETITOR_IDS: CompetitorId[] = ['dm', 'mueller', 'metro'];
+
+const SCRAPER_FACTORIES: Record<CompetitorId, () => CompetitorScraper> = {
+  dm: createDMScraper,
+  mueller: createMuellerScraper,
+  metro: createMetroScraper,
+};
+
+export function isCompetitorId(value: unknown): value is CompetitorId {
+  return typeof value === 'string' && COMPETITOR_IDS.includes(value as CompetitorId);
+}
+
+// WooCommerce product meta holding a competitor's latest scraped price
+export function getCompetitorMetaKeys(id: CompetitorId) {
+  return {
+    price: `_${id}_price`,
+    url: `_${id}_url`,
+    lastUpdated: `_${id}_last_updated`,
+  };
+}
+
+/**
+ * Competitors to scrape, from COMPETITOR_SOURCES (comma-separated, e.g. dm,mueller)
+ * All competitors when unset; unknown names are ignored.
+ */
+export function getEnabledCompetitors(): CompetitorId[] {
+  const configured = process.env.COMPETITOR_SOURCES;
+  if (!configured) {
+    return COMPETITOR_IDS;
+  }
+
+  return configured
+    .split(',')
+    .map(source => source.trim().toLowerCase())
+    .filter(isCompetitorId);
+}
+
+export function getCompetitorScraper(id: CompetitorId): CompetitorScraper {
+  return SCRAPER_FACTORIES[id]();
+}
+
+// A new scraper per enabled competitor; they share one browser
+export function getEnabledScrapers(): CompetitorScraper[] {
+  return getEnabledCompetitors().map(getCompetitorScraper);
+}
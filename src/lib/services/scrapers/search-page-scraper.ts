@@ -0,0 +1,324 @@
+import {
+  CompetitorId,
+  CompetitorProductData,
+  CompetitorScraper,
+} from '@/lib/services/scrapers/types';
+import puppeteer, { Browser, Page } from 'puppeteer';
+
+// Product data a shop publishes as schema.org JSON-LD on its product pages
+interface JsonLdProduct {
+  gtin?: string;
+  price?: number;
+  url?: string;
+}
+
+/**
+ * Base of the competitor scrapers: opens the shop's search page for a GTIN in a shared
+ * headless browser and leaves reading the result to the shop-specific subclass.
+ * Results with a price or URL are cached for 30 minutes per scraper instance.
+ */
+export abstract class SearchPageScraper implements CompetitorScraper {
+  abstract readonly id: CompetitorId;
+  abstract readonly name: string;
+
+  private cache: Map<string, { data: CompetitorProductData; timestamp: number }> = new Map();
+  private readonly cacheTTL = 30 * 60 * 1000; // 30 minutes
+
+  // Singleton browser instance, shared by all competitors
+  private static browserInstance: Browser | null = null;
+  private static browserPromise: Promise<Browser> | null = null;
+
+  // Search page of the shop for a GTIN
+  protected abstract getSearchUrl(gtin: string): string;
+
+  // Read price and product URL from the loaded search page
+  protected abstract extractProductData(page: Page, gtin: string): Promise<CompetitorProductData>;
+
+  async scrapeProduct(gtin: string): Promise<CompetitorProductData> {
+    try {
+      console.log(`Starting ${this.name} scraper for GTIN: ${gtin} (guest mode)`);
+
+      // Check cache first
+      const cached = this.getFromCache(gtin);
+      if (cached) {
+        console.log(`Cache hit for GTIN: ${gtin}`);
+        return cached;
+      }
+
+      const browser = await this.getBrowser();
+      return await this.scrapeWithBrowser(browser, gtin);
+    } catch (error) {
+      console.error(`${this.name} scraper error:`, error);
+      return { error: error instanceof Error ? error.message : 'Scraping failed' };
+    }
+  }
+
+  // Batch processing for multiple products
+  async scrapeProducts(gtins: string[]): Promise<Record<string, CompetitorProductData>> {
+    console.log(`Starting batch ${this.name} scraper for ${gtins.length} products`);
+
+    const results: Record<string, CompetitorProductData> = {};
+    const browser = await this.getBrowser();
+
+    // Process products with controlled concurrency
+    const concurrency = 3; // Max 3 parallel pages
+
+    for (let i = 0; i < gtins.length; i += concurrency) {
+      const batch = gtins.slice(i, i + concurrency);
+      console.log(
+        `Processing ${this.name} batch ${Math.floor(i / concurrency) + 1}/${Math.ceil(gtins.length / concurrency)}`
+      );
+
+      const batchResults = await Promise.all(
+        batch.map(async gtin => {
+          // Check cache first
+          const cached = this.getFromCache(gtin);
+          if (cached) {
+            console.log(`Cache hit for GTIN: ${gtin}`);
+            return { gtin, result: cached };
+          }
+
+          try {
+            return { gtin, result: await this.scrapeWithBrowser(browser, gtin) };
+          } catch (error) {
+            console.error(`Error scraping ${gtin} on ${this.name}:`, error);
+            return {
+              gtin,
+              result: { error: error instanceof Error ? error.message : 'Scraping failed' },
+            };
+          }
+        })
+      );
+
+      // Add results to final object
+      batchResults.forEach(({ gtin, result }) => {
+        results[gtin] = result;
+      });
+
+      // Small delay between batches to be respectful
+      if (i + concurrency < gtins.length) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+
+    console.log(
+      `✓ Batch ${this.name} scraping completed: ${Object.keys(results).length} products processed`
+    );
+    return results;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+    console.log(`${this.name} scraper cache cleared`);
+  }
+
+  // Cleanup method for graceful shutdown
+  static async cleanup(): Promise<void> {
+    if (SearchPageScraper.browserInstance) {
+      await SearchPageScraper.browserInstance.close();
+      SearchPageScraper.browserInstance = null;
+      console.log('✓ Browser instance closed');
+    }
+  }
+
+  private async scrapeWithBrowser(browser: Browser, gtin: string): Promise<CompetitorProductData> {
+    const page = await browser.newPage();
+
+    try {
+      // Set realistic user agent
+      await page.setUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      );
+
+      await page.setViewport({ width: 1366, height: 768 });
+
+      // Blocks only images/media, keeps CSS
+      await this.setupPage(page);
+
+      await page.goto(this.getSearchUrl(gtin), {
+        waitUntil: 'networkidle2',
+        timeout: 30000,
+      });
+
+      const result = await this.extractProductData(page, gtin);
+
+      // Cache only results with actual product data
+      if (result.price || result.productUrl) {
+        this.setCache(gtin, result);
+      }
+
+      return result;
+    } finally {
+      // Close page but keep browser alive
+      await page.close();
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    // Return existing browser if available
+    if (SearchPageScraper.browserInstance && SearchPageScraper.browserInstance.connected) {
+      return SearchPageScraper.browserInstance;
+    }
+
+    // If browser is already being launched, wait for it
+    if (SearchPageScraper.browserPromise) {
+      return SearchPageScraper.browserPromise;
+    }
+
+    // Launch new browser
+    SearchPageScraper.browserPromise = puppeteer.launch({
+      headless: true,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-background-timer-throttling',
+        '--disable-backgrounding-occluded-windows',
+        '--disable-renderer-backgrounding',
+      ],
+    });
+
+    SearchPageScraper.browserInstance = await SearchPageScraper.browserPromise;
+    SearchPageScraper.browserPromise = null;
+
+    console.log('✓ Browser instance created and ready for reuse');
+    return SearchPageScraper.browserInstance;
+  }
+
+  private async setupPage(page: Page): Promise<void> {
+    // Block only heavy resources, keep CSS for proper DOM rendering
+    await page.setRequestInterception(true);
+    page.on('request', req => {
+      const resourceType = req.resourceType();
+      // Only block images and media, keep CSS and fonts for proper rendering
+      if (['image', 'media'].includes(resourceType)) {
+        req.abort();
+      } else {
+        req.continue();
+      }
+    });
+  }
+
+  /**
+   * Products described in the page's schema.org JSON-LD (`<script type="application/ld+json">`)
+   * The GTIN lets a product page be matched to the searched product with certainty.
+   */
+  private async readJsonLdProducts(page: Page): Promise<JsonLdProduct[]> {
+    const blocks = await page.$$eval('script[type="application/ld+json"]', scripts =>
+      scripts.map(script => script.textContent || '')
+    );
+
+    const products: JsonLdProduct[] = [];
+    const visit = (node: unknown) => {
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+      if (!node || typeof node !== 'object') return;
+
+      const item = node as Record<string, unknown>;
+      if (item['@graph']) {
+        visit(item['@graph']);
+      }
+      if (item['@type'] !== 'Product') return;
+
+      const offers = (Array.isArray(item.offers) ? item.offers[0] : item.offers) as
+        | Record<string, unknown>
+        | undefined;
+      const price = parseFloat(String(offers?.price ?? offers?.lowPrice ?? '').replace(',', '.'));
+
+      products.push({
+        gtin: String(item.gtin13 ?? item.gtin ?? item.gtin12 ?? item.gtin8 ?? '') || undefined,
+        price: Number.isFinite(price) ? price : undefined,
+        url: typeof item.url === 'string' ? item.url : undefined,
+      });
+    };
+
+    for (const block of blocks) {
+      try {
+        visit(JSON.parse(block));
+      } catch {
+        // Ignore malformed JSON-LD blocks
+      }
+    }
+
+    return products;
+  }
+
+  /**
+   * Product matching the GTIN, for shops that publish JSON-LD on their product pages
+   * The search page itself is checked first (searching a GTIN often redirects straight to the
+   * product); otherwise a single search result is opened. Several results or a product with a
+   * different GTIN give an empty result, to avoid false matches.
+   *
+   * @param productLinkSelector - Links to product pages in the search results
+   */
+  protected async extractMatchingProduct(
+    page: Page,
+    gtin: string,
+    productLinkSelector: string
+  ): Promise<CompetitorProductData> {
+    try {
+      await page.waitForSelector('body', { timeout: 10000 });
+
+      let match = await this.findJsonLdProduct(page, gtin);
+
+      if (!match) {
+        const links = await page.$$eval(productLinkSelector, anchors =>
+          anchors.map(anchor => (anchor as HTMLAnchorElement).href)
+        );
+        const productUrls = [...new Set(links.map(link => link.split(/[?#]/)[0]))];
+        console.log(`Found ${productUrls.length} ${this.name} product links for GTIN ${gtin}`);
+
+        if (productUrls.length !== 1) {
+          console.log(`✗ No unique ${this.name} product for GTIN ${gtin}`);
+          return { price: undefined, productUrl: undefined };
+        }
+
+        await page.goto(productUrls[0], { waitUntil: 'networkidle2', timeout: 15000 });
+        match = await this.findJsonLdProduct(page, gtin);
+      }
+
+      if (!match) {
+        console.log(`⚠ ${this.name} product does not carry GTIN ${gtin}, skipping`);
+        return { price: undefined, productUrl: undefined };
+      }
+
+      console.log(`✓ Found ${this.name} product: €${match.price || 'N/A'} at ${match.url}`);
+      return { price: match.price, productUrl: match.url };
+    } catch (error) {
+      console.error(`${this.name} data extraction error:`, error);
+      return {
+        error: error instanceof Error ? error.message : 'Data extraction failed',
+      };
+    }
+  }
+
+  // JSON-LD product of the page with this GTIN (leading zeros ignored), with the page URL as fallback
+  private async findJsonLdProduct(
+    page: Page,
+    gtin: string
+  ): Promise<{ price?: number; url: string } | null> {
+    const normalize = (value: string) => value.replace(/^0+/, '');
+    const product = (await this.readJsonLdProducts(page)).find(
+      candidate => candidate.gtin && normalize(candidate.gtin) === normalize(gtin)
+    );
+
+    return product ? { price: product.price, url: product.url || page.url() } : null;
+  }
+
+  private getFromCache(gtin: string): CompetitorProductData | null {
+    const cached = this.cache.get(gtin);
+    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
+      return cached.data;
+    }
+    if (cached) {
+      this.cache.delete(gtin); // Remove expired cache
+    }
+    return null;
+  }
+
+  private setCache(gtin: string, data: CompetitorProductData): void {
+    this.cache.set(gtin, { data, timestamp: Date.now() });
+  }
+}
@@ -0,0 +1,22 @@
+// Competitors whose prices are scraped; the id also prefixes the product meta (_dm_price, ...)
+export type CompetitorId = 'dm' | 'mueller' | 'metro';
+
+// Result of looking up one GTIN at a competitor
+export interface CompetitorProductData {
+  price?: number;
+  productUrl?: string;
+  error?: string;
+}
+
+/**
+ * Price scraper of one competitor shop
+ * Products are looked up by GTIN (the Welmora SKU); a product that can't be matched with
+ * certainty comes back without price and URL rather than as a possibly wrong product.
+ */
+export interface CompetitorScraper {
+  readonly id: CompetitorId;
+  readonly name: string;
+  scrapeProduct(gtin: string): Promise<CompetitorProductData>;
+  scrapeProducts(gtins: string[]): Promise<Record<string, CompetitorProductData>>;
+  clearCache(): void;
+}
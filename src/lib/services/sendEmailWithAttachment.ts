@@ -1,191 +1,124 @@
-import nodemailer from 'nodemailer';
+import { getStoreConfig } from '@/lib/api/woocommerce/stores';
+import { sendMail } from '@/lib/services/mail';
+import { MailAttachment } from '@/lib/services/mail/types';
+import { StickerManifest, StoreId } from '@/types/woocommerce-api';
+
+export type DeclarationFormat = 'zip' | 'pdf' | 'both';
+
+const DECLARATION_FORMATS: DeclarationFormat[] = ['zip', 'pdf', 'both'];
 
 /**
- * Send email with ZIP attachment using Gmail SMTP
+ * Sticker format of each declarations recipient from DECLARATION_FORMATS
+ * (comma separated `address:format`, e.g. `print@welmora.ch:pdf`); unlisted recipients get the ZIP
+ *
+ * @returns Recipients grouped by format, one email is sent per group
+ */
+export function groupRecipientsByFormat(
+  recipients: string[]
+): Array<{ format: DeclarationFormat; to: string[] }> {
+  const formats = new Map<string, DeclarationFormat>();
+  (process.env.DECLARATION_FORMATS || '').split(',').forEach(entry => {
+    const [address, format] = entry.split(':').map(part => part.trim());
+    if (address && DECLARATION_FORMATS.includes(format as DeclarationFormat)) {
+      formats.set(address.toLowerCase(), format as DeclarationFormat);
+    }
+  });
+
+  return DECLARATION_FORMATS.map(format => ({
+    format,
+    to: recipients.filter(recipient => (formats.get(recipient.toLowerCase()) || 'zip') === format),
+  })).filter(group => group.to.length > 0);
+}
+
+// Cover page with missing SKUs in the merged PDF, enabled with DECLARATION_PDF_COVER_PAGE=true
+export function isStickerCoverPageEnabled(): boolean {
+  return process.env.DECLARATION_PDF_COVER_PAGE === 'true';
+}
+
+/**
+ * Send the declarations email with the sticker ZIP and/or merged sticker PDF of an order
+ * Transport, recipients (MAIL_TO_DECLARATIONS) and language come from the mail configuration;
+ * the sticker manifest is kept in the email log
+ *
+ * @param zipBuffer - Sticker ZIP, null to send only the merged PDF
  */
 export async function sendEmailWithAttachment(
-  zipBuffer: Buffer,
+  zipBuffer: Buffer | null,
   orderId: number,
   orderDetails?: {
     customerName?: string;
     customerEmail?: string;
     totalValue?: string;
     itemCount?: number;
-  }
-): Promise<{ success: boolean; error?: string; messageId?: string; debug?: Record<string, unknown> }> {
-  try {
-    console.log(`=== EMAIL SERVICE START ===`);
-    console.log(`Preparing to send email for order ${orderId}`);
-    console.log(`ZIP buffer size: ${zipBuffer.length} bytes`);
-
-    // Validate environment variables
-    const emailFrom = process.env.EMAIL_FROM;
-    const emailTo = process.env.EMAIL_TO;
-    const smtpUser = process.env.SMTP_USER;
-    const smtpPass = process.env.SMTP_PASS;
-
-    console.log('Environment variables check:', {
-      emailFrom: emailFrom ? `${emailFrom.substring(0, 5)}...` : 'MISSING',
-      emailTo: emailTo ? `${emailTo.substring(0, 5)}...` : 'MISSING',
-      smtpUser: smtpUser ? `${smtpUser.substring(0, 5)}...` : 'MISSING',
-      smtpPass: smtpPass ? `${smtpPass.substring(0, 4)}...` : 'MISSING',
+  },
+  store?: StoreId,
+  options: {
+    manifest?: StickerManifest;
+    stickerPdf?: { pdfBuffer: Buffer; manifest: StickerManifest };
+    to?: string[];
+    resentFrom?: string;
+  } = {}
+): Promise<{
+  success: boolean;
+  error?: string;
+  messageId?: string;
+  debug?: Record<string, unknown>;
+}> {
+  const attachments: MailAttachment[] = [];
+
+  if (zipBuffer) {
+    attachments.push({
+      filename: `deklaracije-${orderId}.zip`,
+      content: zipBuffer,
+      contentType: 'application/zip',
+      manifest: options.manifest,
     });
-
-    if (!emailFrom || !emailTo || !smtpUser || !smtpPass) {
-      const missingVars = [];
-      if (!emailFrom) missingVars.push('EMAIL_FROM');
-      if (!emailTo) missingVars.push('EMAIL_TO');
-      if (!smtpUser) missingVars.push('SMTP_USER');
-      if (!smtpPass) missingVars.push('SMTP_PASS');
-
-      const error = `Missing environment variables: ${missingVars.join(', ')}`;
-      console.error('❌ Environment validation failed:', error);
-      throw new Error(error);
-    }
-
-    // Create transporter with detailed configuration
-    const transporterConfig = {
-      host: 'smtp.gmail.com',
-      port: 587,
-      secure: false, // true for 465, false for other ports
-      auth: {
-        user: smtpUser,
-        pass: smtpPass, // App Password, not regular password
-      },
-      debug: true, // Enable debug logging
-      logger: true, // Enable logger
-    };
-
-    console.log('Creating SMTP transporter with config:', {
-      host: transporterConfig.host,
-      port: transporterConfig.port,
-      secure: transporterConfig.secure,
-      user: transporterConfig.auth.user,
-    });
-
-    const transporter = nodemailer.createTransport(transporterConfig);
-
-    // Verify connection with detailed error handling
-    console.log('Verifying SMTP connection...');
-    try {
-      await transporter.verify();
-      console.log('✅ SMTP connection verified successfully');
-    } catch (verifyError) {
-      console.error('❌ SMTP connection verification failed:', verifyError);
-      throw new Error(`SMTP verification failed: ${verifyError instanceof Error ? verifyError.message : 'Unknown error'}`);
-    }
-
-    // Prepare email content
-    const subject = `Nova narudžba #${orderId} - Deklaracije`;
-
-    let htmlContent = `
-      <h2>Nova WooCommerce narudžba</h2>
-      <p><strong>Broj narudžbe:</strong> #${orderId}</p>
-      <p><strong>Vrijeme:</strong> ${new Date().toLocaleString('hr-HR')}</p>
-    `;
-
-    if (orderDetails) {
-      if (orderDetails.customerName) {
-        htmlContent += `<p><strong>Kupac:</strong> ${orderDetails.customerName}</p>`;
-      }
-      if (orderDetails.customerEmail) {
-        htmlContent += `<p><strong>Email:</strong> ${orderDetails.customerEmail}</p>`;
-      }
-      if (orderDetails.totalValue) {
-        htmlContent += `<p><strong>Ukupna vrijednost:</strong> ${orderDetails.totalValue}</p>`;
-      }
-      if (orderDetails.itemCount) {
-        htmlContent += `<p><strong>Broj stavki:</strong> ${orderDetails.itemCount}</p>`;
-      }
-    }
-
-    htmlContent += `
-      <p>U prilogu se nalaze sticker PDF-ovi za deklaracije.</p>
-      <p><em>Automatski poslano iz Welmora sistema</em></p>
-    `;
-
-    const textContent = `
-Nova WooCommerce narudžba #${orderId}
-Vrijeme: ${new Date().toLocaleString('hr-HR')}
-
-${orderDetails?.customerName ? `Kupac: ${orderDetails.customerName}` : ''}
-${orderDetails?.customerEmail ? `Email: ${orderDetails.customerEmail}` : ''}
-${orderDetails?.totalValue ? `Ukupna vrijednost: ${orderDetails.totalValue}` : ''}
-${orderDetails?.itemCount ? `Broj stavki: ${orderDetails.itemCount}` : ''}
-
-U prilogu se nalaze sticker PDF-ovi za deklaracije.
-
-Automatski poslano iz Welmora sistema
-    `.trim();
-
-    // Prepare email options
-    const mailOptions = {
-      from: `"Welmora Logistics" <${emailFrom}>`,
-      to: emailTo,
-      subject: subject,
-      text: textContent,
-      html: htmlContent,
-      attachments: [
-        {
-          filename: `deklaracije-${orderId}.zip`,
-          content: zipBuffer,
-          contentType: 'application/zip',
-        },
-      ],
-    };
-
-    console.log('Sending email with options:', {
-      from: mailOptions.from,
-      to: mailOptions.to,
-      subject: mailOptions.subject,
-      attachmentCount: mailOptions.attachments.length,
-      attachmentSize: zipBuffer.length,
+  }
+  if (options.stickerPdf) {
+    attachments.push({
+      filename: `deklaracije-${orderId}.pdf`,
+      content: options.stickerPdf.pdfBuffer,
+      contentType: 'application/pdf',
+      manifest: options.stickerPdf.manifest,
     });
+  }
 
-    // Send email with detailed error handling
-    let info;
-    try {
-      info = await transporter.sendMail(mailOptions);
-      console.log('✅ Email sent successfully');
-    } catch (sendError) {
-      console.error('❌ Email sending failed:', sendError);
-      throw new Error(`Email sending failed: ${sendError instanceof Error ? sendError.message : 'Unknown error'}`);
+  console.log(
+    `Preparing declarations email for order ${orderId}:`,
+    attachments.map(attachment => `${attachment.filename} (${attachment.content.length} bytes)`)
+  );
+
+  const result = await sendMail(
+    'declarations',
+    { orderId, store: store && getStoreConfig(store).name, ...orderDetails },
+    {
+      attachments,
+      context: { store, orderId, resentFrom: options.resentFrom },
+      to: options.to,
     }
+  );
 
-    const result = {
-      messageId: info.messageId,
-      orderId,
-      to: emailTo,
-      from: emailFrom,
-      subject,
-      attachmentSize: zipBuffer.length,
-      timestamp: new Date().toISOString(),
-      accepted: info.accepted,
-      rejected: info.rejected,
-      response: info.response,
-    };
-
-    console.log('Email sent successfully with details:', result);
-    console.log(`=== EMAIL SERVICE END ===`);
-
-    return {
-      success: true,
-      messageId: info.messageId,
-      debug: result
-    };
-  } catch (error) {
-    console.error('❌ Email service error:', error);
-    console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
-    console.log(`=== EMAIL SERVICE END (ERROR) ===`);
-
+  if (!result.success || !result.data) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: result.error,
       debug: {
         timestamp: new Date().toISOString(),
         orderId,
-        errorType: error instanceof Error ? error.constructor.name : 'Unknown',
-      }
+      },
     };
   }
+
+  return {
+    success: true,
+    messageId: result.data.messageId,
+    debug: {
+      orderId,
+      logId: result.data.logId,
+      transport: result.data.transport,
+      to: result.data.to,
+      attachmentSize: attachments.reduce((sum, attachment) => sum + attachment.content.length, 0),
+      timestamp: new Date().toISOString(),
+    },
+  };
 }
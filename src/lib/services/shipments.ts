@@ -0,0 +1,203 @@
+import {
+  getPackageForOrder,
+  getWooCommerceOrder,
+  updateOrderStatus,
+} from '@/lib/api/woocommerce/client';
+import { AuditActor, recordAudit } from '@/lib/services/auditLog';
+import {
+  getCarrierAdapter,
+  getCarrierIdForPackage,
+  getCarrierMode,
+  isCarrierId,
+  Shipment,
+} from '@/lib/services/carriers';
+import { StoreId } from '@/types/woocommerce-api';
+
+// WooCommerce order meta written when a shipment is created
+export const SHIPMENT_META_KEYS = {
+  carrier: 'welmora_carrier',
+  shipmentId: 'welmora_shipment_id',
+  trackingNumber: 'welmora_tracking_number',
+} as const;
+
+export interface OrderStatusResult {
+  success: boolean;
+  shipment?: Shipment;
+  error?: string;
+  shipmentError?: string; // Order status was updated, but the shipment could not be created
+}
+
+type OrderStatus = Parameters<typeof updateOrderStatus>[1];
+
+/**
+ * Set an order's WooCommerce status and record the change in the audit log
+ * Every status change of the app goes through here, whether from a packing scan or the API.
+ *
+ * @param details - Extra audited values of the new state, e.g. the tracking number
+ */
+async function updateAuditedOrderStatus(
+  orderId: number,
+  status: OrderStatus,
+  store: StoreId,
+  actor: AuditActor,
+  metaData?: Array<{ key: string; value: string }>,
+  details: Record<string, unknown> = {}
+) {
+  // Status before the change, for the audit log
+  const current = await getWooCommerceOrder(orderId, store);
+  const result = await updateOrderStatus(orderId, status, store, metaData);
+
+  if (result.success) {
+    await recordAudit(actor, [
+      {
+        action: 'order-status',
+        entityType: 'order',
+        entityId: orderId,
+        entityName: current.data?.number,
+        store,
+        before: { status: current.data?.status },
+        after: { status, ...details },
+      },
+    ]);
+  }
+
+  return result;
+}
+
+/**
+ * Set an order status that involves no shipment (cancelled, refunded, ...)
+ */
+export async function changeOrderStatus(
+  orderId: number,
+  status: OrderStatus,
+  store: StoreId,
+  actor: AuditActor
+) {
+  return updateAuditedOrderStatus(orderId, status, store, actor);
+}
+
+/**
+ * Mark an order completed in WooCommerce, creating its shipment first
+ * The tracking number is stored as order meta in the same update.
+ * A failing carrier never blocks completion - the error is returned for display.
+ */
+export async function completeOrderWithShipment(
+  orderId: number,
+  store: StoreId,
+  actor: AuditActor
+): Promise<OrderStatusResult> {
+  if (getCarrierMode() === 'off') {
+    const result = await updateAuditedOrderStatus(orderId, 'completed', store, actor);
+    return { success: result.success, error: result.error };
+  }
+
+  let shipment: Shipment | undefined;
+  let shipmentError: string | undefined;
+
+  try {
+    const order = await getPackageForOrder(orderId, store);
+    if (!order.success || !order.data) {
+      throw new Error(order.error || `Order ${orderId} not found`);
+    }
+
+    const { package: pkg, meta } = order.data;
+    const existingCarrier = meta[SHIPMENT_META_KEYS.carrier];
+
+    if (meta[SHIPMENT_META_KEYS.shipmentId] && isCarrierId(existingCarrier)) {
+      // Completed before and never reopened - keep the existing shipment
+      shipment = {
+        carrier: existingCarrier,
+        shipmentId: meta[SHIPMENT_META_KEYS.shipmentId],
+        trackingNumber: meta[SHIPMENT_META_KEYS.trackingNumber] || undefined,
+      };
+    } else {
+      const adapter = getCarrierAdapter(getCarrierIdForPackage(pkg));
+      const created = await adapter.createShipment(pkg);
+
+      if (!created.success || !created.data) {
+        throw new Error(created.error || `${adapter.name} did not create a shipment`);
+      }
+
+      shipment = created.data;
+
+      if (!shipment.trackingNumber) {
+        const tracking = await adapter.getTrackingNumber(shipment.shipmentId);
+        shipment.trackingNumber = tracking.data;
+      }
+    }
+  } catch (error) {
+    shipmentError = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Shipment for ${store} order ${orderId} failed:`, error);
+  }
+
+  const result = await updateAuditedOrderStatus(
+    orderId,
+    'completed',
+    store,
+    actor,
+    shipment && [
+      { key: SHIPMENT_META_KEYS.carrier, value: shipment.carrier },
+      { key: SHIPMENT_META_KEYS.shipmentId, value: shipment.shipmentId },
+      { key: SHIPMENT_META_KEYS.trackingNumber, value: shipment.trackingNumber || '' },
+    ],
+    { trackingNumber: shipment?.trackingNumber }
+  );
+
+  if (result.success && shipment) {
+    console.log(
+      `Order ${orderId} completed with ${shipment.carrier} tracking ${shipment.trackingNumber}`
+    );
+  }
+
+  return { success: result.success, error: result.error, shipment, shipmentError };
+}
+
+/**
+ * Put a completed order back to processing, cancelling its shipment
+ * Used when a packing correction makes the package incomplete again
+ */
+export async function reopenOrder(
+  orderId: number,
+  store: StoreId,
+  actor: AuditActor
+): Promise<OrderStatusResult> {
+  if (getCarrierMode() === 'off') {
+    const result = await updateAuditedOrderStatus(orderId, 'processing', store, actor);
+    return { success: result.success, error: result.error };
+  }
+
+  let shipmentError: string | undefined;
+  let shipmentCancelled = false;
+
+  try {
+    const order = await getPackageForOrder(orderId, store);
+    const meta = order.data?.meta || {};
+    const carrier = meta[SHIPMENT_META_KEYS.carrier];
+    const shipmentId = meta[SHIPMENT_META_KEYS.shipmentId];
+
+    if (shipmentId && isCarrierId(carrier)) {
+      const cancelled = await getCarrierAdapter(carrier).cancelShipment(shipmentId);
+      if (!cancelled.success) {
+        throw new Error(cancelled.error || `Could not cancel shipment ${shipmentId}`);
+      }
+      shipmentCancelled = true;
+    }
+  } catch (error) {
+    shipmentError = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Cancelling shipment of ${store} order ${orderId} failed:`, error);
+  }
+
+  // Tracking meta is cleared so the next completion creates a fresh shipment.
+  // When cancelling failed it is kept, so completing again reuses the shipment.
+  const result = await updateAuditedOrderStatus(
+    orderId,
+    'processing',
+    store,
+    actor,
+    shipmentCancelled
+      ? Object.values(SHIPMENT_META_KEYS).map(key => ({ key, value: '' }))
+      : undefined
+  );
+
+  return { success: result.success, error: result.error, shipmentError };
+}
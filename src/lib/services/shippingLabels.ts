@@ -0,0 +1,87 @@
+import { getStoreConfig } from '@/lib/api/woocommerce/stores';
+import { renderHtmlToPdf } from '@/lib/services/renderPdf';
+import { renderCode128Svg } from '@/lib/utils/code128';
+import { escapeHtml } from '@/lib/utils/html';
+import { calculatePackageWeight } from '@/lib/utils/packageWeight';
+import { Package } from '@/types/woocommerce-api';
+
+// Standard 100 x 150 mm thermal label
+const LABEL_WIDTH = '100mm';
+const LABEL_HEIGHT = '150mm';
+
+function renderAddressLines(pkg: Package): string[] {
+  const address = pkg.shippingAddress;
+  const name =
+    [address.first_name, address.last_name].filter(Boolean).join(' ') || pkg.customerName;
+
+  return [
+    name,
+    address.company,
+    address.address_1,
+    address.address_2,
+    [address.postcode, address.city].filter(Boolean).join(' '),
+    address.country,
+  ].filter((line): line is string => !!line && line.trim().length > 0);
+}
+
+function renderLabel(pkg: Package): string {
+  const store = getStoreConfig(pkg.store);
+  const weight = calculatePackageWeight(pkg);
+  const addressLines = renderAddressLines(pkg)
+    .map(line => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+  const phone = pkg.shippingAddress.phone
+    ? `<div class="phone">Tel. ${escapeHtml(pkg.shippingAddress.phone)}</div>`
+    : '';
+
+  return `
+    <section class="label">
+      <div class="sender">${escapeHtml(store.name)} · ${escapeHtml(store.url.replace(/^https?:\/\//, ''))}</div>
+      <div class="recipient">${addressLines}${phone}</div>
+      <table class="details">
+        <tr><th>Order</th><td>#${escapeHtml(pkg.orderNumber)}</td></tr>
+        <tr><th>Weight</th><td>${weight.toFixed(1)} kg</td></tr>
+        <tr><th>Shipping</th><td>${escapeHtml(pkg.shippingMethod || 'Standard')}</td></tr>
+        <tr><th>Items</th><td>${pkg.items.reduce((sum, item) => sum + item.needed, 0)}</td></tr>
+      </table>
+      <div class="barcode">
+        ${renderCode128Svg(String(pkg.orderId))}
+        <div class="barcode-text">${pkg.orderId}</div>
+      </div>
+    </section>`;
+}
+
+/**
+ * Render shipping labels as one PDF, one 100 x 150 mm page per package
+ * Each label has the address block, order number, estimated weight
+ * and a Code 128 barcode of the WooCommerce order id
+ *
+ * @param packages - Packages to print, in print order
+ */
+export async function generateShippingLabelsPdf(packages: Package[]): Promise<Buffer> {
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { size: ${LABEL_WIDTH} ${LABEL_HEIGHT}; margin: 0; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #000; }
+  .label { box-sizing: border-box; width: ${LABEL_WIDTH}; height: ${LABEL_HEIGHT}; padding: 6mm; page-break-after: always; display: flex; flex-direction: column; }
+  .label:last-child { page-break-after: auto; }
+  .sender { font-size: 9pt; border-bottom: 1px solid #000; padding-bottom: 2mm; }
+  .recipient { font-size: 15pt; line-height: 1.3; margin-top: 6mm; flex: 1; }
+  .phone { font-size: 10pt; margin-top: 2mm; }
+  .details { width: 100%; border-collapse: collapse; font-size: 11pt; margin-bottom: 4mm; }
+  .details th { text-align: left; width: 30%; font-weight: normal; color: #444; }
+  .details td { font-weight: bold; }
+  .barcode svg { width: 100%; height: 22mm; }
+  .barcode-text { text-align: center; font-size: 11pt; letter-spacing: 2px; }
+</style>
+</head>
+<body>${packages.map(renderLabel).join('')}</body>
+</html>`;
+
+  console.log(`Rendering ${packages.length} shipping label(s)`);
+
+  return renderHtmlToPdf(html, { width: LABEL_WIDTH, height: LABEL_HEIGHT });
+}
@@ -0,0 +1,189 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { broadcastDayUpdate } from '@/lib/api/supabase/realtime';
+import { ShoppingItem, ShoppingProgressLine, StoreId } from '@/types/woocommerce-api';
+
+interface ShoppingProgressRow extends ShoppingProgressLine {
+  id: string;
+  date: string;
+}
+
+export interface ShoppingProgressResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+function toProgressLine(row: ShoppingProgressRow): ShoppingProgressLine {
+  return { store: row.store, sku: row.sku, needed: row.needed, purchased: row.purchased };
+}
+
+/**
+ * Start (or resume) shared shopping progress for a day
+ * Registers the needed quantity per webshop and SKU, keeping purchases already recorded
+ *
+ * @param date - Shopping day in YYYY-MM-DD format
+ * @param products - Shopping list items, with quantities split per webshop
+ */
+export async function startShoppingSession(
+  date: string,
+  products: ShoppingItem[]
+): Promise<ShoppingProgressResult<ShoppingProgressLine[]>> {
+  try {
+    const rows = products.flatMap(product =>
+      Object.entries(product.stores || {}).map(([store, needed]) => ({
+        date,
+        store,
+        sku: product.sku,
+        needed: needed || 0,
+      }))
+    );
+
+    if (rows.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const { data, error } = await getSupabaseServiceClient()
+      .from('shopping_progress')
+      .upsert(rows, { onConflict: 'date,store,sku' })
+      .select()
+      .overrideTypes<ShoppingProgressRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to register shopping progress');
+    }
+
+    console.log(`Shopping progress ready for ${date}: ${data.length} lines`);
+
+    return { success: true, data: data.map(toProgressLine) };
+  } catch (error) {
+    console.error(`Error starting shopping progress for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Bring started shopping progress in line with the current orders of one webshop
+ * Updates needed quantities and drops SKUs no order of the day asks for anymore.
+ * Days nobody has opened yet are left alone (data is null).
+ *
+ * @param date - Shopping day in YYYY-MM-DD format
+ * @param store - Webshop the snapshot was generated for
+ * @param products - Current shopping list of that webshop for the day
+ */
+export async function syncShoppingProgress(
+  date: string,
+  store: StoreId,
+  products: ShoppingItem[]
+): Promise<ShoppingProgressResult<{ removed: number } | null>> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { data: rows, error } = await supabase
+      .from('shopping_progress')
+      .select('*')
+      .eq('date', date)
+      .overrideTypes<ShoppingProgressRow[], { merge: false }>();
+
+    if (error || !rows) {
+      throw new Error(error?.message || 'Failed to load shopping progress');
+    }
+    if (rows.length === 0) {
+      return { success: true, data: null };
+    }
+
+    const started = await startShoppingSession(date, products);
+    if (!started.success) {
+      throw new Error(started.error);
+    }
+
+    const currentSkus = new Set(
+      products.filter(product => product.stores?.[store]).map(product => product.sku)
+    );
+    const staleIds = rows
+      .filter(row => row.store === store && !currentSkus.has(row.sku))
+      .map(row => row.id);
+
+    if (staleIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('shopping_progress')
+        .delete()
+        .in('id', staleIds);
+
+      if (deleteError) {
+        throw new Error(deleteError.message);
+      }
+    }
+
+    console.log(`Shopping progress ${date} synced for ${store}: ${staleIds.length} SKUs removed`);
+
+    return { success: true, data: { removed: staleIds.length } };
+  } catch (error) {
+    console.error(`Error syncing shopping progress ${date} for ${store}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Mark a SKU as purchased (or not) for the given webshops
+ * Sets absolute values so repeated or concurrent taps from several devices agree
+ */
+export async function setShoppingPurchased(
+  date: string,
+  sku: string,
+  stores: StoreId[],
+  completed: boolean
+): Promise<ShoppingProgressResult<ShoppingProgressLine[]>> {
+  try {
+    const supabase = getSupabaseServiceClient();
+
+    const { data: rows, error } = await supabase
+      .from('shopping_progress')
+      .select('*')
+      .eq('date', date)
+      .eq('sku', sku)
+      .in('store', stores)
+      .overrideTypes<ShoppingProgressRow[], { merge: false }>();
+
+    if (error || !rows) {
+      throw new Error(error?.message || 'Failed to load shopping progress');
+    }
+
+    if (rows.length === 0) {
+      return { success: false, error: `SKU ${sku} is not on the shopping list for ${date}` };
+    }
+
+    const updated = await Promise.all(
+      rows.map(async row => {
+        const { data: updatedRow, error: updateError } = await supabase
+          .from('shopping_progress')
+          .update({ purchased: completed ? row.needed : 0, updated_at: new Date().toISOString() })
+          .eq('id', row.id)
+          .select()
+          .single()
+          .overrideTypes<ShoppingProgressRow, { merge: false }>();
+
+        if (updateError || !updatedRow) {
+          throw new Error(updateError?.message || `Failed to update ${sku} for ${row.store}`);
+        }
+
+        return toProgressLine(updatedRow);
+      })
+    );
+
+    await broadcastDayUpdate(date, 'shopping', updated);
+
+    return { success: true, data: updated };
+  } catch (error) {
+    console.error(`Error updating shopping progress of ${sku} for ${date}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
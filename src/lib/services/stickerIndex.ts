@@ -0,0 +1,370 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { StickerIndexEntry } from '@/types/woocommerce-api';
+
+// A type rather than an interface so rows can be passed to upsert() as they are
+type StickerIndexRow = {
+  sku: string;
+  path: string;
+  size: number | null;
+  checksum: string | null;
+  uploaded_at: string | null;
+  indexed_at: string;
+};
+
+// Storage object as returned by list(); folders have no id
+interface StorageItem {
+  id: string | null;
+  name: string;
+  updated_at?: string | null;
+  created_at?: string | null;
+  metadata?: { size?: number; eTag?: string; lastModified?: string } | null;
+}
+
+export interface StickerIndexResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface StickerIndexSummary {
+  indexed: number;
+  removed: number;
+  duplicates: string[]; // SKUs found in more than one folder, the first path is kept
+  durationMs: number;
+}
+
+export const STICKER_BUCKET = 'stickers';
+// Previous versions of replaced stickers, kept out of the index
+export const STICKER_VERSIONS_FOLDER = '_versions';
+
+// Supabase returns at most 1000 rows (and storage objects) per request
+const PAGE_SIZE = 1000;
+const UPSERT_BATCH_SIZE = 500;
+
+function toStickerIndexEntry(row: StickerIndexRow): StickerIndexEntry {
+  return {
+    sku: row.sku,
+    path: row.path,
+    size: row.size || 0,
+    checksum: row.checksum || undefined,
+    uploadedAt: row.uploaded_at || undefined,
+    indexedAt: row.indexed_at,
+  };
+}
+
+// SKU of a sticker file: its name without .pdf, null for anything that isn't a PDF
+export function getStickerSku(path: string): string | null {
+  const name = path.split('/').pop() || '';
+  return /\.pdf$/i.test(name) ? name.replace(/\.pdf$/i, '') : null;
+}
+
+function toRow(path: string, item: StorageItem, indexedAt: string): StickerIndexRow | null {
+  const sku = getStickerSku(path);
+  if (!sku) return null;
+
+  return {
+    sku,
+    path,
+    size: item.metadata?.size ?? null,
+    checksum: item.metadata?.eTag?.replace(/"/g, '') || null,
+    uploaded_at: item.metadata?.lastModified || item.updated_at || item.created_at || null,
+    indexed_at: indexedAt,
+  };
+}
+
+/**
+ * List every file of the bucket with its path, paging through each folder
+ * Files of a folder come before its subfolders, so a root-level sticker wins over nested copies
+ */
+async function listBucketFiles(folder = ''): Promise<Array<{ path: string; item: StorageItem }>> {
+  const files: Array<{ path: string; item: StorageItem }> = [];
+  const subFolders: string[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await getSupabaseServiceClient()
+      .storage.from(STICKER_BUCKET)
+      .list(folder, {
+        limit: PAGE_SIZE,
+        offset,
+        sortBy: { column: 'name', order: 'asc' },
+      });
+
+    if (error) {
+      throw new Error(`Failed to list ${folder || 'bucket root'}: ${error.message}`);
+    }
+
+    for (const item of (data || []) as StorageItem[]) {
+      const path = folder ? `${folder}/${item.name}` : item.name;
+      if (item.id === null) {
+        if (path !== STICKER_VERSIONS_FOLDER) subFolders.push(path);
+      } else {
+        files.push({ path, item });
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  for (const subFolder of subFolders) {
+    files.push(...(await listBucketFiles(subFolder)));
+  }
+
+  return files;
+}
+
+/**
+ * Walk the stickers bucket and bring the index up to date
+ * Rows are upserted with the time of this run; rows of files that are gone are removed afterwards
+ */
+export async function rebuildStickerIndex(): Promise<StickerIndexResult<StickerIndexSummary>> {
+  const startedAt = Date.now();
+  const indexedAt = new Date(startedAt).toISOString();
+
+  try {
+    console.log('Rebuilding sticker index...');
+
+    const files = await listBucketFiles();
+    const rows = new Map<string, StickerIndexRow>();
+    const duplicates: string[] = [];
+
+    files.forEach(({ path, item }) => {
+      const row = toRow(path, item, indexedAt);
+      if (!row) return;
+
+      const existing = rows.get(row.sku);
+      if (existing) {
+        console.warn(`Duplicate sticker for SKU ${row.sku}: ${existing.path}, ${row.path}`);
+        duplicates.push(row.sku);
+        return;
+      }
+      rows.set(row.sku, row);
+    });
+
+    const allRows = Array.from(rows.values());
+    for (let i = 0; i < allRows.length; i += UPSERT_BATCH_SIZE) {
+      const { error } = await getSupabaseServiceClient()
+        .from('sticker_index')
+        .upsert(allRows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'sku' });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    const { count, error: deleteError } = await getSupabaseServiceClient()
+      .from('sticker_index')
+      .delete({ count: 'exact' })
+      .lt('indexed_at', indexedAt);
+
+    if (deleteError) {
+      throw new Error(deleteError.message);
+    }
+
+    const summary: StickerIndexSummary = {
+      indexed: allRows.length,
+      removed: count || 0,
+      duplicates: Array.from(new Set(duplicates)),
+      durationMs: Date.now() - startedAt,
+    };
+
+    console.log(
+      `Sticker index rebuilt: ${summary.indexed} stickers from ${files.length} files, ` +
+        `${summary.removed} removed, ${summary.duplicates.length} duplicate SKUs`
+    );
+    return { success: true, data: summary };
+  } catch (error) {
+    console.error('Error rebuilding sticker index:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Storage path of a SKU's sticker PDF
+ *
+ * @returns Path in the stickers bucket, null if the index has no sticker for the SKU
+ */
+export async function findStickerPath(sku: string): Promise<string | null> {
+  if (!sku) return null;
+
+  const { data, error } = await getSupabaseServiceClient()
+    .from('sticker_index')
+    .select('path')
+    .eq('sku', sku)
+    .maybeSingle()
+    .overrideTypes<Pick<StickerIndexRow, 'path'>, { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to look up sticker for ${sku}: ${error.message}`);
+  }
+
+  return data?.path || null;
+}
+
+/**
+ * Record a sticker that was just uploaded, so it can be used before the next rebuild
+ */
+export async function indexSticker(entry: {
+  sku: string;
+  path: string;
+  size: number;
+  checksum: string;
+}): Promise<StickerIndexResult<StickerIndexEntry>> {
+  try {
+    const now = new Date().toISOString();
+    const { data, error } = await getSupabaseServiceClient()
+      .from('sticker_index')
+      .upsert({ ...entry, uploaded_at: now, indexed_at: now }, { onConflict: 'sku' })
+      .select()
+      .single()
+      .overrideTypes<StickerIndexRow, { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to index sticker');
+    }
+
+    return { success: true, data: toStickerIndexEntry(data) };
+  } catch (error) {
+    console.error(`Error indexing sticker ${entry.sku}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export async function getStickerIndexEntry(
+  sku: string
+): Promise<StickerIndexResult<StickerIndexEntry | null>> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .from('sticker_index')
+      .select('*')
+      .eq('sku', sku)
+      .maybeSingle()
+      .overrideTypes<StickerIndexRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { success: true, data: data ? toStickerIndexEntry(data) : null };
+  } catch (error) {
+    console.error(`Error loading sticker index entry ${sku}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Indexed stickers whose SKU or path contains `search`, most recently uploaded first
+ */
+export async function searchStickerIndex(
+  filter: { search?: string; limit?: number } = {}
+): Promise<StickerIndexResult<StickerIndexEntry[]>> {
+  try {
+    let query = getSupabaseServiceClient()
+      .from('sticker_index')
+      .select('*')
+      .order('uploaded_at', { ascending: false, nullsFirst: false })
+      .limit(filter.limit || 50);
+
+    const search = filter.search?.trim().replace(/[,(){}%]/g, '');
+    if (search) {
+      query = query.or(`sku.ilike.%${search}%,path.ilike.%${search}%`);
+    }
+
+    const { data, error } = await query.overrideTypes<StickerIndexRow[], { merge: false }>();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to search sticker index');
+    }
+
+    return { success: true, data: data.map(toStickerIndexEntry) };
+  } catch (error) {
+    console.error('Error searching sticker index:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * The whole index keyed by SKU, for reports over the catalogue
+ */
+export async function loadStickerIndex(): Promise<
+  StickerIndexResult<Map<string, StickerIndexEntry>>
+> {
+  try {
+    const entries = new Map<string, StickerIndexEntry>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await getSupabaseServiceClient()
+        .from('sticker_index')
+        .select('*')
+        .order('sku')
+        .range(from, from + PAGE_SIZE - 1)
+        .overrideTypes<StickerIndexRow[], { merge: false }>();
+
+      if (error || !data) {
+        throw new Error(error?.message || 'Failed to load sticker index');
+      }
+
+      data.forEach(row => entries.set(row.sku, toStickerIndexEntry(row)));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error('Error loading sticker index:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Size of the index and when it was last rebuilt
+ */
+export async function getStickerIndexStatus(): Promise<
+  StickerIndexResult<{ stickers: number; lastIndexedAt: string | null }>
+> {
+  try {
+    const { count, error } = await getSupabaseServiceClient()
+      .from('sticker_index')
+      .select('sku', { count: 'exact', head: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const { data: latest, error: latestError } = await getSupabaseServiceClient()
+      .from('sticker_index')
+      .select('indexed_at')
+      .order('indexed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .overrideTypes<Pick<StickerIndexRow, 'indexed_at'>, { merge: false }>();
+
+    if (latestError) {
+      throw new Error(latestError.message);
+    }
+
+    return {
+      success: true,
+      data: { stickers: count || 0, lastIndexedAt: latest?.indexed_at || null },
+    };
+  } catch (error) {
+    console.error('Error loading sticker index status:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import { downloadFileAsBuffer, getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import {
+  getStickerIndexEntry,
+  indexSticker,
+  STICKER_BUCKET,
+  STICKER_VERSIONS_FOLDER,
+  StickerIndexResult,
+} from '@/lib/services/stickerIndex';
+import { StickerVersion } from '@/types/woocommerce-api';
+import { createHash } from 'crypto';
+
+// replace overwrites the current sticker, version keeps it in _versions/<sku>/ first
+export type StickerUploadMode = 'replace' | 'version';
+
+export interface StickerUpload {
+  sku: string;
+  path: string;
+  size: number;
+  replaced: boolean;
+  versionName?: string;
+}
+
+const MAX_STICKER_BYTES = 10 * 1024 * 1024;
+
+export function isValidStickerSku(sku: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(sku);
+}
+
+// Folder such as HR/Brand, without empty, relative or reserved segments
+function normalizeFolder(folder?: string): string | null {
+  const segments = (folder || '')
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(Boolean);
+
+  if (
+    segments.some(segment => segment === '.' || segment === '..') ||
+    segments[0] === STICKER_VERSIONS_FOLDER
+  ) {
+    return null;
+  }
+
+  return segments.join('/');
+}
+
+function getVersionsFolder(sku: string): string {
+  return `${STICKER_VERSIONS_FOLDER}/${sku}`;
+}
+
+/**
+ * Upload the sticker PDF of a SKU and update the index right away
+ * A SKU that already has a sticker keeps its path (the folder only applies to new stickers);
+ * with mode 'version' the current file is copied to _versions/<sku>/ before it is overwritten
+ *
+ * @param sku - SKU the file is stored as (<sku>.pdf)
+ * @param content - PDF file content
+ * @param options - Folder for new stickers and what happens to an existing one
+ */
+export async function uploadSticker(
+  sku: string,
+  content: Buffer,
+  options: { folder?: string; mode: StickerUploadMode }
+): Promise<StickerIndexResult<StickerUpload>> {
+  try {
+    if (!isValidStickerSku(sku)) {
+      return { success: false, error: `Invalid SKU "${sku}"` };
+    }
+    if (content.length > MAX_STICKER_BYTES) {
+      return { success: false, error: `File is larger than ${MAX_STICKER_BYTES / 1024 / 1024} MB` };
+    }
+    if (content.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      return { success: false, error: 'File is not a PDF' };
+    }
+
+    const folder = normalizeFolder(options.folder);
+    if (folder === null) {
+      return { success: false, error: `Invalid folder "${options.folder}"` };
+    }
+
+    const existing = await getStickerIndexEntry(sku);
+    if (!existing.success) {
+      return { success: false, error: existing.error };
+    }
+
+    const storage = getSupabaseServiceClient().storage.from(STICKER_BUCKET);
+    const path = existing.data?.path || (folder ? `${folder}/${sku}.pdf` : `${sku}.pdf`);
+    let versionName: string | undefined;
+
+    if (existing.data && options.mode === 'version') {
+      versionName = `${new Date().toISOString().replace(/[:.]/g, '-')}.pdf`;
+      const { error } = await storage.copy(path, `${getVersionsFolder(sku)}/${versionName}`);
+      if (error) {
+        throw new Error(`Failed to keep previous version: ${error.message}`);
+      }
+    }
+
+    const { error } = await storage.upload(path, content, {
+      contentType: 'application/pdf',
+      upsert: true,
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const indexed = await indexSticker({
+      sku,
+      path,
+      size: content.length,
+      checksum: createHash('md5').update(content).digest('hex'),
+    });
+    if (!indexed.success) {
+      // The file is stored; the next index rebuild picks it up
+      console.warn(`Sticker ${sku} uploaded but not indexed:`, indexed.error);
+    }
+
+    console.log(
+      `Uploaded sticker ${sku} to ${path} (${content.length} bytes)${versionName ? `, previous kept as ${versionName}` : ''}`
+    );
+
+    return {
+      success: true,
+      data: { sku, path, size: content.length, replaced: !!existing.data, versionName },
+    };
+  } catch (error) {
+    console.error(`Error uploading sticker ${sku}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Kept versions of a sticker, newest first
+ */
+export async function listStickerVersions(
+  sku: string
+): Promise<StickerIndexResult<StickerVersion[]>> {
+  try {
+    const { data, error } = await getSupabaseServiceClient()
+      .storage.from(STICKER_BUCKET)
+      .list(getVersionsFolder(sku), {
+        limit: 100,
+        sortBy: { column: 'name', order: 'desc' },
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      success: true,
+      data: (data || [])
+        .filter(item => item.id !== null)
+        .map(item => ({
+          name: item.name,
+          size: (item.metadata?.size as number) || 0,
+          createdAt: item.created_at || undefined,
+        })),
+    };
+  } catch (error) {
+    console.error(`Error listing versions of sticker ${sku}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Current sticker PDF of a SKU, or one of its kept versions
+ *
+ * @returns File content, null when the SKU has no sticker or the version doesn't exist
+ */
+export async function downloadSticker(sku: string, version?: string): Promise<Buffer | null> {
+  if (version) {
+    // Plain file names only, so the path can't leave the SKU's versions folder
+    if (!/^[\w.-]+\.pdf$/.test(version)) return null;
+    return downloadFileAsBuffer(STICKER_BUCKET, `${getVersionsFolder(sku)}/${version}`);
+  }
+
+  const entry = await getStickerIndexEntry(sku);
+  if (!entry.success || !entry.data) return null;
+
+  return downloadFileAsBuffer(STICKER_BUCKET, entry.data.path);
+}
@@ -0,0 +1,107 @@
+import { getSupabaseServiceClient } from '@/lib/api/supabase/client';
+import { StoreId, WebhookDelivery } from '@/types/woocommerce-api';
+
+interface WebhookDeliveryRow {
+  id: string;
+  store: StoreId;
+  topic: string;
+  resource_key: string;
+  delivery_id: string | null;
+  status: WebhookDelivery['status'];
+  attempts: number;
+  duplicates: number;
+  error: string | null;
+  received_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDeliveryResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+function toWebhookDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    store: row.store,
+    topic: row.topic,
+    resourceKey: row.resource_key,
+    deliveryId: row.delivery_id || undefined,
+    status: row.status,
+    attempts: row.attempts,
+    duplicates: row.duplicates,
+    error: row.error || undefined,
+    receivedAt: row.received_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Claim a webhook delivery before running its side effects
+ * `claimed: false` means the resource was (or is being) handled already - acknowledge and skip
+ */
+export async function claimWebhookDelivery(delivery: {
+  store: StoreId;
+  topic: string;
+  resourceKey: string;
+  deliveryId?: string | null;
+}): Promise<
+  WebhookDeliveryResult<{ claimed: true; delivery: WebhookDelivery } | { claimed: false }>
+> {
+  try {
+    const { data, error } = await getSupabaseServiceClient().rpc('claim_webhook_delivery', {
+      p_store: delivery.store,
+      p_topic: delivery.topic,
+      p_resource_key: delivery.resourceKey,
+      p_delivery_id: delivery.deliveryId || null,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!Array.isArray(data) || data.length === 0) {
+      return { success: true, data: { claimed: false } };
+    }
+
+    return {
+      success: true,
+      data: { claimed: true, delivery: toWebhookDelivery(data[0] as WebhookDeliveryRow) },
+    };
+  } catch (error) {
+    console.error('Error claiming webhook delivery:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Record the outcome of a claimed delivery; failed ones are processed again on redelivery
+ */
+export async function finishWebhookDelivery(
+  id: string,
+  status: 'processed' | 'failed',
+  errorMessage?: string
+): Promise<WebhookDeliveryResult<boolean>> {
+  try {
+    const { error } = await getSupabaseServiceClient()
+      .from('webhook_deliveries')
+      .update({ status, error: errorMessage || null, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return { success: true, data: true };
+  } catch (error) {
+    console.error(`Error finishing webhook delivery ${id}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
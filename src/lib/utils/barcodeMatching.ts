@@ -0,0 +1,129 @@
+// Matching of scanned codes to order line items, shared by the packing screen and the scan APIs
+
+export type ScanSource = 'camera' | 'manual';
+
+export type MatchKind = 'gtin' | 'mapped-barcode' | 'sku' | 'product-id' | 'name';
+
+// Earlier kinds win: a line matched by GTIN is never outranked by a name match elsewhere
+export const MATCH_PRECEDENCE: MatchKind[] = [
+  'gtin',
+  'mapped-barcode',
+  'sku',
+  'product-id',
+  'name',
+];
+
+// Shorter codes match far too many product names to be useful
+const MIN_NAME_MATCH_LENGTH = 3;
+
+export interface MatchableItem {
+  sku: string;
+  name: string;
+  productId?: number;
+  gtin?: string;
+}
+
+export interface MatchOptions {
+  source: ScanSource;
+  mappedSku?: string | null; // SKU the scanned barcode is mapped to, if any
+  strict?: boolean; // Defaults to the configured strict mode
+}
+
+/**
+ * Strict mode disables fuzzy name matching for camera scans
+ * On unless NEXT_PUBLIC_STRICT_BARCODE_MATCHING is set to 'false'
+ */
+export function isStrictMatchingEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_STRICT_BARCODE_MATCHING !== 'false';
+}
+
+// GTIN-8, GTIN-12 (UPC-A), GTIN-13 (EAN) and GTIN-14
+export function isGtinFormat(code: string): boolean {
+  return /^(\d{8}|\d{12,14})$/.test(code);
+}
+
+/**
+ * Validate the GS1 check digit of a GTIN
+ * Weights alternate 3,1,3,... starting from the digit left of the check digit
+ */
+export function hasValidGs1CheckDigit(code: string): boolean {
+  if (!isGtinFormat(code)) {
+    return false;
+  }
+
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Reject camera misreads before they are matched against packages
+ * Numeric codes with a GTIN length must carry a valid check digit; manual entry is not checked
+ */
+export function validateScannedCode(
+  code: string,
+  source: ScanSource
+): { valid: boolean; error?: string } {
+  if (!code.trim()) {
+    return { valid: false, error: 'Empty code' };
+  }
+
+  if (source === 'camera' && isGtinFormat(code) && !hasValidGs1CheckDigit(code)) {
+    return { valid: false, error: `Invalid GS1 check digit in "${code}" - probably a misread` };
+  }
+
+  return { valid: true };
+}
+
+// How a single line item matches the scanned code, or null
+export function getMatchKind(
+  item: MatchableItem,
+  code: string,
+  options: MatchOptions
+): MatchKind | null {
+  const strict = options.strict ?? isStrictMatchingEnabled();
+
+  if (item.gtin && item.gtin === code) return 'gtin';
+  if (options.mappedSku && item.sku === options.mappedSku) return 'mapped-barcode';
+  if (item.sku === code) return 'sku';
+  if (item.productId?.toString() === code) return 'product-id';
+
+  const allowNameMatch = !(strict && options.source === 'camera');
+  if (
+    allowNameMatch &&
+    code.length >= MIN_NAME_MATCH_LENGTH &&
+    item.name.toLowerCase().includes(code.toLowerCase())
+  ) {
+    return 'name';
+  }
+
+  return null;
+}
+
+/**
+ * Find all entries matching the code with the highest-precedence match kind
+ * Lower-precedence matches are dropped, so a SKU hit in one package is never mixed
+ * with a fuzzy name hit in another.
+ */
+export function findBestMatches<T>(
+  entries: T[],
+  getItem: (entry: T) => MatchableItem,
+  code: string,
+  options: MatchOptions
+): { kind: MatchKind; matches: T[] } | null {
+  const matched = entries
+    .map(entry => ({ entry, kind: getMatchKind(getItem(entry), code, options) }))
+    .filter((match): match is { entry: T; kind: MatchKind } => match.kind !== null);
+
+  if (matched.length === 0) {
+    return null;
+  }
+
+  const kind = MATCH_PRECEDENCE.find(kind => matched.some(match => match.kind === kind))!;
+
+  return { kind, matches: matched.filter(match => match.kind === kind).map(match => match.entry) };
+}
@@ -0,0 +1,45 @@
+// Identify the device a packer is working on, for the packing scan log
+const DEVICE_ID_KEY = 'welmora_device_id';
+
+export interface DeviceInfo {
+  deviceId: string;
+  deviceLabel: string;
+}
+
+// Short human-readable label, e.g. "iPhone 3f9a"
+const getDeviceLabel = (deviceId: string): string => {
+  const userAgent = navigator.userAgent;
+  const platform = /iPhone/.test(userAgent)
+    ? 'iPhone'
+    : /iPad/.test(userAgent)
+      ? 'iPad'
+      : /Android/.test(userAgent)
+        ? 'Android'
+        : /Macintosh/.test(userAgent)
+          ? 'Mac'
+          : /Windows/.test(userAgent)
+            ? 'Windows'
+            : 'Browser';
+
+  return `${platform} ${deviceId.slice(0, 4)}`;
+};
+
+/**
+ * Get the id of this browser, created on first use and kept in localStorage
+ */
+export function getDeviceInfo(): DeviceInfo {
+  let deviceId = '';
+
+  try {
+    deviceId = localStorage.getItem(DEVICE_ID_KEY) || '';
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+  } catch (error) {
+    console.warn('Storage access failed:', error);
+    deviceId = deviceId || 'unknown';
+  }
+
+  return { deviceId, deviceLabel: getDeviceLabel(deviceId) };
+}
@@ -0,0 +1,8 @@
+// Escape text for HTML documents rendered server-side (labels, pick lists, packing slips)
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
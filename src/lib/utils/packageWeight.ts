@@ -0,0 +1,15 @@
+import { Package } from '@/types/woocommerce-api';
+
+// Used when WooCommerce has no weight for a product
+export const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+/**
+ * Estimated package weight in kg from the product weights of its items
+ */
+export function calculatePackageWeight(pkg: Pick<Package, 'items'>): number {
+  return pkg.items.reduce((sum, item) => {
+    // Use actual weight from WooCommerce or fallback to 0.5kg
+    const itemWeight = item.weight || DEFAULT_ITEM_WEIGHT_KG;
+    return sum + itemWeight * item.needed;
+  }, 0);
+}
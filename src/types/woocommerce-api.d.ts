@@ -45,12 +45,19 @@ declare module 'woocommerce-api' {
   export = WooCommerceRestApi;
 }
 
+// Webshops served by the logistics app (Welmora.ch / Welmora.hr)
+export type StoreId = 'ch' | 'hr';
+
+// A single webshop or the merged view of all of them
+export type StoreSelection = StoreId | 'all';
+
 // Daily snapshot types for shopping workflow
 export interface DailySnapshot {
   date: string; // YYYY-MM-DD format
   products: ShoppingItem[];
   totalOrders: number;
   generatedAt: string;
+  stores?: StoreId[]; // Webshops included in this snapshot
 }
 
 export interface ShoppingItem {
@@ -61,11 +68,13 @@ export interface ShoppingItem {
   image?: string;
   category?: string;
   weight?: number;
+  stores?: Partial<Record<StoreId, number>>; // Quantity needed per webshop
 }
 
 // Enhanced package types for packing workflow with shipping information
 export interface Package {
   id: string;
+  store: StoreId;
   orderId: number;
   orderNumber: string; // WooCommerce order number for easy reference
   customerName: string;
@@ -118,6 +127,238 @@ export interface PackageItem {
   productId?: number;
   variation?: string;
   weight?: number;
+  gtin?: string; // GTIN/EAN from the WooCommerce product, for exact barcode matches
+}
+
+// Server-side scan progress of one package in a packing session
+export interface PackingPackageState {
+  packageId: string;
+  orderId: number;
+  store: StoreId;
+  status: Package['status'];
+  items: Array<{ sku: string; needed: number; scanned: number }>;
+}
+
+// Who made a packing change and from which device
+export interface PackingActor {
+  actor?: string;
+  deviceId?: string;
+  deviceLabel?: string;
+}
+
+// One entry of the append-only packing scan log
+export interface PackingScanEvent extends PackingActor {
+  id: string;
+  packageId: string;
+  sku: string;
+  action: 'scan' | 'undo' | 'decrement' | 'reset';
+  delta: number;
+  scannedAfter: number;
+  undoneEventId?: string;
+  createdAt: string;
+}
+
+// Server-side purchase progress of one SKU for one webshop
+export interface ShoppingProgressLine {
+  store: StoreId;
+  sku: string;
+  needed: number;
+  purchased: number;
+}
+
+// Open work for a day, shown as navigation badges
+export interface DayProgress {
+  date: string;
+  shopping: { remaining: number; total: number };
+  packing: { remaining: number; total: number };
+}
+
+// Order or product change that makes the day's shopping list and packages outdated
+export interface SnapshotInvalidation {
+  store: StoreId;
+  topic: string; // WooCommerce webhook topic, e.g. order.updated
+  orderId?: number;
+  productId?: number;
+}
+
+// Messages broadcast on the per-day realtime channel
+export interface DayUpdatePayloads {
+  packing: PackingPackageState;
+  shopping: ShoppingProgressLine[];
+  snapshot: SnapshotInvalidation;
+}
+
+// Barcode (GTIN/EAN) to Welmora SKU mapping, many barcodes per SKU
+export interface BarcodeMapping {
+  id?: string;
+  barcode: string;
+  sku: string;
+  productName?: string;
+  variant?: string; // Packaging variant, e.g. DE, HR or multipack
+  source: 'manual' | 'csv' | 'learned';
+  updatedAt?: string;
+}
+
+// Ledger entry of a WooCommerce webhook, one per webshop, topic and resource
+export interface WebhookDelivery {
+  id: string;
+  store: StoreId;
+  topic: string;
+  resourceKey: string; // e.g. the order id
+  deliveryId?: string;
+  status: 'processing' | 'processed' | 'failed';
+  attempts: number;
+  duplicates: number;
+  error?: string;
+  receivedAt: string;
+  updatedAt: string;
+}
+
+// Sticker PDF in the stickers bucket as recorded in the sticker index
+export interface StickerIndexEntry {
+  sku: string;
+  path: string; // Storage path, e.g. HR/Brand/<sku>.pdf
+  size: number;
+  checksum?: string; // Storage ETag
+  uploadedAt?: string;
+  indexedAt: string;
+}
+
+// Earlier file of a sticker, kept when it was replaced with versioning
+export interface StickerVersion {
+  name: string; // File name in _versions/<sku>/
+  size: number;
+  createdAt?: string;
+}
+
+// Sticker PDFs of an order put into an attachment, in order-line order
+export interface StickerManifest {
+  skus: string[]; // Requested SKUs
+  included: string[]; // SKUs whose sticker PDF was attached
+  missing: string[]; // SKUs without a sticker PDF
+  quantities?: number[]; // Copies per requested SKU, only for merged sticker PDFs
+}
+
+// Attachment of a logged email - content is not stored, only what went into it
+export interface EmailAttachmentInfo extends Partial<StickerManifest> {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+// Outgoing email as recorded in the email log
+export interface EmailLogEntry {
+  id: string;
+  event: string; // declarations, low-stock, daily-summary
+  store?: StoreId;
+  orderId?: number;
+  recipients: string[];
+  subject: string;
+  locale: string;
+  transport: string;
+  templateData: Record<string, unknown>;
+  attachments: EmailAttachmentInfo[];
+  status: 'sending' | 'sent' | 'failed';
+  messageId?: string;
+  error?: string;
+  resentFrom?: string;
+  createdAt: string;
+  sentAt?: string;
+}
+
+// Change recorded in the audit log (who changed what, from which screen, before and after)
+export interface AuditEntry {
+  id: string;
+  createdAt: string;
+  actor: string;
+  actorRole?: string;
+  action:
+    | 'stock-status'
+    | 'inventory'
+    | 'order-status'
+    | `${'dm' | 'mueller' | 'metro'}-${'prices' | 'clean'}`; // Competitor price scrape or clean-up
+  entityType: 'product' | 'order';
+  entityId: string; // SKU of a product, order ID of an order
+  entityName?: string;
+  store?: StoreId;
+  source?: string; // Screen (page path) the change was made from, 'api' for direct calls
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+// Competitor price of a SKU from one scrape
+export interface PriceHistoryEntry {
+  sku: string;
+  source: string; // Competitor, e.g. dm
+  price?: number;
+  url?: string;
+  status: 'found' | 'not-found' | 'error';
+  error?: string;
+  scrapedAt: string;
+}
+
+// Latest change of a competitor price, deltaPercent relative to the previous price
+export interface PriceChange {
+  previousPrice: number;
+  price: number;
+  deltaPercent: number;
+  changedAt: string;
+}
+
+// Account that can sign in to the app
+export interface AppUser {
+  id: string;
+  username: string;
+  role: 'packer' | 'buyer' | 'manager' | 'admin';
+  disabled: boolean;
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+// Background job of the durable queue (webhook side effects such as declaration emails)
+export interface BackgroundJob {
+  id: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: 'queued' | 'running' | 'succeeded' | 'dead';
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedBy?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+// WooCommerce product as mirrored in the local catalogue
+export interface CatalogProduct {
+  id: number;
+  name: string;
+  sku: string;
+  status: string;
+  price: string;
+  regular_price?: string;
+  weight?: string;
+  global_unique_id?: string; // GTIN/EAN field (WooCommerce 9.2+)
+  stock_quantity: number | null;
+  stock_status: string;
+  backorders: string;
+  manage_stock: boolean;
+  images: Array<{ src: string }>;
+  categories?: Array<{ name: string }>;
+  meta_data?: Array<{ key: string; value: string }>;
+  date_created?: string;
+  date_modified?: string;
+  date_modified_gmt?: string;
+}
+
+// Sync progress of the catalogue mirror of one webshop
+export interface CatalogSyncState {
+  store: StoreId;
+  lastModifiedAt?: string;
+  lastSyncedAt?: string;
+  lastFullSyncAt?: string;
 }
 
 // Enhanced scan feedback types
@@ -150,6 +391,7 @@ export interface ScanFeedback {
     scanned: number;
     remaining: number;
   }>; // For handling same product in multiple packages
+  unknownBarcode?: string; // Scanned code without mapping, offered for learning
 }
 
 // Scanner types
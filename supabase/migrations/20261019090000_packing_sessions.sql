@@ -0,0 +1,58 @@
+-- Server-side packing sessions
+-- One session per packing day, one row per package (order) and one row per package line.
+-- Scan counts live here instead of in browser state so progress survives reloads and devices.
+
+create table if not exists packing_sessions (
+  id uuid primary key default gen_random_uuid(),
+  date date not null unique,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists packing_packages (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references packing_sessions (id) on delete cascade,
+  package_id text not null,
+  store text not null,
+  order_id bigint not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'in-progress', 'completed')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (session_id, package_id)
+);
+
+create table if not exists packing_lines (
+  id uuid primary key default gen_random_uuid(),
+  package_row_id uuid not null references packing_packages (id) on delete cascade,
+  sku text not null,
+  needed integer not null check (needed >= 0),
+  scanned integer not null default 0 check (scanned >= 0),
+  updated_at timestamptz not null default now(),
+  unique (package_row_id, sku)
+);
+
+create index if not exists packing_packages_session_idx on packing_packages (session_id);
+create index if not exists packing_lines_package_idx on packing_lines (package_row_id);
+
+-- Atomically move a line's scan count by p_delta, clamped to 0..needed.
+-- Returns the updated line, or nothing if the package/SKU is not part of the session.
+create or replace function adjust_packing_line(
+  p_session_id uuid,
+  p_package_id text,
+  p_sku text,
+  p_delta integer
+)
+returns setof packing_lines
+language sql
+as $$
+  update packing_lines l
+  set scanned = least(greatest(l.scanned + p_delta, 0), l.needed),
+      updated_at = now()
+  from packing_packages p
+  where p.id = l.package_row_id
+    and p.session_id = p_session_id
+    and p.package_id = p_package_id
+    and l.sku = p_sku
+  returning l.*;
+$$;
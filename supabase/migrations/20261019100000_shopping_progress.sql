@@ -0,0 +1,39 @@
+-- Shared shopping progress
+-- One row per day, webshop and SKU so "purchased" counts are shared between devices.
+
+create table if not exists shopping_progress (
+  id uuid primary key default gen_random_uuid(),
+  date date not null,
+  store text not null,
+  sku text not null,
+  needed integer not null check (needed >= 0),
+  purchased integer not null default 0 check (purchased >= 0),
+  updated_at timestamptz not null default now(),
+  unique (date, store, sku)
+);
+
+create index if not exists shopping_progress_date_idx on shopping_progress (date);
+
+-- Scans that would push a line past 0..needed are now rejected instead of clamped,
+-- so when two devices scan the last unit of a line only the first one is counted.
+-- Returns nothing for unknown lines and for rejected scans; callers tell them apart.
+create or replace function adjust_packing_line(
+  p_session_id uuid,
+  p_package_id text,
+  p_sku text,
+  p_delta integer
+)
+returns setof packing_lines
+language sql
+as $$
+  update packing_lines l
+  set scanned = l.scanned + p_delta,
+      updated_at = now()
+  from packing_packages p
+  where p.id = l.package_row_id
+    and p.session_id = p_session_id
+    and p.package_id = p_package_id
+    and l.sku = p_sku
+    and l.scanned + p_delta between 0 and l.needed
+  returning l.*;
+$$;
@@ -0,0 +1,23 @@
+-- Barcode (GTIN/EAN) to Welmora SKU mapping
+-- A SKU can have many barcodes: multipacks, DE vs. HR packaging variants, supplier codes.
+-- Each barcode points to exactly one SKU.
+
+create table if not exists barcode_mappings (
+  id uuid primary key default gen_random_uuid(),
+  barcode text not null unique,
+  sku text not null,
+  product_name text,
+  variant text, -- e.g. 'DE', 'HR', 'multipack'
+  source text not null default 'manual' check (source in ('manual', 'csv', 'learned')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists barcode_mappings_sku_idx on barcode_mappings (sku);
+
+-- Mappings that were hardcoded in the WooCommerce client
+insert into barcode_mappings (barcode, sku, product_name, source) values
+  ('4251758427366', '4251758427366', 'Kapsule za perilicu posuđa Ultimate Plus Citrus', 'csv'),
+  ('4251758427403', '4251758427403', 'All-in-1 tablete za pranje posuđa Ultimate Fresh', 'csv'),
+  ('8700216088602', '8700216088602', 'Sredstvo za pranje rublja Standard', 'csv')
+on conflict (barcode) do nothing;
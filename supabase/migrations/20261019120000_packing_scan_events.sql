@@ -0,0 +1,146 @@
+-- Packing scan log
+-- Append-only history of every scan and correction of a packing day, so a single
+-- mis-scan can be undone and each package shows who scanned what, when and where.
+
+create table if not exists packing_scan_events (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references packing_sessions (id),
+  package_id text not null,
+  sku text not null,
+  action text not null check (action in ('scan', 'undo', 'decrement', 'reset')),
+  delta integer not null,
+  scanned_after integer not null check (scanned_after >= 0),
+  actor text,
+  device_id text,
+  device_label text,
+  undone_event_id uuid references packing_scan_events (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists packing_scan_events_package_idx
+  on packing_scan_events (session_id, package_id, created_at desc);
+
+-- A scan can only be undone once, even when two devices press undo at the same time
+create unique index if not exists packing_scan_events_undone_idx
+  on packing_scan_events (undone_event_id)
+  where undone_event_id is not null;
+
+create or replace function reject_packing_scan_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'packing_scan_events is append-only';
+end;
+$$;
+
+drop trigger if exists packing_scan_events_append_only on packing_scan_events;
+create trigger packing_scan_events_append_only
+  before update or delete on packing_scan_events
+  for each row execute function reject_packing_scan_event_changes();
+
+-- Adjust a line and log the change in one statement.
+-- Returns nothing when adjust_packing_line rejected the change.
+create or replace function record_packing_scan(
+  p_session_id uuid,
+  p_package_id text,
+  p_sku text,
+  p_delta integer,
+  p_action text,
+  p_actor text,
+  p_device_id text,
+  p_device_label text
+)
+returns setof packing_scan_events
+language sql
+as $$
+  with adjusted as (
+    select * from adjust_packing_line(p_session_id, p_package_id, p_sku, p_delta)
+  )
+  insert into packing_scan_events (
+    session_id, package_id, sku, action, delta, scanned_after, actor, device_id, device_label
+  )
+  select p_session_id, p_package_id, sku, p_action, p_delta, scanned, p_actor, p_device_id, p_device_label
+  from adjusted
+  returning *;
+$$;
+
+-- Take back the unit counted by a scan event and log the undo.
+-- Returns nothing when the event is not a scan or its line is already empty;
+-- fails with a unique violation when the scan was undone already.
+create or replace function undo_packing_scan(
+  p_event_id uuid,
+  p_actor text,
+  p_device_id text,
+  p_device_label text
+)
+returns setof packing_scan_events
+language plpgsql
+as $$
+declare
+  v_event packing_scan_events;
+  v_scanned integer;
+begin
+  select * into v_event from packing_scan_events where id = p_event_id and action = 'scan';
+  if not found then
+    return;
+  end if;
+
+  update packing_lines l
+  set scanned = l.scanned - 1,
+      updated_at = now()
+  from packing_packages p
+  where p.id = l.package_row_id
+    and p.session_id = v_event.session_id
+    and p.package_id = v_event.package_id
+    and l.sku = v_event.sku
+    and l.scanned > 0
+  returning l.scanned into v_scanned;
+
+  if not found then
+    return;
+  end if;
+
+  return query
+    insert into packing_scan_events (
+      session_id, package_id, sku, action, delta, scanned_after,
+      actor, device_id, device_label, undone_event_id
+    )
+    values (
+      v_event.session_id, v_event.package_id, v_event.sku, 'undo', -1, v_scanned,
+      p_actor, p_device_id, p_device_label, v_event.id
+    )
+    returning *;
+end;
+$$;
+
+-- Zero all lines of a package, logging one reset event per line that had scans
+create or replace function reset_packing_package(
+  p_session_id uuid,
+  p_package_id text,
+  p_actor text,
+  p_device_id text,
+  p_device_label text
+)
+returns setof packing_scan_events
+language sql
+as $$
+  with reset as (
+    update packing_lines l
+    set scanned = 0,
+        updated_at = now()
+    from packing_lines previous, packing_packages p
+    where previous.id = l.id
+      and p.id = l.package_row_id
+      and p.session_id = p_session_id
+      and p.package_id = p_package_id
+      and previous.scanned > 0
+    returning l.sku, previous.scanned as previous_scanned
+  )
+  insert into packing_scan_events (
+    session_id, package_id, sku, action, delta, scanned_after, actor, device_id, device_label
+  )
+  select p_session_id, p_package_id, sku, 'reset', -previous_scanned, 0, p_actor, p_device_id, p_device_label
+  from reset
+  returning *;
+$$;
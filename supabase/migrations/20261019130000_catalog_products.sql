@@ -0,0 +1,26 @@
+-- Local mirror of the WooCommerce product catalogue
+-- One row per webshop and product, kept current by incremental syncs (modified_after)
+-- and product webhooks. `data` holds the product fields the app reads.
+
+create table if not exists catalog_products (
+  store text not null,
+  product_id bigint not null,
+  sku text,
+  name text not null,
+  status text not null,
+  data jsonb not null,
+  date_modified_gmt timestamptz,
+  synced_at timestamptz not null default now(),
+  primary key (store, product_id)
+);
+
+create index if not exists catalog_products_sku_idx on catalog_products (store, sku);
+create index if not exists catalog_products_name_idx on catalog_products (store, name);
+
+-- Sync progress per webshop; last_modified_gmt is the modified_after of the next incremental sync
+create table if not exists catalog_sync_state (
+  store text primary key,
+  last_modified_gmt timestamptz,
+  last_synced_at timestamptz,
+  last_full_sync_at timestamptz
+);
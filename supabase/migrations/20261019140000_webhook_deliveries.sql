@@ -0,0 +1,72 @@
+-- Ledger of WooCommerce webhook deliveries
+-- WooCommerce redelivers webhooks that fail or time out, so side effects (declaration emails)
+-- are recorded per webshop, topic and resource (e.g. the order id) and run only once.
+
+create table if not exists webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  store text not null,
+  topic text not null,
+  resource_key text not null,
+  delivery_id text, -- X-WC-Webhook-Delivery-ID of the latest attempt
+  status text not null default 'processing'
+    check (status in ('processing', 'processed', 'failed')),
+  attempts integer not null default 1,
+  duplicates integer not null default 0,
+  error text,
+  received_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (store, topic, resource_key)
+);
+
+create index if not exists webhook_deliveries_delivery_idx on webhook_deliveries (delivery_id);
+create index if not exists webhook_deliveries_updated_idx on webhook_deliveries (updated_at desc);
+
+-- Claim a delivery for processing.
+-- Returns the row when the caller should process it: first delivery, a previously failed one,
+-- or one stuck in processing (crashed handler). Returns nothing for duplicates, which are counted.
+create or replace function claim_webhook_delivery(
+  p_store text,
+  p_topic text,
+  p_resource_key text,
+  p_delivery_id text
+)
+returns setof webhook_deliveries
+language plpgsql
+as $$
+declare
+  v_delivery webhook_deliveries;
+begin
+  insert into webhook_deliveries (store, topic, resource_key, delivery_id)
+  values (p_store, p_topic, p_resource_key, p_delivery_id)
+  on conflict (store, topic, resource_key) do nothing
+  returning * into v_delivery;
+
+  if found then
+    return next v_delivery;
+    return;
+  end if;
+
+  update webhook_deliveries d
+  set status = 'processing',
+      attempts = d.attempts + 1,
+      delivery_id = coalesce(p_delivery_id, d.delivery_id),
+      error = null,
+      updated_at = now()
+  where d.store = p_store
+    and d.topic = p_topic
+    and d.resource_key = p_resource_key
+    and (d.status = 'failed' or (d.status = 'processing' and d.updated_at < now() - interval '10 minutes'))
+  returning d.* into v_delivery;
+
+  if found then
+    return next v_delivery;
+    return;
+  end if;
+
+  update webhook_deliveries d
+  set duplicates = d.duplicates + 1
+  where d.store = p_store
+    and d.topic = p_topic
+    and d.resource_key = p_resource_key;
+end;
+$$;
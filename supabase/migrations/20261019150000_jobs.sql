@@ -0,0 +1,51 @@
+-- Durable background jobs
+-- Webhooks enqueue their side effects here and return immediately. Runners claim due jobs,
+-- retry failures with exponential backoff and move jobs that keep failing to 'dead'.
+
+create table if not exists jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  payload jsonb not null default '{}',
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'dead')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5 check (max_attempts > 0),
+  run_at timestamptz not null default now(),
+  locked_at timestamptz,
+  locked_by text,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists jobs_due_idx on jobs (run_at) where status in ('queued', 'running');
+create index if not exists jobs_status_idx on jobs (status, updated_at desc);
+
+-- Claim up to p_limit due jobs for one runner.
+-- Running jobs locked longer than p_lock_timeout_seconds belong to a crashed runner and are
+-- claimed again. skip locked keeps concurrent runners from claiming the same job.
+create or replace function claim_jobs(
+  p_runner text,
+  p_limit integer,
+  p_lock_timeout_seconds integer
+)
+returns setof jobs
+language sql
+as $$
+  update jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      locked_by = p_runner,
+      updated_at = now()
+  where j.id in (
+    select id from jobs
+    where (status = 'queued' and run_at <= now())
+       or (status = 'running' and locked_at < now() - make_interval(secs => p_lock_timeout_seconds))
+    order by run_at
+    limit p_limit
+    for update skip locked
+  )
+  returning j.*;
+$$;
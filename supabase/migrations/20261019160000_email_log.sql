@@ -0,0 +1,29 @@
+-- Outbox and delivery log of every outgoing email
+-- A row is written before the transport is called and completed with the provider's message id
+-- or the error, so the log also shows emails that never left (crash, missing configuration).
+-- template_data and the attachment manifest are kept so an email can be rendered and sent again.
+
+create table if not exists email_log (
+  id uuid primary key default gen_random_uuid(),
+  event text not null,
+  store text,
+  order_id bigint,
+  recipients text[] not null,
+  subject text not null,
+  locale text not null,
+  transport text not null,
+  template_data jsonb not null default '{}'::jsonb,
+  -- [{ filename, contentType, size, skus?, included?, missing? }]
+  attachments jsonb not null default '[]'::jsonb,
+  status text not null default 'sending'
+    check (status in ('sending', 'sent', 'failed')),
+  message_id text,
+  error text,
+  resent_from uuid references email_log (id) on delete set null,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index if not exists email_log_order_idx on email_log (order_id);
+create index if not exists email_log_created_idx on email_log (created_at desc);
+create index if not exists email_log_status_idx on email_log (status, created_at desc);
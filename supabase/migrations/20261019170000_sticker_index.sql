@@ -0,0 +1,15 @@
+-- Index of the sticker PDFs in the `stickers` storage bucket
+-- One row per SKU (file name without .pdf, in any folder), rebuilt by the sticker-index job so
+-- lookups and reports don't have to list the bucket. `checksum` is the storage ETag.
+
+create table if not exists sticker_index (
+  sku text primary key,
+  path text not null,
+  size bigint,
+  checksum text,
+  uploaded_at timestamptz,
+  indexed_at timestamptz not null default now()
+);
+
+create index if not exists sticker_index_path_idx on sticker_index (path);
+create index if not exists sticker_index_indexed_at_idx on sticker_index (indexed_at);
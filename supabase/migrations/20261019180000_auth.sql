@@ -0,0 +1,27 @@
+-- Accounts and server-side sessions
+-- Passwords are stored as scrypt hashes. The session cookie holds a random token of which only
+-- the SHA-256 is stored, so the table alone can't be used to sign in; logout revokes the row.
+
+create table if not exists app_users (
+  id uuid primary key default gen_random_uuid(),
+  username text not null unique, -- lowercase
+  password_hash text not null,
+  disabled boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  last_login_at timestamptz
+);
+
+create table if not exists auth_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references app_users (id) on delete cascade,
+  token_hash text not null unique,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  refreshed_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz
+);
+
+create index if not exists auth_sessions_user_idx on auth_sessions (user_id);
+create index if not exists auth_sessions_expires_idx on auth_sessions (expires_at);
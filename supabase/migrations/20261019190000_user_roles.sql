@@ -0,0 +1,10 @@
+-- Role of each account, checked by the API middleware
+-- packer: packing and order status, buyer: shopping and stock, manager: everything operational,
+-- admin: also accounts, webhooks status and debug endpoints.
+-- Accounts created before roles existed keep full operational access.
+
+alter table app_users
+  add column if not exists role text not null default 'manager'
+    check (role in ('packer', 'buyer', 'manager', 'admin'));
+
+alter table app_users alter column role set default 'packer';
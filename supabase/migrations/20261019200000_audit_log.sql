@@ -0,0 +1,22 @@
+-- Audit trail of changes made through the app: stock, order status and competitor price data
+-- One row per changed entity with who made the change, from which screen, and the changed
+-- fields before and after. Rows are only ever inserted.
+
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  actor text not null,
+  actor_role text,
+  action text not null,
+  entity_type text not null check (entity_type in ('product', 'order')),
+  entity_id text not null,
+  entity_name text,
+  store text,
+  source text,
+  before jsonb,
+  after jsonb
+);
+
+create index if not exists audit_log_created_at_idx on audit_log (created_at desc);
+create index if not exists audit_log_entity_idx on audit_log (entity_type, entity_id, created_at desc);
+create index if not exists audit_log_actor_idx on audit_log (actor, created_at desc);
@@ -0,0 +1,39 @@
+-- Competitor prices per SKU and source, one row per product per scrape
+-- The product meta (_dm_price, ...) only holds the latest value; this keeps every scrape.
+-- status: found (price read), not-found (no product or no price on the page), error (scrape failed)
+
+create table if not exists price_history (
+  id bigserial primary key,
+  sku text not null,
+  source text not null,
+  price numeric(10, 2),
+  url text,
+  status text not null check (status in ('found', 'not-found', 'error')),
+  error text,
+  scraped_at timestamptz not null default now()
+);
+
+create index if not exists price_history_sku_idx on price_history (sku, source, scraped_at desc);
+create index if not exists price_history_source_idx on price_history (source, scraped_at desc);
+
+-- Latest price change per SKU and source: the newest found price that differs from the found
+-- price before it
+create or replace view price_last_changes as
+select distinct on (sku, source)
+  sku,
+  source,
+  previous_price,
+  price,
+  scraped_at as changed_at
+from (
+  select
+    sku,
+    source,
+    price,
+    scraped_at,
+    lag(price) over (partition by sku, source order by scraped_at) as previous_price
+  from price_history
+  where status = 'found'
+) found_prices
+where previous_price is not null and price <> previous_price
+order by sku, source, scraped_at desc;
@@ -0,0 +1,46 @@
+-- Dead-letter jobs whose runner keeps crashing
+-- A running job whose lock expired is claimed again, which counts as an attempt. Jobs that
+-- already used their last attempt now go to 'dead' instead, so a job that crashes every runner
+-- does not circulate forever.
+
+create or replace function claim_jobs(
+  p_runner text,
+  p_limit integer,
+  p_lock_timeout_seconds integer
+)
+returns setof jobs
+language sql
+as $$
+  update jobs j
+  set status = 'dead',
+      locked_at = null,
+      locked_by = null,
+      last_error = 'Lock expired on the last attempt (runner crashed or timed out)',
+      updated_at = now(),
+      finished_at = now()
+  where j.id in (
+    select id from jobs
+    where status = 'running'
+      and locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+      and attempts >= max_attempts
+    for update skip locked
+  );
+
+  update jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      locked_by = p_runner,
+      updated_at = now()
+  where j.id in (
+    select id from jobs
+    where (status = 'queued' and run_at <= now())
+       or (status = 'running'
+           and locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+           and attempts < max_attempts)
+    order by run_at
+    limit p_limit
+    for update skip locked
+  )
+  returning j.*;
+$$;